@@ -1,13 +1,28 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Loader2, AlertCircle, MapPin, Database } from "lucide-react"
 import { dataService } from "@/lib/data-service"
-import type { UnifiedLocation } from "@/lib/unified-data-service"
+import { ALL_RESIDENTIAL_CODE, REDFIN_PROPERTY_TYPES } from "@/lib/property-types"
+import { findMisalignments, formatAsOf, type DatasetVintage } from "@/lib/vintage"
+import { isAbortError } from "@/lib/fetch-policy"
+import { hasDataFile } from "@/lib/file-path-resolver"
+import { buildRedfinSeries, latestPoint, type RedfinSeries } from "@/lib/redfin-series"
+import type { CensusSummaryRow, RedfinRow } from "@/lib/payload-schemas"
+import {
+  unifiedDataService,
+  type CoordinatesSource,
+  type DataMode,
+  type InitializationResult,
+  type LocationLevel,
+  type TableIdResolution,
+  type UnifiedLocation,
+} from "@/lib/unified-data-service"
 
 // Import components
 import DemographicsSection from "@/components/demographics-section"
@@ -17,77 +32,214 @@ import InvestmentSection from "@/components/investment-section"
 import HybridMarketSection from "@/components/hybrid-market-section"
 import LocationNavigator from "@/components/integrated-location-navigator"
 import DataFileChecker from "@/components/data-file-checker"
+import CoverageReportPanel from "@/components/coverage-report-panel"
+
+const LEVEL_LABELS: Record<LocationLevel, string> = {
+  state: "State",
+  county: "County",
+  city: "City",
+  zip: "ZIP",
+  tract: "Tract",
+  metro: "Metro",
+}
+
+const COORDINATES_SOURCE_LABELS: Record<CoordinatesSource, string> = {
+  "internal-point": "Census internal point",
+  zips: "Land-area weighted centroid of ZIPs",
+  geometry: "Centroid of boundary geometry",
+  default: "Approximate state center",
+}
+
+// Header badge for each data mode, so mock or partial data is never shown as connected
+const DATA_MODE_BADGES: Record<DataMode, { label: string; variant: "outline" | "secondary" | "destructive" }> = {
+  real: { label: "Data Sources Connected", variant: "outline" },
+  partial: { label: "Partial Data", variant: "secondary" },
+  mock: { label: "Mock Data", variant: "destructive" },
+  unavailable: { label: "Data Unavailable", variant: "destructive" },
+}
+
+// Latest Redfin row for the selected location and the table it came from
+interface RedfinMarket {
+  resolution: TableIdResolution
+  latest: RedfinRow
+  months: number
+  // Median sale price by month, for its month-over-month and year-over-year change and missing months
+  salePrice: RedfinSeries | null
+  vintage: DatasetVintage | null
+}
+
+// "As of" badge for a section, with the dataset and its publish date on hover
+function AsOfBadge({ vintage }: { vintage: DatasetVintage | null }) {
+  if (!vintage) return null
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs font-normal"
+      title={`${vintage.label}${vintage.updated ? `, updated ${vintage.updated}` : ""}`}
+    >
+      As of {formatAsOf(vintage)}
+    </Badge>
+  )
+}
 
 export default function IntegratedCensusDashboard() {
   const [selectedLocation, setSelectedLocation] = useState<UnifiedLocation | null>(null)
-  const [censusData, setCensusData] = useState<any[]>([])
-  const [selectedData, setSelectedData] = useState<any>(null)
+  const [censusData, setCensusData] = useState<CensusSummaryRow[]>([])
+  const [selectedData, setSelectedData] = useState<CensusSummaryRow | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isNavigatorInitialized, setIsNavigatorInitialized] = useState(false)
+  const [initResult, setInitResult] = useState<InitializationResult | null>(null)
+  const [propertyTypeCode, setPropertyTypeCode] = useState(ALL_RESIDENTIAL_CODE)
+  const [redfinMarket, setRedfinMarket] = useState<RedfinMarket | null>(null)
+  const [redfinLoading, setRedfinLoading] = useState(false)
+  // Census load for the selected ZIP; aborted when the selection changes
+  const censusControllerRef = useRef<AbortController | null>(null)
+
+  // Stable so the navigator does not re-initialize on every render
+  const handleNavigatorInitialized = useCallback((initialized: boolean, result?: InitializationResult) => {
+    setIsNavigatorInitialized(initialized)
+    setInitResult(result ?? null)
+  }, [])
 
   // Handle location selection from navigator
   const handleLocationSelect = async (location: UnifiedLocation) => {
     setSelectedLocation(location)
     setError(null)
 
+    // Refine ZIP-derived coordinates and bounds from geometry where the repo has it
+    if (location.level === "state" || location.level === "county") {
+      unifiedDataService
+        .loadGeometry(location.stateCode, location.level)
+        .then(() => setSelectedLocation((current) => (current?.id === location.id ? { ...location } : current)))
+        .catch((err) => console.warn(`⚠️ No ${location.level} geometry for ${location.stateCode}:`, err))
+    }
+
     // Only load census data for ZIP codes
-    if (location.zipCode) {
+    if (location.level === "zip") {
       await loadCensusDataForLocation(location)
     } else {
       // For state/county/city level, show summary or instructions
+      censusControllerRef.current?.abort()
       setSelectedData(null)
       setCensusData([])
     }
   }
 
+  // Load Redfin rows for the selected location and property type, falling back to the nearest
+  // ancestor with a table ID when the location itself has none or its file has no matching rows
+  useEffect(() => {
+    if (!selectedLocation || selectedLocation.level === "state") {
+      setRedfinMarket(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const loadRedfinMarket = async () => {
+      setRedfinLoading(true)
+      let market: RedfinMarket | null = null
+
+      for (const candidate of unifiedDataService.getTableIdCandidates(selectedLocation, propertyTypeCode)) {
+        // ZIP and city table IDs have no Redfin file to load them from; try the county's instead
+        if (!hasDataFile("redfin", candidate.location.level)) continue
+        try {
+          const rows = await dataService.loadRedfinRows(
+            candidate.location.stateCode,
+            candidate.location.level,
+            candidate.tableId,
+            propertyTypeCode,
+            { signal: controller.signal },
+          )
+          if (rows.length > 0) {
+            market = {
+              resolution: candidate,
+              latest: rows[rows.length - 1],
+              months: new Set(rows.map((row) => row.period_end)).size,
+              salePrice: buildRedfinSeries(rows, "median_sale_price")[0] ?? null,
+              vintage: dataService.getVintage(`redfin-${candidate.location.stateCode}-${candidate.location.level}`),
+            }
+            break
+          }
+        } catch (err) {
+          if (isAbortError(err)) return
+          console.warn(`⚠️ No Redfin ${candidate.location.level} data for ${candidate.location.name}:`, err)
+        }
+      }
+
+      if (!controller.signal.aborted) {
+        setRedfinMarket(market)
+        setRedfinLoading(false)
+      }
+    }
+
+    loadRedfinMarket()
+    return () => controller.abort()
+  }, [selectedLocation, propertyTypeCode])
+
   // Load census data for selected location
   const loadCensusDataForLocation = async (location: UnifiedLocation) => {
+    censusControllerRef.current?.abort()
+    const controller = new AbortController()
+    censusControllerRef.current = controller
+
     setLoading(true)
     setError(null)
 
     try {
       // Load ZIP-level data for the state
-      const data = await dataService.loadCensusData(location.stateCode, "zip")
-      const dataArray = Array.isArray(data) ? data : [data]
+      const data = await dataService.loadCensusSummary(location.stateCode, "zip", { signal: controller.signal })
+      if (controller.signal.aborted) return
 
       // Find the specific ZIP code data
-      const zipData = dataArray.find(
-        (item) =>
-          (item.zip || item.zipcode || "").toString() === location.zipCode ||
-          (item.geoid || "").toString().endsWith(location.zipCode || ""),
+      const zipData = data.find(
+        (item) => item.zip === location.zipCode || String(item.geoid ?? "").endsWith(location.zipCode || ""),
       )
 
       if (zipData) {
         setSelectedData(zipData)
-        setCensusData(dataArray) // Keep all data for comparisons
+        setCensusData(data) // Keep all data for comparisons
       } else {
         setError(`No census data found for ZIP ${location.zipCode}`)
         setSelectedData(null)
         setCensusData([])
       }
     } catch (err) {
+      if (isAbortError(err)) return
       console.error("Error loading census data:", err)
       setError(err instanceof Error ? err.message : "Failed to load census data")
       setSelectedData(null)
       setCensusData([])
     } finally {
-      setLoading(false)
+      if (censusControllerRef.current === controller) setLoading(false)
     }
   }
 
-  const formatCurrency = (value: number) => {
+  // Vintages of the census and Redfin data on screen, to flag sources describing different periods
+  const censusVintage =
+    selectedData && selectedLocation ? dataService.getVintage(`census-${selectedLocation.stateCode}-zip`) : null
+  const vintageWarnings = findMisalignments([censusVintage, redfinMarket?.vintage])
+
+  const formatCurrency = (value: number | null) => {
     if (!value) return "N/A"
     if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`
     if (value >= 1000) return `$${(value / 1000).toFixed(0)}K`
     return `$${value?.toLocaleString()}`
   }
 
-  const formatPercent = (value: number) => {
+  const formatPercent = (value: number | null) => {
     if (value === null || value === undefined) return "N/A"
     return `${value?.toFixed(1)}%`
   }
 
+  // Changes are fractions, e.g. 0.052 -> "+5.2%"
+  const formatChange = (value: number | null) => {
+    if (value === null) return "N/A"
+    return `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)}%`
+  }
+
+  const salePricePoint = redfinMarket?.salePrice ? latestPoint(redfinMarket.salePrice) : null
+  const missingMonths = redfinMarket?.salePrice?.gaps.reduce((total, gap) => total + gap.months, 0) ?? 0
+
   return (
     <div className="container mx-auto py-8 space-y-6">
       {/* Header */}
@@ -100,19 +252,40 @@ export default function IntegratedCensusDashboard() {
             </p>
           </div>
           <div className="flex items-center gap-2">
-            {isNavigatorInitialized && (
-              <Badge variant="outline" className="flex items-center gap-1">
+            {initResult && <AsOfBadge vintage={unifiedDataService.getVintage("index")} />}
+            {initResult && (
+              <Badge
+                variant={DATA_MODE_BADGES[initResult.mode].variant}
+                className="flex items-center gap-1"
+                title={initResult.failures.map((failure) => `${failure.source}: ${failure.reason}`).join("\n")}
+              >
                 <Database className="h-3 w-3" />
-                Data Sources Connected
+                {DATA_MODE_BADGES[initResult.mode].label}
+                {initResult.failures.length > 0 && ` (${initResult.failures.length} failed)`}
               </Badge>
             )}
           </div>
         </div>
+        {initResult && initResult.failures.length > 0 && (
+          <div className="flex items-start gap-2 text-sm text-muted-foreground">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-yellow-600" />
+            <ul className="space-y-1">
+              {initResult.failures.map((failure, index) => (
+                <li key={index}>
+                  <span className="font-medium">{failure.source}</span>: {failure.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       {/* Data Files Status */}
       <DataFileChecker />
 
+      {/* Coverage Gaps */}
+      <CoverageReportPanel initialized={isNavigatorInitialized} stateCode={selectedLocation?.stateCode} />
+
       {/* Location Navigator */}
       <Card>
         <CardHeader>
@@ -122,7 +295,7 @@ export default function IntegratedCensusDashboard() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <LocationNavigator onLocationSelect={handleLocationSelect} onInitialized={setIsNavigatorInitialized} />
+          <LocationNavigator onLocationSelect={handleLocationSelect} onInitialized={handleNavigatorInitialized} />
         </CardContent>
       </Card>
 
@@ -135,7 +308,7 @@ export default function IntegratedCensusDashboard() {
                 <MapPin className="h-5 w-5" />
                 Selected Location
               </span>
-              <Badge variant="outline">{selectedLocation.zipCode ? "ZIP Level" : "Area Level"}</Badge>
+              <Badge variant="outline">{LEVEL_LABELS[selectedLocation.level]} Level</Badge>
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -143,12 +316,41 @@ export default function IntegratedCensusDashboard() {
               <div>
                 <h4 className="font-semibold text-sm text-gray-600 mb-1">Location Path</h4>
                 <p className="font-medium">{selectedLocation.hierarchicalPath}</p>
+                {selectedLocation.geoid && selectedLocation.level !== "metro" && (
+                  <p className="text-xs text-gray-500 font-mono">GEOID: {selectedLocation.geoid}</p>
+                )}
+                {selectedLocation.level === "metro" ? (
+                  <p className="text-xs text-gray-500">
+                    CBSA {selectedLocation.metroCode} · {selectedLocation.childZips?.length || 0} ZIPs in{" "}
+                    {(selectedLocation.memberCounties || [])
+                      .map((id) => unifiedDataService.getLocation(id)?.name)
+                      .filter(Boolean)
+                      .join(", ") || "no listed counties"}
+                  </p>
+                ) : (
+                  selectedLocation.metroRegion && (
+                    <p className="text-xs text-gray-500">Metro: {selectedLocation.metroRegion}</p>
+                  )
+                )}
               </div>
               <div>
                 <h4 className="font-semibold text-sm text-gray-600 mb-1">Coordinates</h4>
-                <p className="font-mono text-sm">
-                  {selectedLocation.coordinates[0].toFixed(4)}, {selectedLocation.coordinates[1].toFixed(4)}
-                </p>
+                {selectedLocation.coordinatesSource ? (
+                  <>
+                    <p className="font-mono text-sm">
+                      {selectedLocation.coordinates[0].toFixed(4)}, {selectedLocation.coordinates[1].toFixed(4)}
+                    </p>
+                    <p className="text-xs text-gray-500">{COORDINATES_SOURCE_LABELS[selectedLocation.coordinatesSource]}</p>
+                    {selectedLocation.bounds && (
+                      <p className="text-xs text-gray-500 font-mono">
+                        Bounds: {selectedLocation.bounds[0][0].toFixed(2)}, {selectedLocation.bounds[0][1].toFixed(2)} to{" "}
+                        {selectedLocation.bounds[1][0].toFixed(2)}, {selectedLocation.bounds[1][1].toFixed(2)}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Unknown</p>
+                )}
               </div>
               <div>
                 <h4 className="font-semibold text-sm text-gray-600 mb-1">Data Availability</h4>
@@ -172,7 +374,7 @@ export default function IntegratedCensusDashboard() {
               </div>
             </div>
 
-            {!selectedLocation.zipCode && (
+            {selectedLocation.level !== "zip" && (
               <div className="mt-4 p-3 bg-blue-50 rounded-md">
                 <p className="text-sm text-blue-800">💡 Select a ZIP code to view detailed census data and analytics</p>
               </div>
@@ -181,6 +383,114 @@ export default function IntegratedCensusDashboard() {
         </Card>
       )}
 
+      {/* Vintage Misalignment */}
+      {vintageWarnings.length > 0 && (
+        <div className="flex items-start gap-2 p-3 rounded border border-yellow-300 bg-yellow-50 text-sm text-yellow-800">
+          <AlertCircle className="h-4 w-4 mt-0.5" />
+          <div>
+            <p className="font-medium">Data sources describe different periods</p>
+            <ul className="text-xs space-y-1 mt-1">
+              {vintageWarnings.map((warning) => (
+                <li key={`${warning.newer.key}|${warning.older.key}`}>{warning.message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {/* Redfin Market */}
+      {selectedLocation && selectedLocation.level !== "state" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                Redfin Market
+                <AsOfBadge vintage={redfinMarket?.vintage ?? null} />
+              </span>
+              <Select value={propertyTypeCode} onValueChange={setPropertyTypeCode}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REDFIN_PROPERTY_TYPES).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {redfinLoading ? (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading market data...
+              </div>
+            ) : redfinMarket ? (
+              <>
+                {redfinMarket.resolution.fellBack && (
+                  <p className="text-sm text-yellow-700 mb-3">
+                    No {redfinMarket.resolution.propertyTypeName} data for {selectedLocation.name} - using{" "}
+                    {redfinMarket.resolution.location.name} ({LEVEL_LABELS[redfinMarket.resolution.location.level]})
+                  </p>
+                )}
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-blue-600">
+                      {formatCurrency(redfinMarket.latest.median_sale_price)}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Median Sale Price</div>
+                    {salePricePoint && (salePricePoint.mom !== null || salePricePoint.yoy !== null) && (
+                      <div className="text-xs text-muted-foreground">
+                        MoM {formatChange(salePricePoint.mom)} · YoY {formatChange(salePricePoint.yoy)}
+                      </div>
+                    )}
+                  </div>
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-blue-600">
+                      {formatCurrency(redfinMarket.latest.median_list_price)}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Median List Price</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-green-600">
+                      {redfinMarket.latest.median_ppsf ? `$${Math.round(redfinMarket.latest.median_ppsf)}` : "N/A"}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Price / Sq Ft</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-purple-600">
+                      {redfinMarket.latest.homes_sold?.toLocaleString() ?? "N/A"}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Homes Sold</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-orange-600">
+                      {redfinMarket.latest.inventory?.toLocaleString() ?? "N/A"}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Inventory</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-red-600">{redfinMarket.latest.median_dom ?? "N/A"}</div>
+                    <div className="text-sm text-muted-foreground">Median Days on Market</div>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-3">
+                  Table {redfinMarket.resolution.tableId} · period ending {redfinMarket.latest.period_end} ·{" "}
+                  {redfinMarket.months} months available
+                  {missingMonths > 0 && ` · ${missingMonths} missing`}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No {REDFIN_PROPERTY_TYPES[propertyTypeCode]} Redfin data for {selectedLocation.name} or its parent areas
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Loading State */}
       {loading && (
         <Card>
@@ -204,7 +514,7 @@ export default function IntegratedCensusDashboard() {
               <span className="font-medium">Error loading data</span>
             </div>
             <p className="text-red-600 mt-2">{error}</p>
-            {selectedLocation?.zipCode && (
+            {selectedLocation?.level === "zip" && (
               <Button onClick={() => loadCensusDataForLocation(selectedLocation)} className="mt-4" variant="outline">
                 Try Again
               </Button>
@@ -214,7 +524,7 @@ export default function IntegratedCensusDashboard() {
       )}
 
       {/* Census Data Dashboard */}
-      {selectedData && selectedLocation?.zipCode && (
+      {selectedData && selectedLocation?.level === "zip" && (
         <>
           {/* Area Overview */}
           <Card>
@@ -224,7 +534,10 @@ export default function IntegratedCensusDashboard() {
                   ZIP {selectedLocation.zipCode}
                   {selectedData.preferred_city && ` - ${selectedData.preferred_city}`}
                 </span>
-                <Badge variant="outline">{selectedData.county || selectedData.county_name || "Unknown County"}</Badge>
+                <span className="flex items-center gap-2">
+                  <AsOfBadge vintage={censusVintage} />
+                  <Badge variant="outline">{selectedData.primary_county_name || "Unknown County"}</Badge>
+                </span>
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -237,25 +550,25 @@ export default function IntegratedCensusDashboard() {
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-green-600">
-                    {formatCurrency(selectedData.housing_median_value || selectedData.median_home_value)}
+                    {formatCurrency(selectedData.housing_median_value)}
                   </div>
                   <div className="text-sm text-muted-foreground">Median Home Value</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-purple-600">
-                    {formatCurrency(selectedData.income_median || selectedData.median_income)}
+                    {formatCurrency(selectedData.income_median)}
                   </div>
                   <div className="text-sm text-muted-foreground">Median Income</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-orange-600">
-                    {formatPercent(selectedData.housing_ownership_rate || selectedData.ownership_rate)}
+                    {formatPercent(selectedData.housing_ownership_rate)}
                   </div>
                   <div className="text-sm text-muted-foreground">Ownership Rate</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-red-600">
-                    {formatPercent(selectedData.employment_unemployment_rate || selectedData.unemployment_rate)}
+                    {formatPercent(selectedData.employment_unemployment_rate)}
                   </div>
                   <div className="text-sm text-muted-foreground">Unemployment</div>
                 </div>
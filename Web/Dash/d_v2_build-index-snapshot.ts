@@ -0,0 +1,132 @@
+// build-index-snapshot.ts
+// Node command that builds the unified index from the repository's index files and writes a prebuilt snapshot
+// with its manifest.
+//   npx tsx lib/build-index-snapshot.ts [--root <repo dir>] [--out <file>] [--states NV,CA] [--check]
+// The snapshot defaults to public/unified-index.snapshot.json under the root, and the manifest is written
+// next to it as unified-index.manifest.json. Deploy both. The app does not re-hash the sources, so --check
+// (which writes nothing) fails when any source changed since the manifest was written. Both fail when
+// Index/csv has detail files INDEX_DETAIL_FILES does not list
+
+import { mkdir, readFile, readdir, writeFile } from "fs/promises"
+import * as path from "path"
+import { FileSystemTransport } from "./data-transport"
+import { INDEX_DETAIL_FILES, indexDetailFileName } from "./file-path-resolver"
+import {
+  DEFAULT_MANIFEST_PATH,
+  DEFAULT_SNAPSHOT_PATH,
+  checkSources,
+  createManifest,
+  hashSource,
+  type SnapshotManifest,
+  type SourceHash,
+} from "./index-snapshot"
+import { unifiedDataService } from "./unified-data-service"
+
+const PUBLIC_DIR = "public"
+
+interface CommandOptions {
+  root: string
+  out: string
+  states?: string[]
+  check: boolean
+}
+
+function parseArgs(args: string[]): CommandOptions {
+  const value = (flag: string) => {
+    const index = args.indexOf(flag)
+    return index >= 0 ? args[index + 1] : undefined
+  }
+
+  const root = path.resolve(value("--root") || process.cwd())
+  return {
+    root,
+    out: path.resolve(root, value("--out") || path.join(PUBLIC_DIR, DEFAULT_SNAPSHOT_PATH)),
+    states: value("--states")
+      ?.split(",")
+      .map((state) => state.trim().toUpperCase())
+      .filter(Boolean),
+    check: args.includes("--check"),
+  }
+}
+
+function manifestPathFor(snapshotOut: string): string {
+  return path.join(path.dirname(snapshotOut), path.basename(DEFAULT_MANIFEST_PATH))
+}
+
+// The index build only loads the detail files INDEX_DETAIL_FILES lists, so one added to Index/csv without
+// being listed would silently be left out
+async function checkDetailFiles(root: string): Promise<void> {
+  const listed = new Set(
+    Object.entries(INDEX_DETAIL_FILES).flatMap(([stateCode, levels]) =>
+      levels.map((level) => indexDetailFileName(stateCode, level)),
+    ),
+  )
+  const files = await readdir(path.join(root, "Index", "csv"))
+  const unlisted = files.filter((file) => /^[A-Z]{2}_(county|zip)_data\.csv$/.test(file) && !listed.has(file))
+  if (unlisted.length > 0) {
+    throw new Error(`Index/csv files missing from INDEX_DETAIL_FILES in file-path-resolver: ${unlisted.join(", ")}`)
+  }
+}
+
+// Compare the written manifest with the sources as they are now
+async function checkManifest(options: CommandOptions, transport: FileSystemTransport): Promise<void> {
+  const manifestOut = manifestPathFor(options.out)
+  const manifest: SnapshotManifest = JSON.parse(await readFile(manifestOut, "utf8"))
+  const stale = await checkSources(manifest, transport)
+  if (stale) throw new Error(`${manifestOut} is out of date, ${stale}; rebuild the snapshot`)
+  console.log(`✅ ${manifestOut} matches its ${manifest.sources.length} source files`)
+}
+
+// Record counts are keyed by source; the manifest lists them as the app requests them: "Index/..." files
+// from the data root, the master index files from the site root
+function servedPath(source: string): string {
+  return source.startsWith("Index/") ? source : `/${source.replace(/^\/+/, "")}`
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+  const transport = new FileSystemTransport(options.root, { publicDir: PUBLIC_DIR })
+  await checkDetailFiles(options.root)
+  if (options.check) return checkManifest(options, transport)
+
+  console.log(`🔄 Building unified index from ${options.root}...`)
+  const result = await unifiedDataService.initialize({
+    transport,
+    indexAdapter: options.states ? { detailStates: options.states } : undefined,
+    allowMockData: false,
+    snapshot: false,
+  })
+
+  if (result.mode !== "real" && result.mode !== "partial") {
+    throw new Error(`Index build failed (${result.mode}): ${result.failures.map((f) => f.reason).join("; ")}`)
+  }
+  result.failures.forEach((failure) => console.warn(`⚠️ ${failure.source}: ${failure.reason}`))
+
+  const sources: SourceHash[] = await Promise.all(
+    Object.keys(result.recordCounts).map(async (source) => {
+      const sourcePath = servedPath(source)
+      const response = await transport.fetch(transport.resolve(sourcePath))
+      if (!response.ok) throw new Error(`Could not read ${sourcePath} to hash it (HTTP ${response.status})`)
+      return hashSource(sourcePath, await response.text())
+    }),
+  )
+
+  const snapshot = await unifiedDataService.exportSnapshot(sources)
+  const json = JSON.stringify(snapshot)
+  // The manifest points at the snapshot by its path under the public folder
+  const manifest = createManifest(snapshot, sources, `/${path.basename(options.out)}`)
+  const manifestOut = manifestPathFor(options.out)
+
+  await mkdir(path.dirname(options.out), { recursive: true })
+  await writeFile(options.out, json)
+  await writeFile(manifestOut, JSON.stringify(manifest, null, 2))
+
+  console.log(`✅ Wrote ${snapshot.locations.length} locations from ${sources.length} source files to ${options.out}`)
+  console.log(`📦 ${(json.length / 1024 / 1024).toFixed(1)} MB`)
+  console.log(`🧾 Wrote manifest ${snapshot.sourcesHash.slice(0, 12)} to ${manifestOut}`)
+}
+
+main().catch((error) => {
+  console.error("❌ Could not build index snapshot:", error)
+  process.exit(1)
+})
@@ -0,0 +1,169 @@
+// column-normalizer.ts
+// Renames alias columns to their canonical names from column_mapping.json before rows are validated,
+// e.g. MED_HOME_VAL or median_home_value to housing_median_value, so components read one name per
+// measure. Reports columns that land on the same canonical name and columns nothing declares
+
+import columnMapping from "./column_mapping.json"
+import type { RowSchema } from "./schema"
+
+// column_mapping.json: canonical column -> every name it goes by (itself included), grouped by topic
+interface ColumnMapping {
+  mappings: Record<string, Record<string, string[]>>
+}
+
+// Several columns of one file that map to the same canonical column
+interface AliasCollision {
+  canonical: string
+  // The canonical column first if the file has it, then aliases in file order
+  columns: string[]
+  // Rows where two of them held different non-null values; the first of `columns` with a value is kept
+  conflicts: number
+}
+
+interface NormalizationReport {
+  source: string
+  schema: string
+  checkedAt: string
+  // Alias -> canonical column, for the aliases this file used
+  renamed: Record<string, string>
+  collisions: AliasCollision[]
+  // Columns that are neither declared by the schema nor an alias in the mapping
+  unmapped: string[]
+}
+
+interface NormalizationResult {
+  payload: unknown
+  report: NormalizationReport
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Alias -> canonical column for one schema. The schema lists the names its files already use, so a
+// declared column is never renamed, and where a schema declares a member of an alias group that member
+// is the group's canonical name for it: census and tract files keep zip, state (a FIPS code), county
+// and county_name, GEOID and total_population instead of the mapping's zip_code, state_code or geoid
+function buildAliasTable(mapping: ColumnMapping, schema: RowSchema): Map<string, string> {
+  const declared = new Set(Object.keys(schema.fields))
+  const aliases = new Map<string, string>()
+
+  Object.values(mapping.mappings).forEach((group) => {
+    Object.entries(group).forEach(([key, names]) => {
+      const members = Array.from(new Set([key, ...names]))
+      const declaredMembers = members.filter((name) => declared.has(name))
+      const canonical = declaredMembers.includes(key) ? key : declaredMembers[0] || key
+
+      members.forEach((name) => {
+        // An alias listed under two canonical columns keeps the first
+        if (name === canonical || declared.has(name) || aliases.has(name)) return
+        aliases.set(name, canonical)
+      })
+    })
+  })
+  return aliases
+}
+
+const aliasTables = new WeakMap<RowSchema, Map<string, string>>()
+
+function aliasTableFor(schema: RowSchema): Map<string, string> {
+  let table = aliasTables.get(schema)
+  if (!table) {
+    table = buildAliasTable(columnMapping as ColumnMapping, schema)
+    aliasTables.set(schema, table)
+  }
+  return table
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== null && value !== undefined
+}
+
+// Rename alias columns in a parsed payload, in the shapes validateRows accepts: a list of rows or a
+// single row object. Anything else is returned as it is for validateRows to reject. Rows are copied
+// only when a file uses aliases, so files already in canonical form pass through untouched
+export function normalizeColumns(schema: RowSchema, payload: unknown, source: string): NormalizationResult {
+  const report: NormalizationReport = {
+    source,
+    schema: schema.name,
+    checkedAt: new Date().toISOString(),
+    renamed: {},
+    collisions: [],
+    unmapped: [],
+  }
+  if (!Array.isArray(payload) && !isPlainObject(payload)) return { payload, report }
+
+  const input: unknown[] = Array.isArray(payload) ? payload : [payload]
+  const columns = new Set<string>()
+  input.forEach((row) => {
+    if (isPlainObject(row)) Object.keys(row).forEach((column) => columns.add(column))
+  })
+
+  const aliases = aliasTableFor(schema)
+  // Canonical column -> the file's columns that map to it
+  const sources = new Map<string, string[]>()
+  columns.forEach((column) => {
+    const canonical = aliases.get(column)
+    if (canonical) {
+      report.renamed[column] = canonical
+    } else if (!(column in schema.fields)) {
+      report.unmapped.push(column)
+    }
+    const target = canonical ?? column
+    sources.set(target, [...(sources.get(target) || []), column])
+  })
+  report.unmapped.sort()
+
+  if (Object.keys(report.renamed).length === 0) return { payload, report }
+
+  const collisions = new Map<string, AliasCollision>()
+  sources.forEach((names, canonical) => {
+    if (names.length < 2) return
+    const ordered = [...names.filter((name) => name === canonical), ...names.filter((name) => name !== canonical)]
+    collisions.set(canonical, { canonical, columns: ordered, conflicts: 0 })
+  })
+
+  const normalizeRow = (row: unknown): unknown => {
+    if (!isPlainObject(row)) return row
+    const normalized: Record<string, unknown> = {}
+
+    Object.entries(row).forEach(([column, value]) => {
+      const canonical = aliases.get(column) ?? column
+      const existing = normalized[canonical]
+      if (!hasValue(existing)) {
+        normalized[canonical] = value
+        return
+      }
+      if (!hasValue(value)) return
+      if (value !== existing) collisions.get(canonical)!.conflicts++
+      // The canonical column's own value wins over an alias read before it
+      if (column === canonical) normalized[canonical] = value
+    })
+    return normalized
+  }
+
+  report.collisions = Array.from(collisions.values())
+  const normalized = Array.isArray(payload) ? payload.map(normalizeRow) : normalizeRow(payload)
+  return { payload: normalized, report }
+}
+
+// One line for the console, e.g. "census_summary NV/Cen_Nevada_zip_2023_summary.json: 2 aliases renamed,
+// 1 collision (housing_median_value from median_home_value, MED_HOME_VAL), 3 unmapped columns"
+export function summarizeNormalization(report: NormalizationReport): string {
+  const parts: string[] = []
+  const renamed = Object.keys(report.renamed).length
+  if (renamed > 0) parts.push(`${renamed} ${renamed === 1 ? "alias" : "aliases"} renamed`)
+  if (report.collisions.length > 0) {
+    const count = report.collisions.length
+    const described = report.collisions
+      .map((collision) => `${collision.canonical} from ${collision.columns.join(", ")}`)
+      .join("; ")
+    parts.push(`${count} ${count === 1 ? "collision" : "collisions"} (${described})`)
+  }
+  if (report.unmapped.length > 0) {
+    parts.push(`${report.unmapped.length} unmapped ${report.unmapped.length === 1 ? "column" : "columns"}`)
+  }
+  return `${report.schema} ${report.source}: ${parts.length > 0 ? parts.join(", ") : "canonical"}`
+}
+
+export type { AliasCollision, ColumnMapping, NormalizationReport, NormalizationResult }
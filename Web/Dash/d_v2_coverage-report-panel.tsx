@@ -0,0 +1,249 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertCircle, ClipboardList, Download, Loader2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  coverageReportToCsv,
+  type CoverageField,
+  type CoverageMismatch,
+  type CoverageReport,
+} from "@/lib/coverage-report"
+import { unifiedDataService } from "@/lib/unified-data-service"
+
+const FIELD_LABELS: Record<CoverageField, string> = {
+  geometry: "Geometry",
+  census: "Census",
+  redfin: "Redfin data",
+  redfin_table: "Redfin table",
+}
+
+const FIELDS = Object.keys(FIELD_LABELS) as CoverageField[]
+
+// Rows listed per section; the CSV export has all of them
+const LISTED_ROWS = 25
+
+function downloadCsv(report: CoverageReport) {
+  const blob = new Blob([coverageReportToCsv(report)], { type: "text/csv;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  const scope = report.states.length === 1 ? report.states[0] : "all"
+  link.download = `coverage-gaps-${scope}-${report.generatedAt.slice(0, 10)}.csv`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function describeMismatch(mismatch: CoverageMismatch): string {
+  if (mismatch.field === "presence") {
+    return mismatch.index
+      ? "in county_data_index.csv but not in the lookup"
+      : "in the lookup but not in county_data_index.csv"
+  }
+  const yesNo = (value: boolean) => (value ? "yes" : "no")
+  return `index says ${mismatch.field} ${yesNo(mismatch.index)}, its ZIPs say ${yesNo(mismatch.lookup)}`
+}
+
+interface CoverageReportPanelProps {
+  // Navigator is ready, so the lookup can be reported on
+  initialized: boolean
+  // State of the selected location, preselected in the state picker
+  stateCode?: string
+}
+
+export default function CoverageReportPanel({ initialized, stateCode }: CoverageReportPanelProps) {
+  const [selectedState, setSelectedState] = useState(stateCode || "")
+  const [report, setReport] = useState<CoverageReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (stateCode) setSelectedState(stateCode)
+  }, [stateCode])
+
+  const runReport = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setReport(await unifiedDataService.getCoverageReport({ states: selectedState ? [selectedState] : [] }))
+    } catch (err) {
+      console.error("❌ Coverage report failed:", err)
+      setError(err instanceof Error ? err.message : "Coverage report failed")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!initialized) return null
+
+  const states = unifiedDataService.getStates()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Coverage Gaps
+          </span>
+          <span className="flex items-center gap-2">
+            <Select
+              value={selectedState || "all"}
+              onValueChange={(value) => setSelectedState(value === "all" ? "" : value)}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All states</SelectItem>
+                {states.map((state) => (
+                  <SelectItem key={state.stateCode} value={state.stateCode}>
+                    {state.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={runReport} disabled={loading}>
+              {loading && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Run report
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => report && downloadCsv(report)} disabled={!report}>
+              <Download className="h-4 w-4 mr-1" />
+              CSV
+            </Button>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {!report && !error && (
+          <p className="text-sm text-gray-500">
+            Lists ZIPs without geometry, counties without a Redfin table and tracts without a census lean row, checked
+            against the Index files. Selecting a state also loads and checks its tracts.
+          </p>
+        )}
+
+        {report && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-1 pr-4">State</th>
+                    <th className="py-1 pr-4">Level</th>
+                    <th className="py-1 pr-4 text-right">Locations</th>
+                    {FIELDS.map((field) => (
+                      <th key={field} className="py-1 pr-4 text-right">
+                        No {FIELD_LABELS[field]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.summaries.map((summary) => (
+                    <tr key={`${summary.stateCode}-${summary.level}`} className="border-b last:border-0">
+                      <td className="py-1 pr-4">{summary.stateCode}</td>
+                      <td className="py-1 pr-4 capitalize">{summary.level}</td>
+                      <td className="py-1 pr-4 text-right">{summary.total.toLocaleString()}</td>
+                      {FIELDS.map((field) => (
+                        <td key={field} className="py-1 pr-4 text-right">
+                          {summary.missing[field] ? (
+                            <span className="text-amber-600">{summary.missing[field]!.toLocaleString()}</span>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {report.tracts.some((check) => check.leanTracts !== null || check.detailTracts !== null) && (
+              <div>
+                <h4 className="font-semibold text-sm text-gray-600 mb-2">Tract counts</h4>
+                <ul className="space-y-1 text-sm">
+                  {report.tracts
+                    .filter((check) => check.leanTracts !== null || check.detailTracts !== null)
+                    .map((check) => (
+                      <li key={check.stateCode}>
+                        <span className="font-medium">{check.stateCode}</span>: {check.indexTracts} in
+                        tract_data_index.csv
+                        {check.detailTracts !== null && `, ${check.detailTracts} in the tract detail file`}
+                        {check.leanTracts !== null && `, ${check.leanTracts} with census lean rows`}
+                        {check.missingLean > 0 && (
+                          <Badge variant="secondary" className="ml-2">
+                            {check.missingLean} without lean row
+                          </Badge>
+                        )}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <h4 className="font-semibold text-sm text-gray-600 mb-2">
+                County index mismatches ({report.mismatches.length})
+              </h4>
+              {report.mismatches.length === 0 ? (
+                <p className="text-sm text-gray-500">The county index flags agree with the lookup.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {report.mismatches.slice(0, LISTED_ROWS).map((mismatch) => (
+                    <li key={`${mismatch.geoid}-${mismatch.field}`}>
+                      <span className="font-medium">{mismatch.name}</span>{" "}
+                      <span className="text-xs text-gray-500 font-mono">{mismatch.geoid}</span>:{" "}
+                      {describeMismatch(mismatch)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {report.uncheckedCounties > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {report.uncheckedCounties} counties have no linked ZIPs and were not checked
+                </p>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-semibold text-sm text-gray-600 mb-2">
+                Locations with gaps ({report.gaps.length.toLocaleString()})
+              </h4>
+              <ul className="space-y-1 text-sm">
+                {report.gaps.slice(0, LISTED_ROWS).map((gap) => (
+                  <li key={gap.id} className="flex items-center gap-2">
+                    <span className="font-medium">{gap.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {gap.level} · {gap.stateCode}
+                    </span>
+                    {gap.missing.map((field) => (
+                      <Badge key={field} variant="outline" className="text-xs">
+                        No {FIELD_LABELS[field]}
+                      </Badge>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+              {report.gaps.length > LISTED_ROWS && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Showing {LISTED_ROWS} of {report.gaps.length.toLocaleString()}; export the CSV for the full list
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
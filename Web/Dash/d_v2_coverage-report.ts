@@ -0,0 +1,318 @@
+// coverage-report.ts
+// Which locations lack geometry, census or Redfin data, by state and level, checked against the
+// coverage the Index files claim for counties and tracts. Exports to CSV for the data team
+
+import Papa from "papaparse"
+import type { LoadOptions } from "./fetch-policy"
+import type { CoverageIndex } from "./index-adapter"
+import { tractName } from "./unified-lookup-builder"
+import type { LocationLevel, UnifiedLocation } from "./unified-data-service"
+
+// "redfin" is the data flag; "redfin_table" is a Redfin table ID to load that data with
+type CoverageField = "geometry" | "census" | "redfin" | "redfin_table"
+
+interface CoverageGap {
+  id: string
+  level: LocationLevel
+  name: string
+  stateCode: string
+  geoid?: string
+  missing: CoverageField[]
+}
+
+interface CoverageSummary {
+  stateCode: string
+  level: LocationLevel
+  total: number
+  missing: Partial<Record<CoverageField, number>>
+}
+
+// A county whose county_data_index.csv flag disagrees with the lookup. "presence" means the
+// county is in one and not the other
+interface CoverageMismatch {
+  stateCode: string
+  geoid: string
+  name: string
+  field: Exclude<CoverageField, "redfin_table"> | "presence"
+  index: boolean
+  lookup: boolean
+}
+
+// Tract counts of tract_data_index.csv against the loaded lean files and the tract detail file.
+// Null where that file was not loaded
+interface TractCoverageCheck {
+  stateCode: string
+  indexTracts: number
+  indexWithGeometry: number
+  indexWithRedfin: number
+  leanTracts: number | null
+  detailTracts: number | null
+  // Detail file tracts without a census lean row
+  missingLean: number
+}
+
+interface CoverageReport {
+  generatedAt: string
+  states: string[]
+  summaries: CoverageSummary[]
+  gaps: CoverageGap[]
+  mismatches: CoverageMismatch[]
+  tracts: TractCoverageCheck[]
+  // Counties the lookup has no ZIPs for, so their data flags are neither listed nor checked
+  uncheckedCounties: number
+}
+
+interface CoverageReportOptions extends LoadOptions {
+  // States to report on; all states when omitted
+  states?: string[]
+  // States whose tracts are loaded and checked; defaults to `states`
+  tractStates?: string[]
+}
+
+interface CoverageReportInput {
+  locations: UnifiedLocation[]
+  index: CoverageIndex
+  // States to report on; all states in the lookup when empty
+  states: string[]
+  // States whose tract lean files are loaded
+  tractStates: string[]
+}
+
+// State table IDs are not part of the Index files, metros are not Redfin regions here, and tracts
+// only exist in the lookup where a lean row does, so they are checked against the detail file instead
+const LEVEL_FIELDS: Record<LocationLevel, CoverageField[]> = {
+  state: ["geometry", "census", "redfin"],
+  metro: ["geometry", "census", "redfin"],
+  county: ["geometry", "census", "redfin", "redfin_table"],
+  city: ["geometry", "census", "redfin", "redfin_table"],
+  zip: ["geometry", "census", "redfin", "redfin_table"],
+  tract: ["census"],
+}
+
+const LEVEL_ORDER: LocationLevel[] = ["state", "metro", "county", "city", "zip", "tract"]
+
+function isMissing(location: UnifiedLocation, field: CoverageField): boolean {
+  if (field === "redfin_table") return !location.primaryTableId
+  return !location.hasData[field]
+}
+
+// Some county_data_index.csv rows have no name, so prefer the lookup's
+function countyIdentity(
+  county: CoverageIndex["counties"][number],
+  location?: UnifiedLocation,
+): Pick<CoverageMismatch, "stateCode" | "geoid" | "name"> {
+  return { stateCode: county.stateCode, geoid: county.fips, name: location?.name || county.name }
+}
+
+// County data flags are summarized from the county's ZIPs, so without linked ZIPs only its
+// table ID says anything
+function fieldsToCheck(location: UnifiedLocation): CoverageField[] {
+  if (location.level === "county" && !location.childZips?.length) return ["redfin_table"]
+  return LEVEL_FIELDS[location.level]
+}
+
+type StateAndLevel = { stateCode: string; level: LocationLevel }
+
+function byStateAndLevel(a: StateAndLevel, b: StateAndLevel): number {
+  return a.stateCode.localeCompare(b.stateCode) || LEVEL_ORDER.indexOf(a.level) - LEVEL_ORDER.indexOf(b.level)
+}
+
+export function buildCoverageReport({ locations, index, states, tractStates }: CoverageReportInput): CoverageReport {
+  const inScope = (stateCode: string) => states.length === 0 || states.includes(stateCode)
+  const summaries = new Map<string, CoverageSummary>()
+  const gaps: CoverageGap[] = []
+
+  const summaryOf = (stateCode: string, level: LocationLevel) => {
+    const key = `${stateCode}:${level}`
+    let summary = summaries.get(key)
+    if (!summary) {
+      summary = { stateCode, level, total: 0, missing: {} }
+      summaries.set(key, summary)
+    }
+    return summary
+  }
+
+  const addGap = (gap: CoverageGap) => {
+    const summary = summaryOf(gap.stateCode, gap.level)
+    gap.missing.forEach((field) => (summary.missing[field] = (summary.missing[field] || 0) + 1))
+    if (gap.missing.length > 0) gaps.push(gap)
+  }
+
+  locations.forEach((location) => {
+    if (!inScope(location.stateCode) || location.level === "tract") return
+    summaryOf(location.stateCode, location.level).total++
+    addGap({
+      id: location.id,
+      level: location.level,
+      name: location.name,
+      stateCode: location.stateCode,
+      geoid: location.geoid || location.fips,
+      missing: fieldsToCheck(location).filter((field) => isMissing(location, field)),
+    })
+  })
+
+  // Counties against county_data_index.csv, skipping those without linked ZIPs
+  const mismatches: CoverageMismatch[] = []
+  let uncheckedCounties = 0
+  const lookupCounties = new Map(
+    locations
+      .filter((location) => location.level === "county" && location.fips && inScope(location.stateCode))
+      .map((location): [string, UnifiedLocation] => [location.fips!, location]),
+  )
+  const indexFips = new Set<string>()
+
+  index.counties.forEach((county) => {
+    if (!inScope(county.stateCode)) return
+    indexFips.add(county.fips)
+
+    const location = lookupCounties.get(county.fips)
+    if (!location) {
+      mismatches.push({ ...countyIdentity(county), field: "presence", index: true, lookup: false })
+      return
+    }
+    if (!location.childZips?.length) {
+      uncheckedCounties++
+      return
+    }
+
+    const flags = location.hasData
+    const claimed = { census: county.hasCensus, redfin: county.hasRedfin, geometry: county.hasGeometry }
+    ;(["census", "redfin", "geometry"] as const).forEach((field) => {
+      if (claimed[field] !== flags[field]) {
+        mismatches.push({ ...countyIdentity(county, location), field, index: claimed[field], lookup: flags[field] })
+      }
+    })
+  })
+
+  lookupCounties.forEach((location, fips) => {
+    if (indexFips.has(fips)) return
+    mismatches.push({
+      stateCode: location.stateCode,
+      geoid: fips,
+      name: location.name,
+      field: "presence",
+      index: false,
+      lookup: true,
+    })
+  })
+
+  // Tracts: the index counts against the lean files, and detail file GEOIDs without a lean row
+  const leanGeoids = new Map<string, Set<string>>()
+  locations.forEach((location) => {
+    if (location.level !== "tract" || !location.geoid) return
+    const geoids = leanGeoids.get(location.stateCode) || new Set<string>()
+    geoids.add(location.geoid)
+    leanGeoids.set(location.stateCode, geoids)
+  })
+
+  const tracts: TractCoverageCheck[] = index.tracts
+    .filter((summary) => inScope(summary.stateCode))
+    .map((summary) => {
+      const lean = tractStates.includes(summary.stateCode)
+        ? leanGeoids.get(summary.stateCode) || new Set<string>()
+        : null
+      const detail = index.tractGeoids[summary.stateCode]
+      let missingLean = 0
+
+      if (lean && detail) {
+        const tractSummary = summaryOf(summary.stateCode, "tract")
+        tractSummary.total = detail.length
+        detail.forEach((geoid) => {
+          if (lean.has(geoid)) return
+          missingLean++
+          addGap({
+            id: `tract:${geoid}`,
+            level: "tract",
+            name: tractName(geoid.slice(5)),
+            stateCode: summary.stateCode,
+            geoid,
+            missing: ["census"],
+          })
+        })
+      }
+
+      return {
+        stateCode: summary.stateCode,
+        indexTracts: summary.totalTracts,
+        indexWithGeometry: summary.tractsWithGeometry,
+        indexWithRedfin: summary.tractsWithRedfin,
+        leanTracts: lean ? lean.size : null,
+        detailTracts: detail ? detail.length : null,
+        missingLean,
+      }
+    })
+
+  return {
+    generatedAt: new Date().toISOString(),
+    states: states.length > 0 ? [...states] : Array.from(new Set(locations.map((l) => l.stateCode))).sort(),
+    summaries: Array.from(summaries.values()).sort(byStateAndLevel),
+    gaps: gaps.sort((a, b) => byStateAndLevel(a, b) || a.name.localeCompare(b.name)),
+    mismatches: mismatches.sort((a, b) => a.stateCode.localeCompare(b.stateCode) || a.geoid.localeCompare(b.geoid)),
+    tracts,
+    uncheckedCounties,
+  }
+}
+
+// One row per missing field, flag mismatch and tract count check
+export function coverageReportToCsv(report: CoverageReport): string {
+  const rows: Array<Record<string, string | number>> = []
+
+  report.gaps.forEach((gap) => {
+    gap.missing.forEach((field) => {
+      rows.push({
+        kind: "gap",
+        state: gap.stateCode,
+        level: gap.level,
+        id: gap.id,
+        geoid: gap.geoid || "",
+        name: gap.name,
+        field,
+        index: "",
+        lookup: "",
+      })
+    })
+  })
+
+  report.mismatches.forEach((mismatch) => {
+    rows.push({
+      kind: "index_mismatch",
+      state: mismatch.stateCode,
+      level: "county",
+      id: "",
+      geoid: mismatch.geoid,
+      name: mismatch.name,
+      field: mismatch.field,
+      index: String(mismatch.index),
+      lookup: String(mismatch.lookup),
+    })
+  })
+
+  report.tracts.forEach((check) => {
+    rows.push({
+      kind: "tract_count",
+      state: check.stateCode,
+      level: "tract",
+      id: "",
+      geoid: "",
+      name: "",
+      field: "census",
+      index: check.indexTracts,
+      lookup: check.leanTracts ?? "",
+    })
+  })
+
+  return Papa.unparse(rows, {
+    columns: ["kind", "state", "level", "id", "geoid", "name", "field", "index", "lookup"],
+  })
+}
+
+export type {
+  CoverageField,
+  CoverageGap,
+  CoverageMismatch,
+  CoverageReport,
+  CoverageReportInput,
+  CoverageReportOptions,
+  CoverageSummary,
+  TractCoverageCheck,
+}
@@ -0,0 +1,379 @@
+// data-cache.ts
+// Shared cache for data file downloads. Concurrent requests for a file share one download, bodies stay
+// in memory up to a byte budget (least recently used dropped first), and in the browser they are kept in
+// IndexedDB across reloads and revalidated with ETag / Last-Modified before they are reused
+
+import type { DataLayout, DataTransport, TransportResponse } from "./data-transport"
+import { isAbortError, throwIfAborted, whenNotAborted } from "./fetch-policy"
+
+// Where a response came from; reported in the x-data-cache header. The x-data-cache-stored-at header says
+// when its body was downloaded, so it only changes when the cache serves a new body
+type CacheSource = "memory" | "network" | "revalidated" | "stale"
+
+interface CachedBody {
+  key: string
+  text: string
+  bytes: number
+  contentType: string | null
+  etag: string | null
+  lastModified: string | null
+  storedAt: string
+}
+
+// Where bodies outlive the page
+interface PersistentStore {
+  get(key: string): Promise<CachedBody | null>
+  put(body: CachedBody): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+}
+
+interface DataCacheOptions {
+  // Bytes of response text kept in memory
+  maxMemoryBytes?: number
+  // null keeps bodies in memory only
+  store?: PersistentStore | null
+}
+
+interface DataCacheStats {
+  entries: number
+  bytes: number
+  maxBytes: number
+  hits: number
+  misses: number
+  coalesced: number
+  revalidated: number
+  evictions: number
+}
+
+// A response read once and replayed to every caller that shares it
+interface BufferedResponse {
+  ok: boolean
+  status: number
+  statusText: string
+  body: CachedBody | null
+  // Body of a failed response
+  errorText: string
+  source: CacheSource
+}
+
+// A shared download and how many callers still wait for it
+interface InFlightLoad {
+  promise: Promise<BufferedResponse>
+  controller: AbortController
+  waiters: number
+}
+
+const DEFAULT_MEMORY_BUDGET_BYTES = 128 * 1024 * 1024
+
+const DB_NAME = "re-data-cache"
+const DB_VERSION = 1
+const STORE_NAME = "responses"
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length
+}
+
+function served(body: CachedBody, source: CacheSource): BufferedResponse {
+  return { ok: true, status: 200, statusText: "OK", body, errorText: "", source }
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export class IndexedDbStore implements PersistentStore {
+  private db: Promise<IDBDatabase> | null = null
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== "undefined"
+  }
+
+  async get(key: string): Promise<CachedBody | null> {
+    const store = await this.objectStore("readonly")
+    return (await requestResult<CachedBody | undefined>(store.get(key))) ?? null
+  }
+
+  async put(body: CachedBody): Promise<void> {
+    const store = await this.objectStore("readwrite")
+    await requestResult(store.put(body))
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.objectStore("readwrite")
+    await requestResult(store.delete(key))
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore("readwrite")
+    await requestResult(store.clear())
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open()
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: "key" })
+      this.db = requestResult(request)
+      // Let a failed open be retried
+      this.db.catch(() => (this.db = null))
+    }
+    return this.db
+  }
+}
+
+export class DataCache {
+  // Insertion order is recency order: hits are moved to the end, evictions take from the front
+  private memory = new Map<string, CachedBody>()
+  private memoryBytes = 0
+  private inFlight = new Map<string, InFlightLoad>()
+  private maxMemoryBytes: number
+  private store: PersistentStore | null
+  private stats = { hits: 0, misses: 0, coalesced: 0, revalidated: 0, evictions: 0 }
+
+  constructor(options: DataCacheOptions = {}) {
+    this.maxMemoryBytes = options.maxMemoryBytes ?? DEFAULT_MEMORY_BUDGET_BYTES
+    this.store = options.store ?? null
+  }
+
+  // Fetch through the cache. Only plain GETs are cached; anything else goes straight to the transport.
+  // A caller's abort signal only detaches that caller; the download is cancelled once no one waits for it
+  async fetch(transport: DataTransport, location: string, init?: RequestInit): Promise<TransportResponse> {
+    if ((init?.method && init.method !== "GET") || init?.headers) {
+      return transport.fetch(location, init)
+    }
+    const signal = init?.signal ?? undefined
+    throwIfAborted(signal)
+
+    const key = `${transport.name} ${location}`
+    const cached = this.memory.get(key)
+    if (cached) {
+      this.stats.hits++
+      this.memory.delete(key)
+      this.memory.set(key, cached)
+      return this.toResponse(served(cached, "memory"))
+    }
+
+    let load = this.inFlight.get(key)
+    if (load) {
+      this.stats.coalesced++
+    } else {
+      this.stats.misses++
+      load = this.startLoad(transport, key, location)
+    }
+
+    load.waiters++
+    try {
+      return this.toResponse(await whenNotAborted(load.promise, signal))
+    } finally {
+      load.waiters--
+      if (load.waiters === 0 && this.inFlight.get(key) === load) {
+        load.controller.abort()
+        this.inFlight.delete(key)
+      }
+    }
+  }
+
+  // Drop a file from memory and from the persistent store, e.g. after it was republished
+  async invalidate(transport: DataTransport, location: string): Promise<void> {
+    const key = `${transport.name} ${location}`
+    this.forget(key)
+    await this.store?.delete(key).catch((error) => console.warn(`⚠️ Could not drop cached ${location}:`, error))
+  }
+
+  // Empty the memory layer; persisted bodies stay for revalidation on the next request
+  clearMemory(): void {
+    this.memory.clear()
+    this.memoryBytes = 0
+  }
+
+  async clear(): Promise<void> {
+    this.clearMemory()
+    await this.store?.clear()
+  }
+
+  getStats(): DataCacheStats {
+    return { entries: this.memory.size, bytes: this.memoryBytes, maxBytes: this.maxMemoryBytes, ...this.stats }
+  }
+
+  private startLoad(transport: DataTransport, key: string, location: string): InFlightLoad {
+    const controller = new AbortController()
+    const promise = this.load(transport, key, location, controller.signal)
+    const load: InFlightLoad = { promise, controller, waiters: 0 }
+    this.inFlight.set(key, load)
+
+    const settle = () => {
+      if (this.inFlight.get(key) === load) this.inFlight.delete(key)
+    }
+    load.promise.then(settle, settle)
+    return load
+  }
+
+  private async load(
+    transport: DataTransport,
+    key: string,
+    location: string,
+    signal: AbortSignal,
+  ): Promise<BufferedResponse> {
+    const stored = await this.readStored(key)
+
+    // Revalidate a persisted body; conditional headers are only sent when there is one to check
+    const validators: Record<string, string> = {}
+    if (stored?.etag) validators["If-None-Match"] = stored.etag
+    if (stored?.lastModified) validators["If-Modified-Since"] = stored.lastModified
+    const hasValidators = Object.keys(validators).length > 0
+
+    let response: TransportResponse
+    try {
+      response = await transport.fetch(location, hasValidators ? { signal, headers: validators } : { signal })
+    } catch (error) {
+      if (!stored || isAbortError(error)) throw error
+      console.warn(`⚠️ Using cached ${location} without revalidation:`, error)
+      this.remember(stored)
+      return served(stored, "stale")
+    }
+
+    if (response.status === 304 && stored) {
+      this.stats.revalidated++
+      this.remember(stored)
+      return served(stored, "revalidated")
+    }
+
+    const text = await response.text()
+    if (!response.ok) {
+      if (stored && response.status === 404) await this.store?.delete(key).catch(() => undefined)
+      return {
+        ok: false,
+        status: response.status,
+        statusText: response.statusText,
+        body: null,
+        errorText: text,
+        source: "network",
+      }
+    }
+
+    const body: CachedBody = {
+      key,
+      text,
+      bytes: byteLength(text),
+      contentType: response.headers.get("content-type"),
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified"),
+      storedAt: new Date().toISOString(),
+    }
+    this.remember(body)
+    // Without validators a persisted body could never be checked, so it is not kept
+    if (body.etag || body.lastModified) {
+      this.store?.put(body).catch((error) => console.warn(`⚠️ Could not persist ${location}:`, error))
+    }
+    return served(body, "network")
+  }
+
+  private async readStored(key: string): Promise<CachedBody | null> {
+    if (!this.store) return null
+    try {
+      return await this.store.get(key)
+    } catch (error) {
+      console.warn("⚠️ Persistent data cache unavailable:", error)
+      return null
+    }
+  }
+
+  // Keep a body in memory, evicting the least recently used until it fits. Bodies larger than the
+  // whole budget are served but not kept
+  private remember(body: CachedBody): void {
+    this.forget(body.key)
+    if (body.bytes > this.maxMemoryBytes) return
+
+    for (const [key, entry] of this.memory) {
+      if (this.memoryBytes + body.bytes <= this.maxMemoryBytes) break
+      this.memory.delete(key)
+      this.memoryBytes -= entry.bytes
+      this.stats.evictions++
+    }
+    this.memory.set(body.key, body)
+    this.memoryBytes += body.bytes
+  }
+
+  private forget(key: string): void {
+    const existing = this.memory.get(key)
+    if (!existing) return
+    this.memory.delete(key)
+    this.memoryBytes -= existing.bytes
+  }
+
+  // Each caller gets its own response, so bodies can be read by every caller and parsed
+  // results are never shared between them
+  private toResponse(buffered: BufferedResponse): TransportResponse {
+    const { body } = buffered
+    const headers: Record<string, string> = { "x-data-cache": buffered.source }
+    if (body) {
+      headers["x-data-cache-stored-at"] = body.storedAt
+      headers["content-length"] = String(body.bytes)
+      if (body.contentType) headers["content-type"] = body.contentType
+      if (body.etag) headers["etag"] = body.etag
+      if (body.lastModified) headers["last-modified"] = body.lastModified
+    }
+    const text = body ? body.text : buffered.errorText
+
+    return {
+      ok: buffered.ok,
+      status: buffered.status,
+      statusText: buffered.statusText,
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+      text: async () => text,
+      json: async () => JSON.parse(text),
+    }
+  }
+}
+
+// A transport whose GETs go through a DataCache
+export class CachedTransport implements DataTransport {
+  constructor(
+    readonly inner: DataTransport,
+    private cache: DataCache,
+  ) {}
+
+  get name(): string {
+    return this.inner.name
+  }
+
+  get layout(): DataLayout {
+    return this.inner.layout
+  }
+
+  resolve(path: string): string {
+    return this.inner.resolve(path)
+  }
+
+  fetch(location: string, init?: RequestInit): Promise<TransportResponse> {
+    return this.cache.fetch(this.inner, location, init)
+  }
+}
+
+// Shared by DataService and the map loaders, so a file loaded by one is reused by the others. The map data
+// worker has its own instance over the same IndexedDB store
+export const dataCache = new DataCache({ store: IndexedDbStore.isAvailable() ? new IndexedDbStore() : null })
+
+const cachedTransports = new WeakMap<DataTransport, CachedTransport>()
+
+// The transport with its GETs going through the shared cache
+export function withCache(transport: DataTransport): DataTransport {
+  if (transport instanceof CachedTransport) return transport
+
+  let cached = cachedTransports.get(transport)
+  if (!cached) {
+    cached = new CachedTransport(transport, dataCache)
+    cachedTransports.set(transport, cached)
+  }
+  return cached
+}
+
+export type { CacheSource, CachedBody, DataCacheOptions, DataCacheStats, PersistentStore }
@@ -1,8 +1,40 @@
 import { resolveDataPath, resolveGeoJsonPath, getDataSourceForLevel, STATES } from "./file-path-resolver"
-
-export interface CensusData {
-  [key: string]: any
-}
+import { getDefaultTransport, type DataTransport } from "./data-transport"
+import { dataCache, withCache } from "./data-cache"
+import { fetchWithRetry, isAbortError, type LoadOptions } from "./fetch-policy"
+import {
+  mapWithConcurrency,
+  mergeFeatureCollections,
+  normalizeStateList,
+  settleStateLoad,
+  tagRows,
+  type MultiStateOptions,
+  type StateDataSource,
+  type StateLoadFailure,
+  type StateTagged,
+} from "./multi-state"
+import { filterRowsByPropertyType } from "./property-types"
+import { query, type RowQuery } from "./query"
+import { buildRedfinSeries, type RedfinMetric, type RedfinSeries, type SeriesOptions } from "./redfin-series"
+import { joinGeographies, summarizeJoin, type JoinOptions, type JoinResult } from "./join-engine"
+import { normalizeColumns, summarizeNormalization, type NormalizationReport } from "./column-normalizer"
+import { censusVintage, fredVintage, redfinVintage, type DatasetVintage } from "./vintage"
+import {
+  parseJsonPayload,
+  summarizeReport,
+  validateRows,
+  type RowOf,
+  type RowSchema,
+  type ValidationReport,
+} from "./schema"
+import {
+  censusSummarySchema,
+  fredCountySchema,
+  redfinRowSchema,
+  type CensusSummaryRow,
+  type FredCountyRow,
+  type RedfinRow,
+} from "./payload-schemas"
 
 export interface GeoJsonData {
   type: string
@@ -13,104 +45,301 @@ export interface GeoJsonData {
   }>
 }
 
+// Several states merged, each row and feature tagged with its state in source_state
+export interface MultiStateData {
+  states: string[]
+  level: string
+  // Null when no state's geometry was requested or loaded
+  geoJson: GeoJsonData | null
+  census: StateTagged<CensusSummaryRow>[]
+  fred: StateTagged<FredCountyRow>[]
+  redfin: StateTagged<RedfinRow>[]
+  // Files that did not load; the other states' data is still merged
+  failures: StateLoadFailure[]
+}
+
+// Rows parsed from one body of a cached file
+interface ParsedRows {
+  url: string
+  storedAt: string
+  rows: unknown[]
+}
+
 export class DataService {
-  private cache = new Map<string, any>()
+  // Cache key -> as-of date of the loaded dataset
+  private vintages = new Map<string, DatasetVintage>()
+  // Cache key -> schema check of the last load
+  private validations = new Map<string, ValidationReport>()
+  // Cache key -> alias renames, collisions and unmapped columns of the last load
+  private columnReports = new Map<string, NormalizationReport>()
+  // Cache key -> rows parsed from the file, reused while the data cache serves the same body
+  private parsedRows = new Map<string, ParsedRows>()
 
-  async loadCensusData(stateAbbrev: string, level: string): Promise<CensusData[]> {
-    const cacheKey = `census-${stateAbbrev}-${level}`
+  // Without an explicit transport, follow the default so setDefaultTransport() also reaches the singleton.
+  // Downloads go through the shared data cache, so concurrent loads of a file share one request
+  constructor(private explicitTransport?: DataTransport) {}
 
-    if (this.cache.has(cacheKey)) {
-      return this.cache.get(cacheKey)
-    }
+  private get transport(): DataTransport {
+    return withCache(this.explicitTransport ?? getDefaultTransport())
+  }
 
-    try {
-      const dataSource = getDataSourceForLevel(level)
-      const url = resolveDataPath(stateAbbrev, level, dataSource)
+  // Rows from the source getDataSourceForLevel picks for the level: FRED rows for counties, census summaries
+  // otherwise. Use loadCensusSummary for census rows at any level, counties included
+  async loadCensusData(
+    stateAbbrev: string,
+    level: string,
+    options: LoadOptions = {},
+  ): Promise<CensusSummaryRow[] | FredCountyRow[]> {
+    if (getDataSourceForLevel(level) === "fred") return this.loadFredData(stateAbbrev, options)
+    return this.loadCensusSummary(stateAbbrev, level, options)
+  }
 
-      const response = await fetch(url)
-      if (!response.ok) {
-        throw new Error(`Failed to load data: ${response.status}`)
-      }
+  async loadCensusSummary(stateAbbrev: string, level: string, options: LoadOptions = {}): Promise<CensusSummaryRow[]> {
+    const cacheKey = `census-${stateAbbrev}-${level}`
 
-      const data = await response.json()
-      this.cache.set(cacheKey, data)
-      return data
+    try {
+      const url = resolveDataPath(stateAbbrev, level, "census", this.transport)
+      const rows = await this.fetchRows(censusSummarySchema, url, cacheKey, "data", options)
+      this.recordVintage(censusVintage(cacheKey, `Census ${stateAbbrev} ${level}`, rows))
+      return rows
     } catch (error) {
-      console.error(`Error loading census data for ${stateAbbrev}-${level}:`, error)
+      if (!isAbortError(error)) console.error(`Error loading census data for ${stateAbbrev}-${level}:`, error)
       throw error
     }
   }
 
-  async loadGeoJsonData(stateAbbrev: string, level: string): Promise<GeoJsonData> {
-    const cacheKey = `geojson-${stateAbbrev}-${level}`
-
-    if (this.cache.has(cacheKey)) {
-      return this.cache.get(cacheKey)
-    }
-
+  async loadGeoJsonData(stateAbbrev: string, level: string, options: LoadOptions = {}): Promise<GeoJsonData> {
     try {
-      const url = resolveGeoJsonPath(stateAbbrev, level)
+      const url = resolveGeoJsonPath(stateAbbrev, level, this.transport)
 
-      const response = await fetch(url)
+      const response = await fetchWithRetry(this.transport, url, options)
       if (!response.ok) {
         throw new Error(`Failed to load GeoJSON: ${response.status}`)
       }
 
       const data = await response.json()
-      this.cache.set(cacheKey, data)
       return data
     } catch (error) {
-      console.error(`Error loading GeoJSON data for ${stateAbbrev}-${level}:`, error)
+      if (!isAbortError(error)) console.error(`Error loading GeoJSON data for ${stateAbbrev}-${level}:`, error)
       throw error
     }
   }
 
-  async loadFredData(stateAbbrev: string): Promise<any[]> {
+  async loadFredData(stateAbbrev: string, options: LoadOptions = {}): Promise<FredCountyRow[]> {
     const cacheKey = `fred-${stateAbbrev}`
 
-    if (this.cache.has(cacheKey)) {
-      return this.cache.get(cacheKey)
-    }
-
     try {
-      const url = resolveDataPath(stateAbbrev, "county", "fred")
+      const url = resolveDataPath(stateAbbrev, "county", "fred", this.transport)
+      const rows = await this.fetchRows(fredCountySchema, url, cacheKey, "FRED data", options)
+      this.recordVintage(fredVintage(cacheKey, `FRED ${stateAbbrev} counties`, rows))
+      return rows
+    } catch (error) {
+      if (!isAbortError(error)) console.error(`Error loading FRED data for ${stateAbbrev}:`, error)
+      throw error
+    }
+  }
 
-      const response = await fetch(url)
-      if (!response.ok) {
-        throw new Error(`Failed to load FRED data: ${response.status}`)
-      }
+  async loadRedfinData(stateAbbrev: string, level = "county", options: LoadOptions = {}): Promise<RedfinRow[]> {
+    const cacheKey = `redfin-${stateAbbrev}-${level}`
 
-      const data = await response.json()
-      this.cache.set(cacheKey, data)
-      return data
+    try {
+      const url = resolveDataPath(stateAbbrev, level, "redfin", this.transport)
+      const rows = await this.fetchRows(redfinRowSchema, url, cacheKey, "Redfin data", options)
+      this.recordVintage(redfinVintage(cacheKey, `Redfin ${stateAbbrev} ${level}`, rows))
+      return rows
     } catch (error) {
-      console.error(`Error loading FRED data for ${stateAbbrev}:`, error)
+      if (!isAbortError(error)) console.error(`Error loading Redfin data for ${stateAbbrev}-${level}:`, error)
       throw error
     }
   }
 
-  async loadRedfinData(stateAbbrev: string): Promise<any[]> {
-    const cacheKey = `redfin-${stateAbbrev}`
+  // Redfin rows of one table ID and property type, oldest period first
+  async loadRedfinRows(
+    stateAbbrev: string,
+    level: string,
+    tableId: number,
+    propertyTypeCode: string,
+    options: LoadOptions = {},
+  ): Promise<RedfinRow[]> {
+    const data = await this.loadRedfinData(stateAbbrev, level, options)
+    const rows = data.filter((row) => row.table_id === tableId)
+    return filterRowsByPropertyType(rows, [propertyTypeCode]).sort((a, b) => a.period_end.localeCompare(b.period_end))
+  }
 
-    if (this.cache.has(cacheKey)) {
-      return this.cache.get(cacheKey)
+  // Queries over a loaded file, see query.ts, e.g. NV ZIPs with a median income over 70K by cap rate:
+  //   const nv = await dataService.queryCensus("NV", "zip")
+  //   nv.where("income_median", ">", 70000).orderBy("investment_cap_rate").rows()
+  async queryCensus(
+    stateAbbrev: string,
+    level: string,
+    options: LoadOptions = {},
+  ): Promise<RowQuery<CensusSummaryRow>> {
+    return query(await this.loadCensusSummary(stateAbbrev, level, options))
+  }
+
+  async queryFred(stateAbbrev: string, options: LoadOptions = {}): Promise<RowQuery<FredCountyRow>> {
+    return query(await this.loadFredData(stateAbbrev, options))
+  }
+
+  async queryRedfin(stateAbbrev: string, level = "county", options: LoadOptions = {}): Promise<RowQuery<RedfinRow>> {
+    return query(await this.loadRedfinData(stateAbbrev, level, options))
+  }
+
+  // One record per geography of a state with its census summary, latest Redfin row and FRED county row,
+  // joined as Index/linking_relationships.csv declares. The report has unmatched keys and link cardinality
+  async joinSources(stateAbbrev: string, level: string, options: JoinOptions = {}): Promise<JoinResult> {
+    const result = await joinGeographies(
+      stateAbbrev,
+      level,
+      {
+        census: () => this.loadCensusSummary(stateAbbrev, level, options),
+        redfin: (redfinLevel) => this.loadRedfinData(stateAbbrev, redfinLevel, options),
+        fred: () => this.loadFredData(stateAbbrev, options),
+      },
+      this.transport,
+      options,
+    )
+    console.log(`🔗 ${summarizeJoin(result.report)}`)
+    return result
+  }
+
+  // Monthly series of one Redfin metric per table ID and property type, see redfin-series.ts, e.g. a county's
+  // median sale price since 2022: loadRedfinSeries("NV", "county", "median_sale_price", { tableIds, from })
+  async loadRedfinSeries(
+    stateAbbrev: string,
+    level: string,
+    metric: RedfinMetric,
+    options: SeriesOptions & LoadOptions = {},
+  ): Promise<RedfinSeries[]> {
+    const rows = await this.loadRedfinData(stateAbbrev, level, options)
+    return buildRedfinSeries(rows, metric, options)
+  }
+
+  // Load several states, e.g. NV and CA for Reno/Tahoe, with at most options.concurrency files in flight.
+  // Rows and features are merged in the order of the states given. FRED files are county-level, so
+  // "fred" loads them whatever the level
+  async loadStates(
+    stateAbbrevs: string[],
+    level: string,
+    sources: StateDataSource[] = ["census"],
+    options: MultiStateOptions = {},
+  ): Promise<MultiStateData> {
+    const states = normalizeStateList(stateAbbrevs)
+    const failures: StateLoadFailure[] = []
+    const tasks = states.flatMap((stateCode) => sources.map((source) => ({ stateCode, source })))
+
+    const loaded = await mapWithConcurrency(
+      tasks,
+      ({ stateCode, source }) =>
+        settleStateLoad(stateCode, source, () => this.loadStateSource(stateCode, level, source, options), failures),
+      options,
+    )
+
+    const resultsFor = <T>(source: StateDataSource) =>
+      tasks.flatMap((task, index) =>
+        task.source === source && loaded[index] ? [{ stateCode: task.stateCode, data: loaded[index] as T }] : [],
+      )
+
+    return {
+      states,
+      level,
+      geoJson: mergeFeatureCollections(
+        resultsFor<GeoJsonData>("geojson").map(({ stateCode, data }) => ({ stateCode, geoJson: data })),
+      ),
+      census: resultsFor<CensusSummaryRow[]>("census").flatMap(({ stateCode, data }) => tagRows(data, stateCode)),
+      fred: resultsFor<FredCountyRow[]>("fred").flatMap(({ stateCode, data }) => tagRows(data, stateCode)),
+      redfin: resultsFor<RedfinRow[]>("redfin").flatMap(({ stateCode, data }) => tagRows(data, stateCode)),
+      failures,
     }
+  }
 
-    try {
-      const url = resolveDataPath(stateAbbrev, "county", "redfin")
+  private loadStateSource(
+    stateAbbrev: string,
+    level: string,
+    source: StateDataSource,
+    options: LoadOptions,
+  ): Promise<GeoJsonData | CensusSummaryRow[] | FredCountyRow[] | RedfinRow[]> {
+    switch (source) {
+      case "geojson":
+        return this.loadGeoJsonData(stateAbbrev, level, options)
+      case "census":
+        return this.loadCensusSummary(stateAbbrev, level, options)
+      case "fred":
+        return this.loadFredData(stateAbbrev, options)
+      case "redfin":
+        return this.loadRedfinData(stateAbbrev, level, options)
+    }
+  }
 
-      const response = await fetch(url)
-      if (!response.ok) {
-        throw new Error(`Failed to load Redfin data: ${response.status}`)
-      }
+  // Download a data file, rename alias columns to their canonical names and check the rows against a
+  // schema. Rows with a missing or malformed identifying column are dropped; the report says which and why.
+  // Only the text goes through the data cache's revalidation: while it serves the same body, the rows parsed
+  // from it last time are returned again. Callers share those row objects, so they must not change them
+  private async fetchRows<R extends RowSchema>(
+    schema: R,
+    url: string,
+    cacheKey: string,
+    label: string,
+    options: LoadOptions,
+  ): Promise<RowOf<R>[]> {
+    const response = await fetchWithRetry(this.transport, url, options)
+    if (!response.ok) {
+      throw new Error(`Failed to load ${label}: ${response.status}`)
+    }
 
-      const data = await response.json()
-      this.cache.set(cacheKey, data)
-      return data
-    } catch (error) {
-      console.error(`Error loading Redfin data for ${stateAbbrev}:`, error)
-      throw error
+    const storedAt = response.headers.get("x-data-cache-stored-at")
+    const memo = this.parsedRows.get(cacheKey)
+    if (storedAt && memo?.url === url && memo.storedAt === storedAt) {
+      return [...(memo.rows as RowOf<R>[])]
+    }
+
+    const parsed = parseJsonPayload(await response.text(), url)
+    const { payload, report: columnReport } = normalizeColumns(schema, parsed, url)
+    this.columnReports.set(cacheKey, columnReport)
+    if (columnReport.collisions.length > 0 || columnReport.unmapped.length > 0) {
+      console.warn(`⚠️ ${summarizeNormalization(columnReport)}`)
+    } else if (Object.keys(columnReport.renamed).length > 0) {
+      console.log(`🔤 ${summarizeNormalization(columnReport)}`)
     }
+
+    const { rows, report } = validateRows(schema, payload, url)
+    this.validations.set(cacheKey, report)
+    if (report.issueCount > 0) console.warn(`⚠️ ${summarizeReport(report)}`)
+    if (storedAt) this.parsedRows.set(cacheKey, { url, storedAt, rows })
+    else this.parsedRows.delete(cacheKey)
+    return [...rows]
+  }
+
+  private recordVintage(vintage: DatasetVintage): void {
+    this.vintages.set(vintage.key, vintage)
+    console.log(`🗓️ ${vintage.label} as of ${vintage.asOf ?? "unknown"}`)
+  }
+
+  // As-of date of a loaded dataset, by its cache key (e.g. "census-NV-zip", "redfin-NV-county")
+  getVintage(cacheKey: string): DatasetVintage | null {
+    return this.vintages.get(cacheKey) || null
+  }
+
+  getVintages(): DatasetVintage[] {
+    return Array.from(this.vintages.values())
+  }
+
+  // Schema check of a loaded dataset, by the same cache keys as getVintage()
+  getValidationReport(cacheKey: string): ValidationReport | null {
+    return this.validations.get(cacheKey) || null
+  }
+
+  getValidationReports(): ValidationReport[] {
+    return Array.from(this.validations.values())
+  }
+
+  // Alias renames, collisions and unmapped columns of a loaded dataset, by the same cache keys
+  getColumnReport(cacheKey: string): NormalizationReport | null {
+    return this.columnReports.get(cacheKey) || null
+  }
+
+  getColumnReports(): NormalizationReport[] {
+    return Array.from(this.columnReports.values())
   }
 
   getAvailableStates(): string[] {
@@ -121,8 +350,13 @@ export class DataService {
     return STATES[stateAbbrev]
   }
 
+  // Empties the in-memory layer of the shared data cache; persisted files are revalidated on next use
   clearCache() {
-    this.cache.clear()
+    dataCache.clearMemory()
+    this.parsedRows.clear()
+    this.vintages.clear()
+    this.validations.clear()
+    this.columnReports.clear()
   }
 }
 
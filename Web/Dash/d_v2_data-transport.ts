@@ -0,0 +1,160 @@
+// data-transport.ts
+// Pluggable transport for data files: HTTP in the browser, the local filesystem in Node scripts and tests.
+// Loaders build paths in the repository layout ("NV/redfin_NV_county.json", "Index/csv/NV_zip_data.csv")
+// and let the transport turn them into something it can fetch
+
+// "repository" is this repo's folder structure (also served by GitHub raw);
+// "r2" is the Cloudflare bucket layout used by the opt loaders
+type DataLayout = "repository" | "r2"
+
+// The subset of the fetch Response that loaders rely on
+interface TransportResponse {
+  ok: boolean
+  status: number
+  statusText: string
+  headers: { get(name: string): string | null }
+  // Fetch responses only; read as it downloads, e.g. by the map data parser
+  body?: ReadableStream<Uint8Array> | null
+  text(): Promise<string>
+  json(): Promise<any>
+}
+
+interface DataTransport {
+  readonly name: string
+  readonly layout: DataLayout
+  // Turn a layout-relative path into a location for fetch(). Absolute URLs pass through and
+  // site-root paths ("/zip_master_index.csv") refer to the app's public folder
+  resolve(path: string): string
+  fetch(location: string, init?: RequestInit): Promise<TransportResponse>
+}
+
+interface FileSystemTransportOptions {
+  // Folder that site-root paths map to, relative to the root directory
+  publicDir?: string
+}
+
+const GITHUB_RAW_BASE_URL = "https://raw.githubusercontent.com/CommercialBotAl/re_data/main"
+const R2_BASE_URL = "https://pub-349a836622034df3a45c179d98e8328a.r2.dev"
+
+const CONTENT_TYPES: Record<string, string> = {
+  json: "application/json",
+  geojson: "application/json",
+  csv: "text/csv",
+  html: "text/html",
+}
+
+function isAbsoluteUrl(path: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(path)
+}
+
+function joinPath(base: string, path: string): string {
+  return `${base.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`
+}
+
+export class HttpTransport implements DataTransport {
+  constructor(
+    private baseUrl: string,
+    readonly layout: DataLayout = "repository",
+  ) {}
+
+  get name(): string {
+    return `http:${this.baseUrl}`
+  }
+
+  resolve(path: string): string {
+    if (isAbsoluteUrl(path) || path.startsWith("/")) return path
+    return joinPath(this.baseUrl, path)
+  }
+
+  fetch(location: string, init?: RequestInit): Promise<TransportResponse> {
+    return fetch(location, init)
+  }
+}
+
+export class FileSystemTransport implements DataTransport {
+  readonly layout: DataLayout = "repository"
+
+  constructor(
+    private rootDir: string,
+    private options: FileSystemTransportOptions = {},
+  ) {}
+
+  get name(): string {
+    return `file:${this.rootDir}`
+  }
+
+  resolve(path: string): string {
+    if (isAbsoluteUrl(path)) return path
+    if (path.startsWith("/")) return joinPath(joinPath(this.rootDir, this.options.publicDir || "public"), path)
+    return joinPath(this.rootDir, path)
+  }
+
+  async fetch(location: string, init?: RequestInit): Promise<TransportResponse> {
+    // Only local files can be read; a URL means the caller bypassed resolve()
+    if (isAbsoluteUrl(location)) {
+      return this.notFound(`Cannot fetch ${location} from the filesystem`)
+    }
+
+    // Keep bundlers from pulling Node built-ins into browser builds
+    const fs = await import(/* webpackIgnore: true */ "fs/promises")
+
+    let content: string
+    try {
+      // Node's readFile honours the same abort signal fetch() does
+      content = await fs.readFile(location, { encoding: "utf8", signal: init?.signal ?? undefined })
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException | null)?.code
+      if (code === "ENOENT" || code === "EISDIR") return this.notFound(location)
+      throw error
+    }
+
+    const extension = location.split(".").pop()?.toLowerCase() || ""
+    const headers: Record<string, string> = {
+      "content-type": CONTENT_TYPES[extension] || "text/plain",
+      "content-length": String(Buffer.byteLength(content)),
+    }
+    const body = init?.method === "HEAD" ? "" : content
+
+    return {
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+      text: async () => body,
+      json: async () => JSON.parse(body),
+    }
+  }
+
+  private notFound(message: string): TransportResponse {
+    return {
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      headers: { get: (name: string) => (name.toLowerCase() === "content-type" ? "text/plain" : null) },
+      text: async () => message,
+      json: async () => {
+        throw new Error(message)
+      },
+    }
+  }
+}
+
+// Repository data on GitHub raw - the default for the dashboard and map pages
+export const githubTransport = new HttpTransport(GITHUB_RAW_BASE_URL)
+
+// Cloudflare R2 bucket - the default for the opt loaders
+export const r2Transport = new HttpTransport(R2_BASE_URL, "r2")
+
+let defaultTransport: DataTransport = githubTransport
+
+export function getDefaultTransport(): DataTransport {
+  return defaultTransport
+}
+
+// Point every loader that was not given an explicit transport at a different source,
+// e.g. setDefaultTransport(new FileSystemTransport(process.cwd())) in a Node script
+export function setDefaultTransport(transport: DataTransport): void {
+  defaultTransport = transport
+}
+
+export type { DataLayout, DataTransport, FileSystemTransportOptions, TransportResponse }
@@ -3,13 +3,14 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Bar, BarChart, Pie, PieChart, Cell, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip } from "recharts"
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import type { CensusSummaryRow } from "@/lib/payload-schemas"
 
 // More muted colors for race distribution
 const MUTED_COLORS = ["#64748b", "#94a3b8", "#cbd5e1", "#e2e8f0", "#f1f5f9", "#f8fafc"]
 
 interface DemographicsSectionProps {
-  data: any
-  allData: any[]
+  data: CensusSummaryRow
+  allData: CensusSummaryRow[]
 }
 
 export default function DemographicsSection({ data, allData }: DemographicsSectionProps) {
@@ -43,9 +44,9 @@ export default function DemographicsSection({ data, allData }: DemographicsSecti
 
   // Population comparison across areas
   const populationComparison = allData.map((item) => ({
-    area: item.zip || item.county_name || item.tract_id || "Unknown",
+    area: item.zip || item.county_name || item.area_name || "Unknown",
     population: item.population_total || 0,
-    city: item.preferred_city || item.city || "",
+    city: item.preferred_city || "",
   }))
 
   return (
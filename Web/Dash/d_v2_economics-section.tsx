@@ -5,8 +5,15 @@ import { Bar, BarChart, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
 import { Badge } from "@/components/ui/badge"
 import { TrendingUp, DollarSign, Users, GraduationCap } from "lucide-react"
+import type { CensusSummaryRow } from "@/lib/payload-schemas"
+import { query } from "@/lib/query"
+
+export default function EconomicsSection({ data, allData }: { data: CensusSummaryRow; allData: CensusSummaryRow[] }) {
+  // Rates missing from the row rank as 0
+  const unemploymentRate = data.employment_unemployment_rate ?? 0
+  const povertyRate = data.poverty_rate ?? 0
+  const higherEducationPct = data.education_higher_education_pct ?? 0
 
-export default function EconomicsSection({ data, allData }: { data: any; allData: any[] }) {
   // Economic metrics for current area
   const economicMetrics = [
     {
@@ -21,29 +28,23 @@ export default function EconomicsSection({ data, allData }: { data: any; allData
       metric: "Unemployment Rate",
       value: data.employment_unemployment_rate,
       format: "percent",
-      description:
-        data.employment_unemployment_rate > 8 ? "High" : data.employment_unemployment_rate > 5 ? "Moderate" : "Low",
+      description: unemploymentRate > 8 ? "High" : unemploymentRate > 5 ? "Moderate" : "Low",
       icon: Users,
-      color: data.employment_unemployment_rate > 8 ? "text-red-600" : "text-blue-600",
+      color: unemploymentRate > 8 ? "text-red-600" : "text-blue-600",
     },
     {
       metric: "Poverty Rate",
       value: data.poverty_rate,
       format: "percent",
-      description: data.poverty_rate > 20 ? "High" : data.poverty_rate > 10 ? "Moderate" : "Low",
+      description: povertyRate > 20 ? "High" : povertyRate > 10 ? "Moderate" : "Low",
       icon: TrendingUp,
-      color: data.poverty_rate > 20 ? "text-red-600" : "text-yellow-600",
+      color: povertyRate > 20 ? "text-red-600" : "text-yellow-600",
     },
     {
       metric: "Higher Education",
       value: data.education_higher_education_pct,
       format: "percent",
-      description:
-        data.education_higher_education_pct > 40
-          ? "High"
-          : data.education_higher_education_pct > 25
-            ? "Moderate"
-            : "Low",
+      description: higherEducationPct > 40 ? "High" : higherEducationPct > 25 ? "Moderate" : "Low",
       icon: GraduationCap,
       color: "text-purple-600",
     },
@@ -58,7 +59,11 @@ export default function EconomicsSection({ data, allData }: { data: any; allData
     education: item.education_higher_education_pct,
   }))
 
-  const formatNumber = (value: number, format: string) => {
+  // Rank by median income among the loaded areas; areas without one rank last
+  const byIncome = query(allData).orderBy("income_median", "desc").rows()
+  const incomeRank = byIncome.findIndex((item) => item.zip === data.zip) + 1
+
+  const formatNumber = (value: number | null, format: string) => {
     switch (format) {
       case "currency":
         return formatCurrency(value)
@@ -69,7 +74,8 @@ export default function EconomicsSection({ data, allData }: { data: any; allData
     }
   }
 
-  const formatCurrency = (value: number) => {
+  const formatCurrency = (value: number | null) => {
+    if (value === null) return "N/A"
     if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`
     if (value >= 1000) return `$${(value / 1000).toFixed(0)}K`
     return `$${value?.toLocaleString()}`
@@ -179,14 +185,14 @@ export default function EconomicsSection({ data, allData }: { data: any; allData
             <div className="space-y-2">
               <h4 className="font-semibold">Employment</h4>
               <p className="text-sm text-muted-foreground">
-                {data.employment_unemployment_rate > 8 ? "High Unemployment" : "Stable Employment"}
+                {unemploymentRate > 8 ? "High Unemployment" : "Stable Employment"}
               </p>
               <p className="text-lg font-bold">{data.employment_unemployment_rate?.toFixed(1)}% Unemployed</p>
             </div>
             <div className="space-y-2">
               <h4 className="font-semibold">Education</h4>
               <p className="text-sm text-muted-foreground">
-                {data.education_higher_education_pct > 40 ? "Highly Educated" : "Moderate Education"}
+                {higherEducationPct > 40 ? "Highly Educated" : "Moderate Education"}
               </p>
               <p className="text-lg font-bold">{data.education_higher_education_pct?.toFixed(1)}% Higher Ed</p>
             </div>
@@ -194,10 +200,7 @@ export default function EconomicsSection({ data, allData }: { data: any; allData
               <h4 className="font-semibold">Economic Rank</h4>
               <p className="text-sm text-muted-foreground">By Income</p>
               <p className="text-lg font-bold">
-                #
-                {allData.sort((a, b) => b.income_median - a.income_median).findIndex((item) => item.zip === data.zip) +
-                  1}{" "}
-                of {allData.length}
+                #{incomeRank} of {allData.length}
               </p>
             </div>
           </div>
@@ -0,0 +1,153 @@
+// fetch-policy.ts
+// Timeouts, retries with exponential backoff and cancellation for data file requests.
+// Loaders take LoadOptions and fetch through fetchWithRetry; pages pass the signal of the
+// selection they are loading for and abort it when the selection changes
+
+import type { DataTransport, TransportResponse } from "./data-transport"
+
+interface LoadOptions {
+  // Cancels the load; superseded loads reject with an AbortError
+  signal?: AbortSignal
+  // Per attempt, in milliseconds; 0 waits indefinitely
+  timeoutMs?: number
+  // Further attempts after a transient failure
+  retries?: number
+  // Backoff before the first retry, doubled for each one after
+  retryDelayMs?: number
+}
+
+const DEFAULT_LOAD_OPTIONS: Required<Omit<LoadOptions, "signal">> = {
+  timeoutMs: 30000,
+  retries: 2,
+  retryDelayMs: 500,
+}
+
+// Rate limiting, timeouts and server errors that tend to clear up on their own
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504])
+
+// Longest Retry-After honoured, so a misconfigured server cannot stall a page
+const MAX_RETRY_AFTER_MS = 30000
+
+export function abortError(): Error {
+  return typeof DOMException !== "undefined"
+    ? new DOMException("The load was cancelled", "AbortError")
+    : Object.assign(new Error("The load was cancelled"), { name: "AbortError" })
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === "AbortError"
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortError()
+}
+
+export function isTransientStatus(status: number): boolean {
+  return TRANSIENT_STATUSES.has(status)
+}
+
+// Settle with `promise`, or reject with an AbortError as soon as `signal` aborts
+export function whenNotAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  throwIfAborted(signal)
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError())
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort)
+        resolve(value)
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort)
+        reject(error)
+      },
+    )
+  })
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return whenNotAborted(new Promise<void>((resolve) => setTimeout(resolve, ms)), signal)
+}
+
+// Seconds or an HTTP date
+function retryAfterMs(response: TransportResponse): number | undefined {
+  const value = response.headers.get("retry-after")
+  if (!value) return undefined
+  const seconds = Number(value)
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now()
+  return Number.isFinite(ms) && ms > 0 ? Math.min(ms, MAX_RETRY_AFTER_MS) : undefined
+}
+
+// One attempt, aborted by the caller's signal or by the timeout. A timeout is reported as an
+// ordinary error so it is retried; the caller's abort stays an AbortError
+async function attempt(
+  transport: DataTransport,
+  location: string,
+  signal: AbortSignal | undefined,
+  timeoutMs: number,
+): Promise<TransportResponse> {
+  const controller = new AbortController()
+  const onAbort = () => controller.abort()
+  signal?.addEventListener("abort", onAbort, { once: true })
+
+  let timedOut = false
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, timeoutMs)
+      : undefined
+
+  try {
+    return await whenNotAborted(transport.fetch(location, { signal: controller.signal }), controller.signal)
+  } catch (error) {
+    if (timedOut) throw new Error(`Timed out after ${timeoutMs}ms loading ${location}`)
+    throw error
+  } finally {
+    if (timer) clearTimeout(timer)
+    signal?.removeEventListener("abort", onAbort)
+  }
+}
+
+// Fetch with a timeout per attempt, retrying network errors, timeouts and transient HTTP statuses
+// with exponential backoff. Other responses, including 404s, are returned as they are, and so is
+// the last transient response once the retries run out
+export async function fetchWithRetry(
+  transport: DataTransport,
+  location: string,
+  options: LoadOptions = {},
+): Promise<TransportResponse> {
+  const { signal } = options
+  const { timeoutMs, retries, retryDelayMs } = { ...DEFAULT_LOAD_OPTIONS, ...withoutUndefined(options) }
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    throwIfAborted(signal)
+    const backoff = retryDelayMs * 2 ** attemptNumber
+    const canRetry = attemptNumber < retries
+
+    let response: TransportResponse
+    try {
+      response = await attempt(transport, location, signal, timeoutMs)
+    } catch (error) {
+      if (isAbortError(error) || !canRetry) throw error
+      console.warn(`⚠️ Retrying ${location} in ${backoff}ms:`, error instanceof Error ? error.message : error)
+      await sleep(backoff, signal)
+      continue
+    }
+
+    if (!isTransientStatus(response.status) || !canRetry) return response
+
+    const delay = retryAfterMs(response) ?? backoff
+    console.warn(`⚠️ Retrying ${location} in ${delay}ms after HTTP ${response.status}`)
+    await sleep(delay, signal)
+  }
+}
+
+function withoutUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>
+}
+
+export type { LoadOptions }
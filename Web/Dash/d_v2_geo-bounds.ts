@@ -0,0 +1,152 @@
+// geo-bounds.ts
+// Bounding boxes and land-area weighted centroids for unified locations, from member ZIP points or GeoJSON geometry
+
+// [[south, west], [north, east]] - the corner order Leaflet's fitBounds takes
+type BoundingBox = [[number, number], [number, number]]
+
+interface WeightedPoint {
+  lat: number
+  lon: number
+  weight: number // Land area (ALAND) in square meters
+}
+
+interface PointPlacement {
+  coordinates?: [number, number]
+  bounds?: BoundingBox
+}
+
+const METERS_PER_DEGREE_LAT = 111320
+
+// [0, 0] is the "unknown" placeholder used by the unified lookup
+export function isKnownPoint(lat: number, lon: number): boolean {
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return false
+  if (lat === 0 && lon === 0) return false
+  return Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+}
+
+export function mergeBounds(a: BoundingBox | undefined, b: BoundingBox | undefined): BoundingBox | undefined {
+  if (!a) return b
+  if (!b) return a
+  return [
+    [Math.min(a[0][0], b[0][0]), Math.min(a[0][1], b[0][1])],
+    [Math.max(a[1][0], b[1][0]), Math.max(a[1][1], b[1][1])],
+  ]
+}
+
+export function boundsCenter(bounds: BoundingBox): [number, number] {
+  return [(bounds[0][0] + bounds[1][0]) / 2, (bounds[0][1] + bounds[1][1]) / 2]
+}
+
+// Centroid of internal points weighted by land area. Points without an area count equally
+// when none of them has one, and are left out otherwise
+export function weightedCentroid(points: WeightedPoint[]): [number, number] | undefined {
+  const known = points.filter((point) => isKnownPoint(point.lat, point.lon))
+  if (known.length === 0) return undefined
+
+  const totalWeight = known.reduce((sum, point) => sum + (point.weight > 0 ? point.weight : 0), 0)
+  const weightOf = (point: WeightedPoint) => (totalWeight > 0 ? (point.weight > 0 ? point.weight : 0) : 1)
+  const total = totalWeight > 0 ? totalWeight : known.length
+
+  let lat = 0
+  let lon = 0
+  known.forEach((point) => {
+    lat += point.lat * weightOf(point)
+    lon += point.lon * weightOf(point)
+  })
+  return [lat / total, lon / total]
+}
+
+// Internal points only say where an area is, not how far it reaches, so each point is widened
+// to a square of its land area before the box is taken
+export function boundsOfPoints(points: WeightedPoint[]): BoundingBox | undefined {
+  let bounds: BoundingBox | undefined
+  points.forEach((point) => {
+    if (!isKnownPoint(point.lat, point.lon)) return
+    const halfSideMeters = point.weight > 0 ? Math.sqrt(point.weight) / 2 : 0
+    const dLat = halfSideMeters / METERS_PER_DEGREE_LAT
+    const dLon = halfSideMeters / (METERS_PER_DEGREE_LAT * Math.max(Math.cos((point.lat * Math.PI) / 180), 0.01))
+    bounds = mergeBounds(bounds, [
+      [point.lat - dLat, point.lon - dLon],
+      [point.lat + dLat, point.lon + dLon],
+    ])
+  })
+  return bounds
+}
+
+export function placePoints(points: WeightedPoint[]): PointPlacement {
+  return { coordinates: weightedCentroid(points), bounds: boundsOfPoints(points) }
+}
+
+// GeoJSON positions are [lon, lat]; walk any nesting depth
+function collectBounds(coordinates: any, bounds?: BoundingBox): BoundingBox | undefined {
+  if (!Array.isArray(coordinates)) return bounds
+  if (typeof coordinates[0] === "number") {
+    const [lon, lat] = coordinates
+    return isKnownPoint(lat, lon) ? mergeBounds(bounds, [[lat, lon], [lat, lon]]) : bounds
+  }
+  return coordinates.reduce((merged: BoundingBox | undefined, child: any) => collectBounds(child, merged), bounds)
+}
+
+export function geometryBounds(geometry: any): BoundingBox | undefined {
+  if (!geometry) return undefined
+  if (geometry.type === "GeometryCollection") {
+    return (geometry.geometries || []).reduce(
+      (merged: BoundingBox | undefined, child: any) => mergeBounds(merged, geometryBounds(child)),
+      undefined,
+    )
+  }
+  return collectBounds(geometry.coordinates)
+}
+
+export function featureBounds(features: any[]): BoundingBox | undefined {
+  return features.reduce(
+    (merged: BoundingBox | undefined, feature: any) => mergeBounds(merged, geometryBounds(feature?.geometry)),
+    undefined,
+  )
+}
+
+// Area and centroid of one ring in planar lon/lat - close enough for placing a label or a marker
+function ringCentroid(ring: number[][]): { area: number; lat: number; lon: number } | undefined {
+  let twiceArea = 0
+  let cx = 0
+  let cy = 0
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x0, y0] = ring[i]
+    const [x1, y1] = ring[i + 1]
+    const cross = x0 * y1 - x1 * y0
+    twiceArea += cross
+    cx += (x0 + x1) * cross
+    cy += (y0 + y1) * cross
+  }
+  if (twiceArea === 0) return undefined
+  return { area: Math.abs(twiceArea / 2), lon: cx / (3 * twiceArea), lat: cy / (3 * twiceArea) }
+}
+
+// Area-weighted centroid of a Polygon or MultiPolygon; holes subtract their area. Other geometry
+// types fall back to the middle of their bounding box
+export function geometryCentroid(geometry: any): [number, number] | undefined {
+  if (!geometry) return undefined
+
+  const polygons: number[][][][] =
+    geometry.type === "Polygon" ? [geometry.coordinates] : geometry.type === "MultiPolygon" ? geometry.coordinates : []
+
+  let totalArea = 0
+  let lat = 0
+  let lon = 0
+  polygons.forEach((rings) => {
+    rings.forEach((ring, index) => {
+      const centroid = ringCentroid(ring)
+      if (!centroid) return
+      const area = index === 0 ? centroid.area : -centroid.area
+      totalArea += area
+      lat += centroid.lat * area
+      lon += centroid.lon * area
+    })
+  })
+
+  if (totalArea > 0) return [lat / totalArea, lon / totalArea]
+  const bounds = geometryBounds(geometry)
+  return bounds ? boundsCenter(bounds) : undefined
+}
+
+export type { BoundingBox, PointPlacement, WeightedPoint }
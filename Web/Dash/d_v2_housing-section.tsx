@@ -4,10 +4,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Bar, BarChart, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from "recharts"
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
 import { Badge } from "@/components/ui/badge"
+import type { CensusSummaryRow } from "@/lib/payload-schemas"
 
 interface HousingSectionProps {
-  data: any
-  allData: any[]
+  data: CensusSummaryRow
+  allData: CensusSummaryRow[]
 }
 
 export default function HousingSection({ data, allData }: HousingSectionProps) {
@@ -117,7 +118,7 @@ export default function HousingSection({ data, allData }: HousingSectionProps) {
     { type: "4+ Bedroom", rent: data.rental_4br || 2063, value: data.rental_4br || 2063 },
   ].filter((item) => item.value > 0)
 
-  const formatCurrency = (value: number) => {
+  const formatCurrency = (value: number | null) => {
     if (!value) return "N/A"
     if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`
     if (value >= 1000) return `$${(value / 1000).toFixed(0)}K`
@@ -136,12 +137,12 @@ export default function HousingSection({ data, allData }: HousingSectionProps) {
             <div className="space-y-2">
               <h4 className="font-semibold">Market Level</h4>
               <p className="text-sm text-muted-foreground">{data.home_value_description || "N/A"}</p>
-              <p className="text-lg font-bold">{formatCurrency(data.housing_median_value || data.median_home_value)}</p>
+              <p className="text-lg font-bold">{formatCurrency(data.housing_median_value)}</p>
             </div>
             <div className="space-y-2">
               <h4 className="font-semibold">Rental Market</h4>
               <p className="text-sm text-muted-foreground">{data.rent_level || "N/A"}</p>
-              <p className="text-lg font-bold">{formatCurrency(data.rental_median_rent || data.median_rent)}</p>
+              <p className="text-lg font-bold">{formatCurrency(data.rental_median_rent)}</p>
             </div>
             <div className="space-y-2">
               <h4 className="font-semibold">Primary Housing Type</h4>
@@ -281,7 +282,7 @@ export default function HousingSection({ data, allData }: HousingSectionProps) {
         <Card>
           <CardContent className="p-4 text-center">
             <div className="text-2xl font-bold text-green-600">
-              {formatCurrency(data.housing_median_value || data.median_home_value)}
+              {formatCurrency(data.housing_median_value)}
             </div>
             <div className="text-sm text-muted-foreground">Median Home Value</div>
             <Badge variant="outline" className="mt-2">
@@ -293,7 +294,7 @@ export default function HousingSection({ data, allData }: HousingSectionProps) {
         <Card>
           <CardContent className="p-4 text-center">
             <div className="text-2xl font-bold text-blue-600">
-              {formatCurrency(data.rental_median_rent || data.median_rent)}
+              {formatCurrency(data.rental_median_rent)}
             </div>
             <div className="text-sm text-muted-foreground">Median Rent</div>
             <Badge variant="outline" className="mt-2">
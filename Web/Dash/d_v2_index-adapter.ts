@@ -0,0 +1,513 @@
+// index-adapter.ts
+// Builds the unified hierarchy inputs from the repository's Index CSVs: county_data_index.csv,
+// zip_data_index.csv and tract_data_index.csv for the whole country, enriched with the
+// per-state Index/csv/{ST}_county_data.csv and {ST}_zip_data.csv files INDEX_DETAIL_FILES lists
+
+import Papa from "papaparse"
+import { INDEX_DETAIL_FILES, indexDetailFileName, resolveIndexPath } from "./file-path-resolver"
+import { getDefaultTransport, type DataTransport } from "./data-transport"
+import { fetchWithRetry, isAbortError, type LoadOptions } from "./fetch-policy"
+import { REDFIN_PROPERTY_TYPES } from "./property-types"
+import type { RedfInMasterIndex, SourceFailure, ZipMasterRecord } from "./unified-data-service"
+
+type CsvRow = Record<string, string>
+type PropertyTypes = RedfInMasterIndex["states"][string]["property_types"]
+
+interface IndexAdapterOptions extends LoadOptions {
+  // States whose detail files are loaded for coordinates, ZIP -> county links and city table IDs;
+  // every state in INDEX_DETAIL_FILES by default
+  detailStates?: string[]
+  transport?: DataTransport
+}
+
+interface TractIndexSummary {
+  stateCode: string
+  stateName: string
+  stateFips: string
+  totalTracts: number
+  tractsWithGeometry: number
+  tractsWithRedfin: number
+  csvFile: string
+  geojsonFile: string
+}
+
+// A county's coverage flags in county_data_index.csv
+interface CountyIndexFlags {
+  fips: string
+  name: string
+  stateCode: string
+  hasCensus: boolean
+  hasRedfin: boolean
+  hasGeometry: boolean
+}
+
+// What the Index files themselves claim is covered, to check the built lookup against
+interface CoverageIndex {
+  counties: CountyIndexFlags[]
+  tracts: TractIndexSummary[]
+  // Distinct tract GEOIDs per state from Index/csv/{ST}_tract_data.csv, for states that have one
+  tractGeoids: Record<string, string[]>
+}
+
+interface IndexAdapterResult {
+  redfinIndex: RedfInMasterIndex
+  zipMasterData: ZipMasterRecord[]
+  tractSummaries: TractIndexSummary[]
+  // States whose detail files were found and merged
+  detailStates: string[]
+  // Rows loaded per Index file
+  recordCounts: Record<string, number>
+  // Optional files that exist but could not be loaded
+  failures: SourceFailure[]
+}
+
+interface CountyEntry {
+  fips: string
+  name: string
+  stateCode: string
+  tableId?: number
+  metroCode?: string
+  metroName?: string
+  internalPoint?: [number, number]
+  landArea?: number
+  zips: string[]
+  cities: Set<string>
+}
+
+function parseBoolean(value?: string): boolean {
+  return value === "True" || value === "true" || value === "1"
+}
+
+// Handles "1865.0" and signed coordinates like "+36.1727881"
+function parseNumber(value?: string): number | undefined {
+  if (value === undefined || value === null || value.trim() === "") return undefined
+  const parsed = Number.parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function parseTableId(value?: string): number | undefined {
+  const parsed = parseNumber(value)
+  return parsed === undefined ? undefined : Math.round(parsed)
+}
+
+function padCode(value: string | undefined, width: number): string {
+  const code = (value || "").trim().replace(/\.0+$/, "")
+  return code ? code.padStart(width, "0") : ""
+}
+
+// A region's table_id is shared by all of its Redfin property types
+function propertyTypesFor(tableId?: number): PropertyTypes {
+  if (tableId === undefined) return {}
+
+  const types: PropertyTypes = {}
+  Object.entries(REDFIN_PROPERTY_TYPES).forEach(([code, name]) => {
+    types[code] = { name, table_id: String(tableId) }
+  })
+  return types
+}
+
+// "Henderson, NV" -> "Henderson"
+function stripStateSuffix(name?: string): string {
+  return (name || "").replace(/,\s*[A-Z]{2}$/i, "").trim()
+}
+
+// Census and some index city names are upper case ("NORTH LAS VEGAS")
+function titleCase(name: string): string {
+  if (name !== name.toUpperCase()) return name
+  return name.toLowerCase().replace(/\b[a-z]/g, (letter) => letter.toUpperCase())
+}
+
+function toTractSummary(row: CsvRow): TractIndexSummary {
+  return {
+    stateCode: row.state_code,
+    stateName: row.state_name,
+    stateFips: padCode(row.state_fips, 2),
+    totalTracts: parseNumber(row.total_tracts) ?? 0,
+    tractsWithGeometry: parseNumber(row.tracts_with_geometry) ?? 0,
+    tractsWithRedfin: parseNumber(row.tracts_with_redfin) ?? 0,
+    csvFile: row.csv_file,
+    geojsonFile: row.geojson_file,
+  }
+}
+
+// county_data_index.csv only carries the bare name ("Clark"), so rebuild the legal name
+function countyDisplayName(name: string, stateCode: string, fips: string): string {
+  if (!name) return `County ${fips}`
+  if (/(county|parish|borough|census area|municipality|city)$/i.test(name)) return name
+  // County codes from 510 up are independent cities, e.g. Baltimore city next to Baltimore County
+  if (Number(fips.slice(2)) >= 510) return `${name} city`
+  if (stateCode === "LA") return `${name} Parish`
+  if (stateCode === "AK") return name
+  return `${name} County`
+}
+
+export class IndexAdapter {
+  // Load the Index CSVs and shape them like redfin_master_index.json / zip_master_index.csv
+  async load(options: IndexAdapterOptions = {}): Promise<IndexAdapterResult> {
+    const transport = options.transport ?? getDefaultTransport()
+
+    console.log("🔄 Loading repository Index CSVs...")
+
+    const recordCounts: Record<string, number> = {}
+    const failures: SourceFailure[] = []
+
+    // County and ZIP indexes are required. The tract index and the listed detail files are expected,
+    // so their absence is reported
+    const loadCsv = async (fileName: string, presence: "required" | "expected"): Promise<CsvRow[]> => {
+      const source = `Index/${fileName}`
+      try {
+        const rows = await this.fetchCsv(fileName, transport, options)
+        if (rows) {
+          recordCounts[source] = rows.length
+          return rows
+        }
+        if (presence === "required") throw new Error(`${source} not found`)
+        failures.push({ source, reason: "Not found" })
+        return []
+      } catch (error) {
+        if (presence === "required" || isAbortError(error)) throw error
+        console.warn(`⚠️ Could not load ${source}:`, error)
+        failures.push({ source, reason: error instanceof Error ? error.message : String(error) })
+        return []
+      }
+    }
+
+    const [countyRows, zipRows, tractRows] = await Promise.all([
+      loadCsv("county_data_index.csv", "required"),
+      loadCsv("zip_data_index.csv", "required"),
+      loadCsv("tract_data_index.csv", "expected"),
+    ])
+
+    // Only the detail files INDEX_DETAIL_FILES lists are requested
+    const requestedStates = options.detailStates || Object.keys(INDEX_DETAIL_FILES)
+    const details = await Promise.all(
+      requestedStates.map(async (stateCode) => {
+        const levels = INDEX_DETAIL_FILES[stateCode] || []
+        const loadDetail = (level: "county" | "zip") =>
+          levels.includes(level) ? loadCsv(`csv/${indexDetailFileName(stateCode, level)}`, "expected") : []
+        const [counties, zips] = await Promise.all([loadDetail("county"), loadDetail("zip")])
+        if (levels.length === 0) console.log(`⚠️ No Index/csv detail files for ${stateCode}`)
+        return { stateCode, counties, zips }
+      }),
+    )
+
+    // States, from the county index and the tract index
+    const stateNames = new Map<string, string>()
+    const stateFips = new Map<string, string>()
+    const registerState = (stateCode?: string, stateName?: string, fips?: string) => {
+      if (!stateCode || !stateName) return
+      stateNames.set(stateCode, stateName)
+      if (fips) stateFips.set(stateCode, padCode(fips, 2))
+    }
+    countyRows.forEach((row) => registerState(row.state_code, row.state_name, row.state_fips))
+    tractRows.forEach((row) => registerState(row.state_code, row.state_name, row.state_fips))
+
+    // Counties by 5-digit FIPS
+    const counties = new Map<string, CountyEntry>()
+    countyRows.forEach((row) => {
+      const fips = padCode(row.county_fips, 5)
+      counties.set(fips, {
+        fips,
+        name: countyDisplayName(row.county_name, row.state_code, fips),
+        stateCode: row.state_code,
+        zips: [],
+        cities: new Set(),
+      })
+    })
+
+    // ZIP records from the national index
+    const zipRecords = new Map<string, ZipMasterRecord>()
+    zipRows.forEach((row) => {
+      const zipcode = padCode(row.zipcode, 5)
+      zipRecords.set(zipcode, {
+        zipcode,
+        state_code: row.state_code,
+        state_name: row.state_name,
+        data_source: "zip_data_index",
+        // The national index lists a data file for every ZIP with census data
+        has_census_data: Boolean(row.data_file),
+        has_redfin_data: parseTableId(row.redfin_tableid_zip) !== undefined,
+        has_geometry: parseBoolean(row.has_geometry),
+        geojson_file: row.geojson_file,
+        data_file: row.data_file,
+        redfin_tableid_zip: parseTableId(row.redfin_tableid_zip),
+        redfin_city: row.city_name || undefined,
+        STATE_FIPS: stateFips.get(row.state_code),
+        INTPTLAT: 0,
+        INTPTLON: 0,
+        ALAND: 0,
+        AWATER: 0,
+      })
+    })
+
+    // Detail files add coordinates, land area, county links and county/city table IDs
+    const cityTableIds = new Map<string, number>()
+    const loadedDetailStates: string[] = []
+
+    details.forEach(({ stateCode, counties: countyDetails, zips: zipDetails }) => {
+      if (countyDetails.length === 0 && zipDetails.length === 0) return
+      loadedDetailStates.push(stateCode)
+
+      countyDetails.forEach((row) => {
+        const fips = padCode(row.GEOID, 5)
+        const county = counties.get(fips)
+        const name = row.NAMELSAD || county?.name || countyDisplayName(row.NAME, stateCode, fips)
+        // Nonmetropolitan areas have a name but no metro code
+        const metroCode = padCode(row.parent_metro_region_metro_code, 5)
+        const metro = metroCode ? { metroCode, metroName: row.parent_metro_region } : {}
+        const lat = parseNumber(row.INTPTLAT)
+        const lon = parseNumber(row.INTPTLON)
+        const place = {
+          internalPoint: lat !== undefined && lon !== undefined ? ([lat, lon] as [number, number]) : undefined,
+          landArea: parseNumber(row.ALAND),
+        }
+
+        if (county) {
+          county.name = name
+          county.tableId = parseTableId(row.table_id)
+          Object.assign(county, metro, place)
+        } else {
+          counties.set(fips, {
+            fips,
+            name,
+            stateCode,
+            tableId: parseTableId(row.table_id),
+            ...metro,
+            ...place,
+            zips: [],
+            cities: new Set(),
+          })
+        }
+      })
+
+      zipDetails.forEach((row) => {
+        const zipcode = padCode(row.ZIPCODE, 5)
+        const countyFips = row.state_county_code ? padCode(row.state_county_code, 5) : undefined
+        const county = countyFips ? counties.get(countyFips) : undefined
+        const existing = zipRecords.get(zipcode)
+        const tableId = parseTableId(row.redfin_tableid_zip) ?? existing?.redfin_tableid_zip
+
+        const record: ZipMasterRecord = {
+          ...(existing || {
+            zipcode,
+            state_code: stateCode,
+            state_name: stateNames.get(stateCode) || row.STATE_NAME,
+            geojson_file: `${stateCode}_zip_geometry.geojson`,
+            data_file: `${stateCode}_zip_data.csv`,
+          }),
+          data_source: row.data_source || existing?.data_source || "zip_data",
+          has_census_data: parseBoolean(row.has_census_data),
+          has_redfin_data: parseBoolean(row.has_redfin_data) || tableId !== undefined,
+          has_geometry: parseBoolean(row.has_geometry) || existing?.has_geometry || false,
+          redfin_tableid_zip: tableId,
+          redfin_table_id_city: parseTableId(row.redfin_table_id_city),
+          redfin_table_id_county: parseTableId(row.redfin_table_id_county) ?? county?.tableId,
+          redfin_city: row.redfin_city || existing?.redfin_city,
+          census_city: row.census_city || undefined,
+          parent_metro_region: row.parent_metro_region || undefined,
+          parent_metro_region_metro_code: parseTableId(row.parent_metro_region_metro_code),
+          // Link through the FIPS code so the name always matches the county entry
+          redfin_county_name: county ? `${county.name}, ${stateCode}` : row.redfin_county_name || undefined,
+          region_type_id: parseTableId(row.region_type_id),
+          GEOID: padCode(row.GEOID || row.ZIPCODE, 5),
+          STATE_FIPS: padCode(row.STATE_FIPS, 2) || stateFips.get(stateCode),
+          state_county_code: countyFips,
+          INTPTLAT: parseNumber(row.INTPTLAT) ?? 0,
+          INTPTLON: parseNumber(row.INTPTLON) ?? 0,
+          ALAND: parseNumber(row.ALAND) ?? 0,
+          AWATER: parseNumber(row.AWATER) ?? 0,
+        }
+        zipRecords.set(zipcode, record)
+
+        const cityName = this.cityNameOf(record)
+        const cityTableId = parseTableId(row.redfin_table_id_city)
+        if (cityName && cityTableId !== undefined) cityTableIds.set(`${cityName}, ${stateCode}`, cityTableId)
+
+        if (county) {
+          county.zips.push(zipcode)
+          if (cityName) county.cities.add(cityName)
+        }
+      })
+    })
+
+    const redfinIndex = this.assembleIndex(stateNames, counties, zipRecords, cityTableIds)
+
+    console.log(
+      `✅ Loaded Index CSVs: ${stateNames.size} states, ${counties.size} counties, ${zipRecords.size} ZIPs` +
+        ` (detail files for ${loadedDetailStates.join(", ") || "no states"})`,
+    )
+
+    return {
+      redfinIndex,
+      zipMasterData: Array.from(zipRecords.values()),
+      tractSummaries: tractRows.map(toTractSummary),
+      detailStates: loadedDetailStates,
+      recordCounts,
+      failures,
+    }
+  }
+
+  // Load the coverage flags of the county and tract indexes, and the tract GEOIDs of the given
+  // states' tract detail files. Missing tract files leave those parts empty
+  async loadCoverageIndex(
+    stateCodes: string[],
+    transport = getDefaultTransport(),
+    options: LoadOptions = {},
+  ): Promise<CoverageIndex> {
+    const [countyRows, tractRows] = await Promise.all([
+      this.fetchCsv("county_data_index.csv", transport, options),
+      this.fetchCsv("tract_data_index.csv", transport, options),
+    ])
+    if (!countyRows) {
+      throw new Error("Index/county_data_index.csv not found")
+    }
+
+    const tractGeoids: Record<string, string[]> = {}
+    await Promise.all(
+      stateCodes.map(async (stateCode) => {
+        try {
+          const rows = await this.fetchCsv(`csv/${stateCode}_tract_data.csv`, transport, options)
+          // One row per tract and ZIP pair
+          if (rows) {
+            tractGeoids[stateCode] = Array.from(new Set(rows.map((row) => padCode(row.geoid_tract_20_clean, 11))))
+          }
+        } catch (error) {
+          if (isAbortError(error)) throw error
+          console.warn(`⚠️ Could not load Index/csv/${stateCode}_tract_data.csv:`, error)
+        }
+      }),
+    )
+
+    return {
+      counties: countyRows.map((row) => {
+        const fips = padCode(row.county_fips, 5)
+        return {
+          fips,
+          name: countyDisplayName(row.county_name, row.state_code, fips),
+          stateCode: row.state_code,
+          hasCensus: parseBoolean(row.has_census_data),
+          hasRedfin: parseBoolean(row.has_redfin_data),
+          hasGeometry: parseBoolean(row.has_geometry),
+        }
+      }),
+      tracts: (tractRows || []).map(toTractSummary),
+      tractGeoids,
+    }
+  }
+
+  private assembleIndex(
+    stateNames: Map<string, string>,
+    counties: Map<string, CountyEntry>,
+    zipRecords: Map<string, ZipMasterRecord>,
+    cityTableIds: Map<string, number>,
+  ): RedfInMasterIndex {
+    const index: RedfInMasterIndex = {
+      metadata: {
+        total_states: 0,
+        total_counties: 0,
+        total_cities: 0,
+        total_zips: 0,
+      },
+      states: {},
+      counties: {},
+      cities: {},
+      zip_codes: {},
+      search_terms: [],
+      property_types: { ...REDFIN_PROPERTY_TYPES },
+    }
+
+    // Redfin state table IDs are not part of the Index files
+    stateNames.forEach((stateName, stateCode) => {
+      index.states[stateName] = {
+        state_code: stateCode,
+        property_types: {},
+        primary_table_id: 0,
+      }
+    })
+
+    counties.forEach((county) => {
+      index.counties[`${county.name}, ${county.stateCode}`] = {
+        county_name: county.name,
+        county_fips: county.fips,
+        state_code: county.stateCode,
+        property_types: propertyTypesFor(county.tableId),
+        primary_table_id: county.tableId ?? 0,
+        cities: Array.from(county.cities).sort(),
+        zip_codes: county.zips,
+        metro_code: county.metroCode,
+        metro_name: county.metroName,
+        internal_point: county.internalPoint,
+        land_area: county.landArea,
+      }
+    })
+
+    zipRecords.forEach((record) => {
+      const tableId = record.redfin_tableid_zip
+      index.zip_codes[record.zipcode] = {
+        zip_code: record.zipcode,
+        state_code: record.state_code,
+        property_types: propertyTypesFor(tableId),
+        primary_table_id: tableId ?? 0,
+      }
+
+      const cityName = this.cityNameOf(record)
+      if (!cityName) return
+
+      const cityKey = `${cityName}, ${record.state_code}`
+      if (index.cities[cityKey]) return
+
+      const cityTableId = cityTableIds.get(cityKey)
+      index.cities[cityKey] = {
+        city_name: cityName,
+        state_code: record.state_code,
+        property_types: propertyTypesFor(cityTableId),
+        primary_table_id: cityTableId ?? 0,
+      }
+    })
+
+    index.metadata.total_states = Object.keys(index.states).length
+    index.metadata.total_counties = Object.keys(index.counties).length
+    index.metadata.total_cities = Object.keys(index.cities).length
+    index.metadata.total_zips = Object.keys(index.zip_codes).length
+    index.search_terms = [
+      ...Object.keys(index.states),
+      ...Object.values(index.counties).map((county) => county.county_name),
+      ...Object.values(index.cities).map((city) => city.city_name),
+    ]
+
+    return index
+  }
+
+  // Prefer the Redfin city name, falling back to the census place name
+  private cityNameOf(record: ZipMasterRecord): string {
+    return titleCase(stripStateSuffix(record.redfin_city) || stripStateSuffix(record.census_city))
+  }
+
+  // Rows of an Index file, or null when the file does not exist
+  private async fetchCsv(fileName: string, transport: DataTransport, options: LoadOptions): Promise<CsvRow[] | null> {
+    const response = await fetchWithRetry(transport, resolveIndexPath(fileName, transport), options)
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} loading Index/${fileName}`)
+    }
+
+    const text = await response.text()
+
+    // Keep everything as strings so ZIPs and FIPS codes keep their leading zeros
+    const parsed = Papa.parse<CsvRow>(text, {
+      header: true,
+      dynamicTyping: false,
+      skipEmptyLines: true,
+    })
+
+    if (parsed.errors.length > 0) {
+      console.warn(`CSV parsing warnings for Index/${fileName}:`, parsed.errors.slice(0, 5))
+    }
+
+    return parsed.data
+  }
+}
+
+// Export singleton instance
+export const indexAdapter = new IndexAdapter()
+export type { CountyIndexFlags, CoverageIndex, IndexAdapterOptions, IndexAdapterResult, TractIndexSummary }
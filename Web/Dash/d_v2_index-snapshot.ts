@@ -0,0 +1,284 @@
+// index-snapshot.ts
+// Prebuilt unified index snapshots: the built locations in one compact JSON file, with a small manifest of
+// the hashes of the source files they were built from. The app trusts the manifest, so loading the index
+// takes the manifest and the snapshot and none of the sources; `build-index-snapshot.ts --check` verifies
+// it against the sources before a deploy. Loaded by UnifiedDataService.initialize()
+
+import type { DataTransport } from "./data-transport"
+import { fetchWithRetry, type LoadOptions } from "./fetch-policy"
+import { restoreDerivedFields } from "./unified-lookup-builder"
+import type { SearchIndex, SearchIndexSnapshot } from "./search-index"
+import type { RedfInMasterIndex, UnifiedLocation } from "./unified-data-service"
+
+// Bumped whenever the snapshot layout or the lookup builder output changes shape
+export const SNAPSHOT_FORMAT_VERSION = 3
+
+// Site-root paths the browser loads the snapshot and its manifest from
+export const DEFAULT_SNAPSHOT_PATH = "/unified-index.snapshot.json"
+export const DEFAULT_MANIFEST_PATH = "/unified-index.manifest.json"
+
+interface SourceHash {
+  path: string // As the app requests it, e.g. "Index/zip_data_index.csv" or "/redfin_master_index.json"
+  sha256: string
+  bytes: number
+}
+
+interface SnapshotManifest {
+  format: number
+  createdAt: string
+  // Path of the snapshot the manifest describes
+  snapshot: string
+  sources: SourceHash[]
+  // Hash over every source path and hash, also stamped on the snapshot
+  sourcesHash: string
+}
+
+// Most locations share one of a handful of property type maps, data flag sets and file names, so
+// locations point into shared pools instead of repeating them. A null table ID is the location's
+// primaryTableId
+type PooledPropertyTypes = Record<string, { name: string; table_id: string | null }>
+
+interface SnapshotPools {
+  propertyTypes: PooledPropertyTypes[]
+  hasData: Array<UnifiedLocation["hasData"]>
+  strings: string[]
+}
+
+// Location values in SNAPSHOT_FIELDS order. Missing values are null and trailing ones are left off
+type SnapshotRow = unknown[]
+
+interface UnifiedIndexSnapshot {
+  format: number
+  createdAt: string
+  sourcesHash: string
+  // The parts of the master index read after the build
+  index: Pick<RedfInMasterIndex, "metadata" | "property_types">
+  pools: SnapshotPools
+  locations: SnapshotRow[]
+  // Search documents and aliases, so the index is searchable without a rebuild
+  search: SearchIndexSnapshot
+}
+
+// Where to find a snapshot's manifest, and the snapshot when it is not where the manifest says
+interface SnapshotOptions {
+  manifestPath?: string
+  path?: string
+}
+
+// Fields stored per location. Everything else the build derives and restoreDerivedFields() restores:
+// state names, hierarchical paths, and the ZIP lists of states, counties and metros. parentId is stored as
+// the parent's row
+const SNAPSHOT_FIELDS: Array<keyof UnifiedLocation> = [
+  "id",
+  "level",
+  "name",
+  "stateCode",
+  "primaryTableId",
+  "propertyTypes",
+  "hasData",
+  "coordinates",
+  "coordinatesSource",
+  "bounds",
+  "parentId",
+  "fips",
+  "geoid",
+  "zipCode",
+  "geoJsonFile",
+  "dataFile",
+  "landArea",
+  "waterArea",
+  "metroRegion",
+  "metroCode",
+  "dataSource",
+  "parentCounty",
+  "childCities",
+  "childZips",
+  "memberCounties",
+]
+
+const PRIMARY_TABLE_ID_COLUMN = SNAPSHOT_FIELDS.indexOf("primaryTableId")
+
+// Fields with few distinct values, stored as positions into pools.strings
+const POOLED_STRING_FIELDS = new Set<keyof UnifiedLocation>([
+  "level",
+  "stateCode",
+  "coordinatesSource",
+  "geoJsonFile",
+  "dataFile",
+  "metroRegion",
+  "metroCode",
+  "dataSource",
+  "parentCounty",
+])
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+// Web Crypto works in browsers and in Node 18+, so the generator and the app hash the same way
+export async function sha256(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))
+  return toHex(digest)
+}
+
+export async function hashSource(path: string, text: string): Promise<SourceHash> {
+  return { path, sha256: await sha256(text), bytes: new TextEncoder().encode(text).length }
+}
+
+// Order-independent, so the same files always give the same hash
+export async function combineSourceHashes(sources: SourceHash[]): Promise<string> {
+  const lines = [...sources]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map((source) => `${source.path}:${source.sha256}`)
+  return sha256(lines.join("\n"))
+}
+
+export function createManifest(
+  snapshot: UnifiedIndexSnapshot,
+  sources: SourceHash[],
+  snapshotPath: string = DEFAULT_SNAPSHOT_PATH,
+): SnapshotManifest {
+  return {
+    format: snapshot.format,
+    createdAt: snapshot.createdAt,
+    snapshot: snapshotPath,
+    sources,
+    sourcesHash: snapshot.sourcesHash,
+  }
+}
+
+// The locations and the search index over them, sharing one string pool
+export function packLocations(
+  locations: UnifiedLocation[],
+  searchIndex: SearchIndex,
+): { locations: SnapshotRow[]; pools: SnapshotPools; search: SearchIndexSnapshot } {
+  const pools: SnapshotPools = { propertyTypes: [], hasData: [], strings: [] }
+  const positions = {
+    propertyTypes: new Map<string, number>(),
+    hasData: new Map<string, number>(),
+    strings: new Map<string, number>(),
+  }
+  const pooled = <K extends keyof SnapshotPools>(pool: K, value: SnapshotPools[K][number]): number => {
+    const key = JSON.stringify(value)
+    let position = positions[pool].get(key)
+    if (position === undefined) {
+      position = (pools[pool] as Array<typeof value>).push(value) - 1
+      positions[pool].set(key, position)
+    }
+    return position
+  }
+
+  const rows = new Map(locations.map((location, row): [string, number] => [location.id, row]))
+
+  const encode = (location: UnifiedLocation, field: keyof UnifiedLocation): unknown => {
+    const value = location[field]
+    if (value === undefined || value === null) return null
+
+    if (field === "propertyTypes") {
+      const primaryTableId = String(location.primaryTableId)
+      const propertyTypes: PooledPropertyTypes = {}
+      Object.entries(location.propertyTypes || {}).forEach(([code, type]) => {
+        const tableId = String(type.table_id)
+        propertyTypes[code] = { name: type.name, table_id: tableId === primaryTableId ? null : tableId }
+      })
+      return pooled("propertyTypes", propertyTypes)
+    }
+    if (field === "hasData") return pooled("hasData", location.hasData)
+    if (field === "parentId") return rows.get(location.parentId!) ?? null
+    // Only cities keep their ZIP lists, the other levels' are derived
+    if (field === "childZips" && location.level !== "city") return null
+    if (POOLED_STRING_FIELDS.has(field)) return pooled("strings", String(value))
+    return value
+  }
+
+  const packed = locations.map((location) => {
+    const row = SNAPSHOT_FIELDS.map((field) => encode(location, field))
+    while (row.length > 0 && row[row.length - 1] === null) row.pop()
+    return row
+  })
+
+  const search = searchIndex.toSnapshot(
+    (id) => rows.get(id),
+    (text) => pooled("strings", text),
+  )
+  return { locations: packed, pools, search }
+}
+
+// Locations with every field the build gives them, and parent id -> child ids
+export function unpackLocations(
+  rows: SnapshotRow[],
+  pools: SnapshotPools,
+): { locations: UnifiedLocation[]; childIds: Map<string, string[]> } {
+  const parentRows: Array<number | null> = []
+
+  const locations = rows.map((row) => {
+    const location: Record<string, unknown> = {}
+    let parentRow: number | null = null
+    row.forEach((value, column) => {
+      if (value === null || value === undefined) return
+      const field = SNAPSHOT_FIELDS[column]
+      if (field === "propertyTypes") {
+        const propertyTypes: UnifiedLocation["propertyTypes"] = {}
+        const primaryTableId = String(row[PRIMARY_TABLE_ID_COLUMN])
+        Object.entries(pools.propertyTypes[value as number] || {}).forEach(([code, type]) => {
+          propertyTypes[code] = { name: type.name, table_id: type.table_id ?? primaryTableId }
+        })
+        location.propertyTypes = propertyTypes
+      } else if (field === "hasData") {
+        // Each location gets its own flags object, since geometry and tract loads update locations in place
+        location.hasData = { ...pools.hasData[value as number] }
+      } else if (field === "parentId") {
+        parentRow = value as number
+      } else {
+        location[field] = POOLED_STRING_FIELDS.has(field) ? pools.strings[value as number] : value
+      }
+    })
+    parentRows.push(parentRow)
+    return location as unknown as UnifiedLocation
+  })
+
+  locations.forEach((location, row) => {
+    const parentRow = parentRows[row]
+    if (parentRow !== null) location.parentId = locations[parentRow]?.id
+  })
+
+  return { locations, childIds: restoreDerivedFields(locations) }
+}
+
+// Why the sources no longer match those the snapshot was built from, or null when they all do. Reads every
+// source, so it is for the generator's --check rather than page loads
+export async function checkSources(
+  manifest: SnapshotManifest,
+  transport: DataTransport,
+  options: LoadOptions = {},
+): Promise<string | null> {
+  const changed = await Promise.all(
+    manifest.sources.map(async (source) => {
+      const response = await fetchWithRetry(transport, transport.resolve(source.path), options)
+      if (!response.ok) return `${source.path} (HTTP ${response.status})`
+      const current = await hashSource(source.path, await response.text())
+      return current.sha256 === source.sha256 ? null : source.path
+    }),
+  )
+  const stale = changed.filter((path): path is string => path !== null)
+  return stale.length > 0 ? `sources changed since it was built: ${stale.join(", ")}` : null
+}
+
+// Why a snapshot cannot be used, or null when it can
+export function checkSnapshot(snapshot: UnifiedIndexSnapshot, manifest: SnapshotManifest): string | null {
+  if (snapshot?.format !== SNAPSHOT_FORMAT_VERSION || manifest.format !== SNAPSHOT_FORMAT_VERSION) {
+    return `format ${snapshot?.format} does not match ${SNAPSHOT_FORMAT_VERSION}`
+  }
+  if (snapshot.sourcesHash !== manifest.sourcesHash) {
+    const hashes = `${snapshot.sourcesHash.slice(0, 12)} vs ${manifest.sourcesHash.slice(0, 12)}`
+    return `built from other sources than its manifest lists (${hashes})`
+  }
+  if (!Array.isArray(snapshot.locations) || snapshot.locations.length === 0) {
+    return "no locations"
+  }
+  return null
+}
+
+export type { SnapshotManifest, SnapshotOptions, SnapshotPools, SnapshotRow, SourceHash, UnifiedIndexSnapshot }
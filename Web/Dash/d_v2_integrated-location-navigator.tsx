@@ -2,13 +2,74 @@
 
 import { useState, useEffect } from "react"
 import { MapPin, Search, Loader2, ChevronRight } from "lucide-react"
-import { unifiedDataService, type UnifiedLocation } from "@/lib/unified-data-service"
+import {
+  unifiedDataService,
+  type LocationLevel,
+  type UnifiedLocation,
+  type SearchResult,
+  type SearchField,
+  type InitializationResult,
+  type SourceFailure,
+} from "@/lib/unified-data-service"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 
+// Labels for the field a search result matched on
+const MATCHED_FIELD_LABELS: Record<SearchField, string> = {
+  zip: "ZIP",
+  state: "State",
+  county: "County",
+  city: "City",
+  metro: "Metro",
+  alias: "Alias",
+}
+
+// Render text with the matched ranges wrapped in <mark>
+function HighlightedText({ text, highlights }: { text: string; highlights: Array<[number, number]> }) {
+  const parts: JSX.Element[] = []
+  let cursor = 0
+
+  highlights.forEach(([start, end], index) => {
+    if (start < cursor) return
+    if (start > cursor) parts.push(<span key={`text-${index}`}>{text.slice(cursor, start)}</span>)
+    parts.push(
+      <mark key={`mark-${index}`} className="bg-yellow-200 rounded-sm">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    cursor = end
+  })
+  if (cursor < text.length) parts.push(<span key="text-end">{text.slice(cursor)}</span>)
+
+  return <>{parts}</>
+}
+
+// Sources that failed during initialization, with the reason for each
+function FailureList({ failures }: { failures: SourceFailure[] }) {
+  return (
+    <ul className="space-y-1">
+      {failures.map((failure, index) => (
+        <li key={index} className="font-mono">
+          {failure.source}: {failure.reason}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+// Share of a ZIP that lies in the listed county; whole ZIPs show nothing
+function ZipShare({ share, county }: { share: number; county: UnifiedLocation }) {
+  if (share <= 0 || share >= 1) return null
+  return (
+    <p className="text-xs text-amber-600">
+      {Math.round(share * 100)}% in {county.name}
+    </p>
+  )
+}
+
 interface IntegratedLocationNavigatorProps {
   onLocationSelect: (location: UnifiedLocation) => void
-  onInitialized: (initialized: boolean) => void
+  onInitialized: (initialized: boolean, result?: InitializationResult) => void
 }
 
 export default function IntegratedLocationNavigator({
@@ -16,54 +77,37 @@ export default function IntegratedLocationNavigator({
   onInitialized,
 }: IntegratedLocationNavigatorProps) {
   const [selectedState, setSelectedState] = useState<UnifiedLocation | null>(null)
-  const [selectedLevel, setSelectedLevel] = useState("state")
+  const [selectedLevel, setSelectedLevel] = useState<LocationLevel>("state")
   const [searchQuery, setSearchQuery] = useState("")
-  const [searchResults, setSearchResults] = useState<UnifiedLocation[]>([])
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([])
   const [locations, setLocations] = useState<UnifiedLocation[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isInitialized, setIsInitialized] = useState(false)
-  const [initError, setInitError] = useState<string | null>(null)
+  const [initResult, setInitResult] = useState<InitializationResult | null>(null)
   const [breadcrumb, setBreadcrumb] = useState<UnifiedLocation[]>([])
+  // County whose ZIPs are listed, so split ZIPs can show their share of it
+  const [listingCounty, setListingCounty] = useState<UnifiedLocation | null>(null)
 
   // Initialize the unified data service
   useEffect(() => {
     const initializeService = async () => {
       try {
         setIsLoading(true)
-        await unifiedDataService.initialize()
-        setIsInitialized(true)
-        onInitialized(true)
+        const result = await unifiedDataService.initialize()
+        setInitResult(result)
+
+        // Mock data still initializes the navigator, but is flagged below
+        const initialized = result.mode !== "unavailable"
+        setIsInitialized(initialized)
+        onInitialized(initialized, result)
 
         // Load initial states
-        const states = unifiedDataService.getStates()
-        setLocations(states)
+        if (initialized) {
+          setLocations(unifiedDataService.getStates())
+        }
       } catch (error) {
         console.error("Failed to initialize unified data service:", error)
-
-        // More specific error messages
-        let errorMessage = "Failed to load data"
-        if (error instanceof Error) {
-          if (error.message.includes("redfin_master_index.json")) {
-            errorMessage = "Missing redfin_master_index.json in /public folder"
-          } else if (error.message.includes("zip_master_index.csv")) {
-            errorMessage = "Missing zip_master_index.csv in /public folder"
-          } else {
-            errorMessage = error.message
-          }
-        }
-
-        setInitError(errorMessage)
-
-        // Still try to initialize with mock data
-        try {
-          await unifiedDataService.initialize()
-          setIsInitialized(true)
-          onInitialized(true)
-          const states = unifiedDataService.getStates()
-          setLocations(states)
-        } catch (mockError) {
-          onInitialized(false)
-        }
+        onInitialized(false)
       } finally {
         setIsLoading(false)
       }
@@ -72,38 +116,42 @@ export default function IntegratedLocationNavigator({
     initializeService()
   }, [onInitialized])
 
-  // Handle level change
-  const handleLevelChange = async (level: string) => {
-    if (!selectedState && level !== "state") return
+  // Handle level change. The state is passed explicitly when it was just selected,
+  // since the selectedState update has not been applied yet
+  const handleLevelChange = async (level: LocationLevel, state: UnifiedLocation | null = selectedState) => {
+    if (!state && level !== "state") return
 
     setIsLoading(true)
     setSelectedLevel(level)
+    setListingCounty(null)
 
     try {
-      let newLocations: UnifiedLocation[] = []
-
-      switch (level) {
-        case "state":
-          newLocations = unifiedDataService.getStates()
-          setBreadcrumb([])
-          break
-        case "county":
-          newLocations = unifiedDataService.getCountiesInState(selectedState!.stateCode)
-          setBreadcrumb([selectedState!])
-          break
-        case "city":
-          newLocations = unifiedDataService.getCitiesInState(selectedState!.stateCode)
-          setBreadcrumb([selectedState!])
-          break
-        case "zip":
-          newLocations = unifiedDataService.getZipsInState(selectedState!.stateCode)
-          setBreadcrumb([selectedState!])
-          break
+      if (level === "state" || !state) {
+        setLocations(unifiedDataService.getStates())
+        setBreadcrumb([])
+      } else if (level === "metro") {
+        // Include metros that cross into the state from a neighbour
+        setLocations(unifiedDataService.getMetrosInState(state.stateCode))
+        setBreadcrumb([state])
+      } else if (level === "tract") {
+        // Drill into the most specific location in the breadcrumb, e.g. the selected ZIP
+        await unifiedDataService.loadTracts(state.stateCode)
+        const context = [...breadcrumb].reverse().find((location) => location.level !== "tract") || state
+        setLocations(unifiedDataService.getChildren(context, "tract"))
+        if (breadcrumb.length === 0) setBreadcrumb([state])
+      } else if (level === "zip" && breadcrumb.some((location) => location.level === "county")) {
+        // List the selected county's ZIPs, including ones filed under a neighbouring county
+        const county = [...breadcrumb].reverse().find((location) => location.level === "county")!
+        await unifiedDataService.loadZipCountyCrosswalk(state.stateCode)
+        setLocations(unifiedDataService.getChildren(county, "zip"))
+        setListingCounty(county)
+      } else {
+        setLocations(unifiedDataService.getChildren(state, level))
+        setBreadcrumb([state])
       }
-
-      setLocations(newLocations)
     } catch (error) {
       console.error("Error loading locations:", error)
+      setLocations([])
     } finally {
       setIsLoading(false)
     }
@@ -112,9 +160,9 @@ export default function IntegratedLocationNavigator({
   // Handle search
   const handleSearch = (query: string) => {
     setSearchQuery(query)
-    if (query.length > 2) {
-      const results = unifiedDataService.searchLocations(query)
-      setSearchResults(results.slice(0, 10))
+    // Two characters is enough for abbreviations like "LA" or "LV"
+    if (query.trim().length >= 2) {
+      setSearchResults(unifiedDataService.searchLocationsRanked(query, 10))
     } else {
       setSearchResults([])
     }
@@ -125,11 +173,16 @@ export default function IntegratedLocationNavigator({
     onLocationSelect(location)
 
     // If selecting a state, load its counties by default
-    if (location.hierarchicalPath.split(" > ").length === 1) {
+    if (location.level === "state") {
       setSelectedState(location)
-      setSelectedLevel("county")
-      handleLevelChange("county")
+      handleLevelChange("county", location)
+      return
     }
+
+    // Otherwise show where the location sits, e.g. Nevada > Clark County > Las Vegas
+    const ancestors = unifiedDataService.getAncestors(location)
+    if (ancestors[0]?.level === "state") setSelectedState(ancestors[0])
+    setBreadcrumb([...ancestors, location])
   }
 
   if (!isInitialized) {
@@ -140,14 +193,14 @@ export default function IntegratedLocationNavigator({
             <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
             <span>Loading real estate data indices...</span>
           </div>
-        ) : initError ? (
+        ) : initResult?.mode === "unavailable" ? (
           <div className="text-red-600">
-            <h3 className="text-lg font-semibold mb-2">Using Mock Data</h3>
-            <p className="text-sm mb-2">Could not load real data files, using mock data instead.</p>
+            <h3 className="text-lg font-semibold mb-2">Data Unavailable</h3>
+            <p className="text-sm mb-2">Could not load real data files and mock data is disabled.</p>
             <details className="text-xs">
               <summary className="cursor-pointer text-blue-600 hover:text-blue-800">Show error details</summary>
               <div className="mt-2 p-2 bg-gray-100 rounded">
-                <p className="font-mono">{initError}</p>
+                <FailureList failures={initResult.failures} />
               </div>
             </details>
             <div className="mt-3 p-3 bg-blue-50 rounded text-blue-800">
@@ -172,6 +225,22 @@ export default function IntegratedLocationNavigator({
 
   return (
     <div className="space-y-4">
+      {/* Mock data warning */}
+      {initResult?.mode === "mock" && (
+        <div className="p-3 rounded border border-yellow-300 bg-yellow-50 text-yellow-800">
+          <h3 className="font-semibold text-sm">Using Mock Data</h3>
+          <p className="text-xs mb-1">
+            Could not load real data files. The locations and table IDs below are examples, not real data.
+          </p>
+          <details className="text-xs">
+            <summary className="cursor-pointer text-blue-600 hover:text-blue-800">Show error details</summary>
+            <div className="mt-2 p-2 bg-gray-100 rounded">
+              <FailureList failures={initResult.failures} />
+            </div>
+          </details>
+        </div>
+      )}
+
       {/* Breadcrumb Navigation */}
       {breadcrumb.length > 0 && (
         <div className="flex items-center space-x-2 text-sm">
@@ -189,7 +258,7 @@ export default function IntegratedLocationNavigator({
           {breadcrumb.map((item, index) => (
             <div key={index} className="flex items-center space-x-2">
               <ChevronRight className="h-4 w-4 text-gray-400" />
-              <span className="font-medium">{item.stateName}</span>
+              <span className="font-medium">{item.name}</span>
             </div>
           ))}
         </div>
@@ -206,29 +275,34 @@ export default function IntegratedLocationNavigator({
           className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
         />
 
-        {searchResults.length > 0 && searchQuery.length > 2 && (
+        {searchResults.length > 0 && searchQuery.trim().length >= 2 && (
           <div className="absolute top-full left-0 right-0 mt-1 border rounded-md bg-white shadow-lg z-10 max-h-60 overflow-y-auto">
             {searchResults.map((result, index) => (
               <div
                 key={index}
                 onClick={() => {
-                  handleLocationSelect(result)
+                  handleLocationSelect(result.location)
                   setSearchQuery("")
                   setSearchResults([])
                 }}
                 className="p-3 hover:bg-blue-50 cursor-pointer border-b last:border-b-0 flex items-center justify-between"
               >
                 <div>
-                  <div className="font-medium">{result.hierarchicalPath}</div>
-                  {result.zipCode && <div className="text-sm text-gray-500">ZIP: {result.zipCode}</div>}
+                  <div className="font-medium">{result.location.hierarchicalPath}</div>
+                  <div className="text-sm text-gray-500 flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">
+                      {MATCHED_FIELD_LABELS[result.matchedField]}
+                    </Badge>
+                    <HighlightedText text={result.matchedText} highlights={result.highlights} />
+                  </div>
                 </div>
                 <div className="flex space-x-1">
-                  {result.hasData.census && (
+                  {result.location.hasData.census && (
                     <Badge variant="secondary" className="text-xs">
                       Census
                     </Badge>
                   )}
-                  {result.hasData.redfin && (
+                  {result.location.hasData.redfin && (
                     <Badge variant="secondary" className="text-xs">
                       Redfin
                     </Badge>
@@ -243,7 +317,7 @@ export default function IntegratedLocationNavigator({
       {/* Level Navigation */}
       <div className="flex items-center space-x-2">
         <span className="text-sm font-medium">Browse by:</span>
-        {["state", "county", "city", "zip"].map((level) => (
+        {(["state", "metro", "county", "city", "zip", "tract"] as LocationLevel[]).map((level) => (
           <Button
             key={level}
             onClick={() => handleLevelChange(level)}
@@ -261,7 +335,7 @@ export default function IntegratedLocationNavigator({
         <div className="flex items-center justify-between">
           <h3 className="text-sm font-medium">
             {selectedLevel.charAt(0).toUpperCase() + selectedLevel.slice(1)} Locations
-            {selectedState && ` in ${selectedState.stateName}`}
+            {listingCounty ? ` in ${listingCounty.name}` : selectedState && ` in ${selectedState.stateName}`}
           </h3>
           {isLoading && (
             <div className="flex items-center text-sm text-gray-500">
@@ -273,8 +347,6 @@ export default function IntegratedLocationNavigator({
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 max-h-96 overflow-y-auto">
           {locations.map((location, index) => {
-            const pathParts = location.hierarchicalPath.split(" > ")
-
             return (
               <div
                 key={index}
@@ -283,8 +355,23 @@ export default function IntegratedLocationNavigator({
               >
                 <div className="flex items-start justify-between mb-2">
                   <div className="flex-1">
-                    <h4 className="font-medium text-sm">{pathParts[pathParts.length - 1]}</h4>
+                    <h4 className="font-medium text-sm">{location.name}</h4>
                     {location.zipCode && <p className="text-xs text-blue-600 font-mono">ZIP: {location.zipCode}</p>}
+                    {location.level === "zip" && listingCounty && (
+                      <ZipShare share={unifiedDataService.getZipCountyWeight(location, listingCounty)} county={listingCounty} />
+                    )}
+                    {location.level === "metro" && (
+                      <p className="text-xs text-blue-600 font-mono">
+                        CBSA {location.metroCode} · {location.memberCounties?.length || 0} counties,{" "}
+                        {location.childZips?.length || 0} ZIPs
+                      </p>
+                    )}
+                    {location.level === "tract" && (
+                      <p className="text-xs text-blue-600 font-mono">
+                        {location.geoid}
+                        {location.zipCodes?.length ? ` · ZIP ${location.zipCodes.join(", ")}` : ""}
+                      </p>
+                    )}
                   </div>
                   <MapPin className="h-4 w-4 text-gray-400 flex-shrink-0" />
                 </div>
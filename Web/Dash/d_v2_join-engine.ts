@@ -0,0 +1,510 @@
+// join-engine.ts
+// Joins a state's census summaries to its Redfin and FRED rows through the links declared in
+// Index/linking_relationships.csv, giving one record per geography with its latest Redfin row and its FRED
+// county row. The report lists the keys each side could not match and the cardinality each link has in
+// the data, so a renamed column or a missing crosswalk shows up as a number instead of empty charts
+
+import Papa from "papaparse"
+import { hasDataFile, resolveIndexPath, STATES } from "./file-path-resolver"
+import type { DataTransport } from "./data-transport"
+import { fetchWithRetry, isAbortError, type LoadOptions } from "./fetch-policy"
+import { ALL_RESIDENTIAL_CODE, filterRowsByPropertyType } from "./property-types"
+import type { CensusSummaryRow, FredCountyRow, RedfinRow } from "./payload-schemas"
+
+type CsvRow = Record<string, string>
+
+type JoinSource = "redfin" | "fred"
+
+// A row of linking_relationships.csv; a source without a column for the link is null
+interface LinkRelationship {
+  linkType: string
+  displayName: string
+  description: string
+  census: string | null
+  redfin: string | null
+  fred: string | null
+}
+
+type Cardinality = "one-to-one" | "one-to-many" | "many-to-one" | "many-to-many"
+
+interface LinkReport {
+  source: JoinSource
+  linkType: string
+  censusColumn: string
+  sourceColumn: string
+  // What stands between the two columns when they are not the same code: the county column ZIPs reach
+  // county files through, and the Index file mapping geographies to Redfin table IDs
+  via: string | null
+  matched: number
+  // Geographies without a row, and source keys no geography has
+  unmatchedCensusKeys: string[]
+  unmatchedSourceKeys: string[]
+  // Geographies with several rows; left unjoined rather than picking one
+  ambiguousKeys: string[]
+  // Geographies per source row and source rows per geography, over the matched keys; null when none matched
+  cardinality: Cardinality | null
+  // Why the link was not made, e.g. the source file did not load or there is none at this level; every
+  // geography is then unmatched
+  error: string | null
+}
+
+interface JoinReport {
+  stateCode: string
+  level: string
+  checkedAt: string
+  geographies: number
+  // Census rows without a key, and keys of census rows dropped as repeats of an earlier row
+  unkeyedRows: number
+  duplicateKeys: string[]
+  links: LinkReport[]
+}
+
+interface JoinedRecord {
+  // The geography's code at its link's width, e.g. "89501" or "32031"
+  key: string
+  census: CensusSummaryRow
+  // The county's rows for ZIPs, which have no Redfin or FRED file of their own
+  redfin: RedfinRow | null
+  fred: FredCountyRow | null
+}
+
+interface JoinResult {
+  records: JoinedRecord[]
+  report: JoinReport
+}
+
+// Loads of the rows to join, e.g. DataService's cached and validated loaders
+interface JoinLoaders {
+  census(): Promise<CensusSummaryRow[]>
+  redfin(level: string): Promise<RedfinRow[]>
+  fred(): Promise<FredCountyRow[]>
+}
+
+interface JoinOptions extends LoadOptions {
+  // Property type of the Redfin rows joined, All Residential by default
+  propertyTypeCode?: string
+}
+
+// Redfin rows are keyed by table_id, which census files do not carry: these Index files map a
+// geography's code to its table ID
+interface RedfinCrosswalk {
+  file: string
+  keyColumn: string
+  tableIdColumn: string
+  // Set when the file covers every state
+  stateColumn: string | null
+}
+
+// The relationship a source is joined through, with the census column holding its key. via names the
+// county column when geographies reach the source through their county
+interface SourceLink {
+  relationship: LinkRelationship
+  censusColumn: string
+  via: string | null
+}
+
+// Data levels -> link_type in linking_relationships.csv
+const LINK_TYPES: Record<string, string> = {
+  state: "state",
+  county: "county",
+  zip: "zip_code",
+  tract: "tract",
+}
+
+// Code width per link, so 1 and "001", or 32003 and "32003", are the same key
+const KEY_WIDTHS: Record<string, number> = {
+  state: 2,
+  county: 5,
+  zip_code: 5,
+  tract: 11,
+}
+
+const REDFIN_CROSSWALKS: Record<string, (stateAbbrev: string) => RedfinCrosswalk> = {
+  zip_code: () => ({
+    file: "zip_data_index.csv",
+    keyColumn: "zipcode",
+    tableIdColumn: "redfin_tableid_zip",
+    stateColumn: "state_code",
+  }),
+  county: (stateAbbrev) => ({
+    file: `csv/${stateAbbrev}_county_data.csv`,
+    keyColumn: "GEOID",
+    tableIdColumn: "table_id",
+    stateColumn: null,
+  }),
+}
+
+// Geographies a source has no file for reach the county file through this column, e.g. FRED and Redfin
+// publish no ZIP files
+const COUNTY_COLUMNS: Record<string, string> = {
+  zip_code: "primary_county",
+}
+
+// Keys listed per report field, so a file with a renamed key column does not list every row
+const MAX_LISTED_KEYS = 100
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// Handles "1864.0" from the Index CSVs
+function padCode(value: unknown, width: number): string | null {
+  if (value === null || value === undefined) return null
+  const code = String(value).trim().replace(/\.0+$/, "")
+  return code ? code.padStart(width, "0") : null
+}
+
+// Census county columns hold the county code without the state; state files may carry no code at all,
+// but only ever hold their own state
+function censusKey(row: CensusSummaryRow, linkType: string, column: string, stateFips: string): string | null {
+  const value = (row as Record<string, unknown>)[column]
+  if (linkType === "state") return padCode(value, 2) ?? stateFips
+
+  if (linkType === "county") {
+    const county = padCode(value, 3)
+    if (!county) return null
+    return county.length > 3 ? county.padStart(5, "0") : `${padCode(row.state, 2) ?? stateFips}${county}`
+  }
+  return padCode(value, KEY_WIDTHS[linkType] ?? 0)
+}
+
+function parseCsv(text: string, source: string): CsvRow[] {
+  // Keep everything as strings so ZIPs and FIPS codes keep their leading zeros
+  const parsed = Papa.parse<CsvRow>(text, { header: true, dynamicTyping: false, skipEmptyLines: true })
+  if (parsed.errors.length > 0) console.warn(`CSV parsing warnings for ${source}:`, parsed.errors.slice(0, 5))
+  return parsed.data
+}
+
+async function fetchIndexCsv(fileName: string, transport: DataTransport, options: LoadOptions): Promise<CsvRow[]> {
+  const response = await fetchWithRetry(transport, resolveIndexPath(fileName, transport), options)
+  if (!response.ok) throw new Error(`HTTP ${response.status} loading Index/${fileName}`)
+  return parseCsv(await response.text(), `Index/${fileName}`)
+}
+
+export function parseLinkingRelationships(text: string): LinkRelationship[] {
+  const column = (value?: string) => (value && value.trim() ? value.trim() : null)
+  return parseCsv(text, "Index/linking_relationships.csv").map((row) => ({
+    linkType: row.link_type,
+    displayName: row.display_name,
+    description: row.description,
+    census: column(row.census_column),
+    redfin: column(row.redfin_column),
+    fred: column(row.fred_column),
+  }))
+}
+
+export async function loadLinkingRelationships(
+  transport: DataTransport,
+  options: LoadOptions = {},
+): Promise<LinkRelationship[]> {
+  const response = await fetchWithRetry(transport, resolveIndexPath("linking_relationships.csv", transport), options)
+  if (!response.ok) throw new Error(`HTTP ${response.status} loading Index/linking_relationships.csv`)
+  return parseLinkingRelationships(await response.text())
+}
+
+// Geography code -> Redfin table ID for one state and link
+async function loadRedfinCrosswalk(
+  crosswalk: RedfinCrosswalk,
+  stateAbbrev: string,
+  width: number,
+  transport: DataTransport,
+  options: LoadOptions,
+): Promise<Map<string, number>> {
+  const rows = await fetchIndexCsv(crosswalk.file, transport, options)
+  const tableIds = new Map<string, number>()
+  rows.forEach((row) => {
+    if (crosswalk.stateColumn && row[crosswalk.stateColumn] !== stateAbbrev) return
+    const key = padCode(row[crosswalk.keyColumn], width)
+    const tableId = Number.parseFloat(row[crosswalk.tableIdColumn])
+    if (key && Number.isFinite(tableId)) tableIds.set(key, Math.round(tableId))
+  })
+  return tableIds
+}
+
+// The newest row of each table ID for one property type
+function latestRedfinRows(rows: RedfinRow[], propertyTypeCode: string): RedfinRow[] {
+  const latest = new Map<number, RedfinRow>()
+  filterRowsByPropertyType(rows, [propertyTypeCode]).forEach((row) => {
+    const current = latest.get(row.table_id)
+    if (!current || row.period_end > current.period_end) latest.set(row.table_id, row)
+  })
+  return Array.from(latest.values())
+}
+
+// The source's own link when it has a file at this level, or else its county link through the geography's
+// county column. Null when neither has a file, e.g. FRED for states
+function findSourceLink(
+  source: JoinSource,
+  level: string,
+  relationship: LinkRelationship,
+  relationships: LinkRelationship[],
+): SourceLink | null {
+  if (relationship[source] && hasDataFile(source, level)) {
+    return { relationship, censusColumn: relationship.census!, via: null }
+  }
+  const countyColumn = COUNTY_COLUMNS[relationship.linkType]
+  const countyRelationship = relationships.find((candidate) => candidate.linkType === "county")
+  if (countyColumn && countyRelationship?.[source] && hasDataFile(source, "county")) {
+    return { relationship: countyRelationship, censusColumn: countyColumn, via: countyColumn }
+  }
+  return null
+}
+
+// Match each geography's key to the source rows with the same key
+function linkRows<T>(
+  keys: Array<string | null>,
+  rows: T[],
+  keyOf: (row: T) => string | null,
+  labelOf: (row: T) => string,
+  report: LinkReport,
+): Array<T | null> {
+  const byKey = new Map<string, T[]>()
+  const unmatchedSource = new Set<string>()
+  rows.forEach((row) => {
+    const key = keyOf(row)
+    if (key === null) {
+      unmatchedSource.add(labelOf(row))
+      return
+    }
+    byKey.set(key, [...(byKey.get(key) || []), row])
+  })
+
+  const wanted = new Set(keys.filter((key): key is string => key !== null))
+  byKey.forEach((matches, key) => {
+    if (!wanted.has(key)) matches.forEach((row) => unmatchedSource.add(labelOf(row)))
+  })
+
+  const geographiesPerKey = new Map<string, number>()
+  const unmatchedCensus = new Set<string>()
+  const ambiguous = new Set<string>()
+  const matches = keys.map((key) => {
+    const found = key === null ? undefined : byKey.get(key)
+    if (!found) {
+      if (key !== null) unmatchedCensus.add(key)
+      return null
+    }
+    geographiesPerKey.set(key!, (geographiesPerKey.get(key!) || 0) + 1)
+    if (found.length > 1) {
+      ambiguous.add(key!)
+      return null
+    }
+    return found[0]
+  })
+
+  const manyGeographies = Array.from(geographiesPerKey.values()).some((count) => count > 1)
+  const manyRows = ambiguous.size > 0
+  report.matched = matches.filter((match) => match !== null).length
+  report.unmatchedCensusKeys = Array.from(unmatchedCensus).slice(0, MAX_LISTED_KEYS)
+  report.unmatchedSourceKeys = Array.from(unmatchedSource).slice(0, MAX_LISTED_KEYS)
+  report.ambiguousKeys = Array.from(ambiguous).slice(0, MAX_LISTED_KEYS)
+  const cardinality = `${manyGeographies ? "many" : "one"}-to-${manyRows ? "many" : "one"}` as Cardinality
+  report.cardinality = geographiesPerKey.size > 0 ? cardinality : null
+  return matches
+}
+
+// A load that may fail without failing the join; aborts are rethrown
+async function settle<T>(load: () => Promise<T>): Promise<{ value: T | null; error: string | null }> {
+  try {
+    return { value: await load(), error: null }
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    return { value: null, error: errorMessage(error) }
+  }
+}
+
+function emptyLinkReport(
+  source: JoinSource,
+  linkType: string,
+  censusColumn: string,
+  sourceColumn: string,
+  via: string | null,
+): LinkReport {
+  return {
+    source,
+    linkType,
+    censusColumn,
+    sourceColumn,
+    via,
+    matched: 0,
+    unmatchedCensusKeys: [],
+    unmatchedSourceKeys: [],
+    ambiguousKeys: [],
+    cardinality: null,
+    error: null,
+  }
+}
+
+// Load and join one state's census, Redfin and FRED rows at a level. Census rows are required; a Redfin
+// or FRED file or crosswalk that does not load, or does not exist at the level, leaves that link empty
+// with the reason in its report
+export async function joinGeographies(
+  stateAbbrev: string,
+  level: string,
+  loaders: JoinLoaders,
+  transport: DataTransport,
+  options: JoinOptions = {},
+): Promise<JoinResult> {
+  const { propertyTypeCode = ALL_RESIDENTIAL_CODE, ...loadOptions } = options
+  const stateFips = STATES[stateAbbrev]?.fredCode
+  if (!stateFips) throw new Error(`Unknown state: ${stateAbbrev}`)
+
+  const relationships = await loadLinkingRelationships(transport, loadOptions)
+  const linkType = LINK_TYPES[level]
+  const relationship = relationships.find((candidate) => candidate.linkType === linkType)
+  if (!relationship?.census) throw new Error(`linking_relationships.csv declares no census link for ${level} rows`)
+
+  const redfinLink = findSourceLink("redfin", level, relationship, relationships)
+  const fredLink = findSourceLink("fred", level, relationship, relationships)
+  if (!redfinLink && !fredLink) throw new Error(`No Redfin or FRED file links to ${level} rows`)
+  const crosswalk =
+    redfinLink?.relationship.redfin === "table_id"
+      ? REDFIN_CROSSWALKS[redfinLink.relationship.linkType]?.(stateAbbrev)
+      : undefined
+  const redfinLevel = redfinLink?.via ? "county" : level
+
+  const [census, redfin, fred, tableIds] = await Promise.all([
+    loaders.census(),
+    redfinLink ? settle(() => loaders.redfin(redfinLevel)) : null,
+    fredLink ? settle(() => loaders.fred()) : null,
+    crosswalk
+      ? settle(() =>
+          loadRedfinCrosswalk(
+            crosswalk,
+            stateAbbrev,
+            KEY_WIDTHS[redfinLink!.relationship.linkType],
+            transport,
+            loadOptions,
+          ),
+        )
+      : null,
+  ])
+
+  const report: JoinReport = {
+    stateCode: stateAbbrev,
+    level,
+    checkedAt: new Date().toISOString(),
+    geographies: 0,
+    unkeyedRows: 0,
+    duplicateKeys: [],
+    links: [],
+  }
+
+  // One record per geography; repeats of a key keep the first row
+  const records: JoinedRecord[] = []
+  const seen = new Set<string>()
+  census.forEach((row) => {
+    const key = censusKey(row, linkType, relationship.census!, stateFips)
+    if (key === null) {
+      report.unkeyedRows++
+    } else if (seen.has(key)) {
+      if (report.duplicateKeys.length < MAX_LISTED_KEYS) report.duplicateKeys.push(key)
+    } else {
+      seen.add(key)
+      records.push({ key, census: row, redfin: null, fred: null })
+    }
+  })
+  report.geographies = records.length
+  const keys = records.map((record) => record.key)
+  // Keys of a source's rows, e.g. the county FIPS of each ZIP for a county file
+  const keysFor = (link: SourceLink) =>
+    link.via
+      ? records.map((record) => censusKey(record.census, link.relationship.linkType, link.censusColumn, stateFips))
+      : keys
+
+
+  if (redfinLink && redfin) {
+    const redfinColumn = redfinLink.relationship.redfin!
+    const redfinLinkType = redfinLink.relationship.linkType
+    const via = [redfinLink.via, crosswalk ? `Index/${crosswalk.file}` : null].filter(Boolean).join(" and ")
+    const linkReport = emptyLinkReport("redfin", redfinLinkType, redfinLink.censusColumn, redfinColumn, via || null)
+    report.links.push(linkReport)
+
+    const error = redfin.error ?? tableIds?.error ?? null
+    if (error) {
+      linkReport.error = error
+      linkReport.unmatchedCensusKeys = keys.slice(0, MAX_LISTED_KEYS)
+    } else {
+      // Table ID -> geography code, when Redfin rows are reached through a crosswalk
+      const geographyOf = new Map<number, string>()
+      tableIds?.value?.forEach((tableId, key) => geographyOf.set(tableId, key))
+      const keyOf = (row: RedfinRow): string | null => {
+        if (crosswalk) return geographyOf.get(row.table_id) ?? null
+        const value = (row as Record<string, unknown>)[redfinColumn]
+        // Redfin names states by abbreviation where census files use FIPS codes
+        return STATES[String(value)]?.fredCode ?? padCode(value, KEY_WIDTHS[redfinLinkType] ?? 0)
+      }
+      const rows = latestRedfinRows(redfin.value!, propertyTypeCode)
+      const matches = linkRows(
+        keysFor(redfinLink),
+        rows,
+        keyOf,
+        (row) => String((row as Record<string, unknown>)[redfinColumn]),
+        linkReport,
+      )
+      matches.forEach((match, i) => (records[i].redfin = match))
+    }
+  }
+
+  if (fredLink && fred) {
+    const fredColumn = fredLink.relationship.fred!
+    const fredLinkType = fredLink.relationship.linkType
+    const linkReport = emptyLinkReport("fred", fredLinkType, fredLink.censusColumn, fredColumn, fredLink.via)
+    report.links.push(linkReport)
+
+    if (fred.error) {
+      linkReport.error = fred.error
+      linkReport.unmatchedCensusKeys = keys.slice(0, MAX_LISTED_KEYS)
+    } else {
+      const width = KEY_WIDTHS[fredLinkType] ?? 0
+      const matches = linkRows(
+        keysFor(fredLink),
+        fred.value!,
+        (row) => padCode((row as Record<string, unknown>)[fredColumn], width),
+        (row) => String((row as Record<string, unknown>)[fredColumn]),
+        linkReport,
+      )
+      matches.forEach((match, i) => (records[i].fred = match))
+    }
+  }
+
+  // Declared links without a file at this level, e.g. FRED for states, are reported rather than fetched
+  ;(["redfin", "fred"] as const).forEach((source) => {
+    const link = source === "redfin" ? redfinLink : fredLink
+    if (link || !relationship[source]) return
+    const linkReport = emptyLinkReport(source, linkType, relationship.census!, relationship[source]!, null)
+    linkReport.error = `no ${source === "redfin" ? "Redfin" : "FRED"} file at ${level} level`
+    linkReport.unmatchedCensusKeys = keys.slice(0, MAX_LISTED_KEYS)
+    report.links.push(linkReport)
+  })
+
+  return { records, report }
+}
+
+// One line for the console, e.g. "NV county join: 17 geographies; redfin via Index/csv/NV_county_data.csv
+// 14/17 one-to-one; fred 17/17 one-to-one"
+export function summarizeJoin(report: JoinReport): string {
+  const links = report.links.map((link) => {
+    const route = link.via ? ` via ${link.via}` : ""
+    if (link.error) return `${link.source}${route}: ${link.error}`
+    const extras = [
+      link.ambiguousKeys.length > 0 ? `${link.ambiguousKeys.length} ambiguous` : "",
+      link.unmatchedSourceKeys.length > 0 ? `${link.unmatchedSourceKeys.length} unmatched ${link.source} keys` : "",
+    ].filter(Boolean)
+    const detail = extras.length > 0 ? `, ${extras.join(", ")}` : ""
+    const cardinality = link.cardinality ? ` ${link.cardinality}` : ""
+    return `${link.source}${route} ${link.matched}/${report.geographies}${cardinality}${detail}`
+  })
+  return `${report.stateCode} ${report.level} join: ${report.geographies} geographies; ${links.join("; ")}`
+}
+
+export type {
+  Cardinality,
+  JoinedRecord,
+  JoinLoaders,
+  JoinOptions,
+  JoinReport,
+  JoinResult,
+  JoinSource,
+  LinkRelationship,
+  LinkReport,
+}
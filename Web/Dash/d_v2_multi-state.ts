@@ -0,0 +1,106 @@
+// multi-state.ts
+// Helpers for loading several states at once: a concurrency-limited task pool and merging of per-state
+// feature collections and rows, each record tagged with the state it was loaded for. Used by
+// DataService.loadStates and the opt loader's loadStatesWithCloudflare
+
+import { isAbortError, throwIfAborted, type LoadOptions } from "./fetch-policy"
+
+interface MultiStateOptions extends LoadOptions {
+  // Loads in flight at a time
+  concurrency?: number
+}
+
+// A file of one state that did not load; the other states are still merged
+interface StateLoadFailure {
+  stateCode: string
+  source: string
+  reason: string
+}
+
+// Added to every merged row and feature, as census rows only carry the state FIPS and
+// geometry often carries nothing at all
+export const STATE_TAG = "source_state"
+
+type StateTagged<T> = T & { source_state: string }
+
+// Files that can be loaded for each state
+type StateDataSource = "geojson" | "census" | "fred" | "redfin"
+
+export const ALL_STATE_SOURCES: StateDataSource[] = ["geojson", "census", "fred", "redfin"]
+
+const DEFAULT_CONCURRENCY = 4
+
+// Upper-cased, without duplicates, in the order given
+export function normalizeStateList(stateAbbrevs: string[]): string[] {
+  return Array.from(new Set(stateAbbrevs.map((state) => state.trim().toUpperCase()).filter(Boolean)))
+}
+
+// Run `task` for every item with at most `concurrency` running at once. Results keep the order of
+// `items`; the first failure rejects, and no further tasks start after it or after an abort
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  task: (item: T, index: number) => Promise<R>,
+  options: Pick<MultiStateOptions, "concurrency" | "signal"> = {},
+): Promise<R[]> {
+  const { signal } = options
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY))
+  const results = new Array<R>(items.length)
+  let next = 0
+  let failed = false
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length && !failed) {
+      throwIfAborted(signal)
+      const index = next++
+      try {
+        results[index] = await task(items[index], index)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runNext))
+  return results
+}
+
+// Run one state's load, turning a failure into a StateLoadFailure. Aborts are rethrown
+export async function settleStateLoad<T>(
+  stateCode: string,
+  source: string,
+  load: () => Promise<T>,
+  failures: StateLoadFailure[],
+): Promise<T | null> {
+  try {
+    return await load()
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    failures.push({ stateCode, source, reason: error instanceof Error ? error.message : String(error) })
+    return null
+  }
+}
+
+// Copies of the rows with the state they were loaded for
+export function tagRows<T extends object>(rows: readonly T[], stateCode: string): StateTagged<T>[] {
+  return rows.map((row) => ({ ...row, [STATE_TAG]: stateCode }) as StateTagged<T>)
+}
+
+// One feature collection with every state's features, each tagged in its properties. States without
+// geometry are skipped; null when none has any
+export function mergeFeatureCollections<C extends { features: any[] }>(
+  collections: Array<{ stateCode: string; geoJson: C | null }>,
+): C | null {
+  const loaded = collections.filter((entry) => entry.geoJson?.features)
+  if (loaded.length === 0) return null
+
+  const features = loaded.flatMap(({ stateCode, geoJson }) =>
+    geoJson!.features.map((feature) => ({
+      ...feature,
+      properties: { ...(feature.properties || {}), [STATE_TAG]: stateCode },
+    })),
+  )
+  return { ...loaded[0].geoJson!, features }
+}
+
+export type { MultiStateOptions, StateDataSource, StateLoadFailure, StateTagged }
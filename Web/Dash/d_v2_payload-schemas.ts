@@ -0,0 +1,299 @@
+// payload-schemas.ts
+// Schemas of the Census, FRED and Redfin data files and the row types derived from them.
+// Identifying columns are required and reject the row; measures are nullable and are set to null
+// when a value has the wrong type, so one bad cell does not drop a whole ZIP or month
+
+import {
+  codeField,
+  fields,
+  nullable,
+  numberField,
+  optional,
+  rowSchema,
+  stringField,
+  type FieldSchema,
+  type RowOf,
+} from "./schema"
+
+const nullableNumber = nullable(numberField())
+const nullableString = nullable(stringField())
+
+// Columns named {measure}{suffix}, e.g. median_dom_yoy
+function series<K extends string, X extends string>(
+  measures: readonly K[],
+  suffixes: readonly X[],
+): Record<`${K}${X}`, FieldSchema<number | null, false>> {
+  const names = measures.flatMap((measure) => suffixes.map((suffix) => `${measure}${suffix}` as `${K}${X}`))
+  return fields(names, nullableNumber)
+}
+
+// Cen_{State}_{state|county|zip}_2023_summary.json. Identifying columns differ by level: ZIP files have
+// zip and preferred_city, county files county_name, and state files may lack year and state
+export const censusSummarySchema = rowSchema("census_summary", {
+  geo_level: stringField(),
+  year: optional(codeField()),
+  state: optional(codeField()),
+  county: optional(codeField()),
+  geoid: optional(nullable(codeField())),
+  area_name: optional(stringField()),
+  parent_area: optional(nullableString),
+  state_name: optional(stringField()),
+  county_name: optional(stringField()),
+  zip: optional(stringField()),
+  preferred_city: optional(stringField()),
+  primary_county: optional(codeField()),
+  primary_county_name: optional(stringField()),
+
+  ...fields(
+    [
+      "population_total",
+      "population_male",
+      "population_female",
+      "population_male_percent",
+      "population_female_percent",
+      "pop_under_19",
+      "pop_20_29",
+      "pop_30_39",
+      "pop_40_49",
+      "pop_50_59",
+      "pop_60_69",
+      "pop_over_70",
+      "pct_under_19",
+      "pct_20_29",
+      "pct_30_39",
+      "pct_40_49",
+      "pct_50_59",
+      "pct_60_69",
+      "pct_over_70",
+      "pct_white",
+      "pct_black",
+      "pct_asian",
+      "pct_native",
+      "pct_pacific",
+      "pct_other",
+      "pct_multiracial",
+      "predominant_race_pct",
+      "second_predominant_race_pct",
+    ] as const,
+    nullableNumber,
+  ),
+  ...fields(
+    [
+      "education_below_highschool_pct",
+      "education_college_pct",
+      "education_advanced_pct",
+      "education_higher_education_pct",
+    ] as const,
+    nullableNumber,
+  ),
+  ...fields(
+    [
+      "housing_total_units",
+      "housing_occupied_units",
+      "housing_vacant_units",
+      "housing_owner_occupied",
+      "housing_renter_occupied",
+      "housing_occupancy_rate",
+      "housing_vacancy_rate",
+      "housing_ownership_rate",
+      "housing_rental_rate",
+      "housing_single_family_pct",
+      "housing_small_multi_pct",
+      "housing_medium_multi_pct",
+      "housing_large_multi_pct",
+      "housing_other_pct",
+      "housing_pre_1960_pct",
+      "housing_1960_1980_pct",
+      "housing_1980_2000_pct",
+      "housing_2000_2020_pct",
+      "housing_after_2020_pct",
+      "housing_median_value",
+      "housing_value_under_100K_pct",
+      "housing_value_100K_200K_pct",
+      "housing_value_200K_300K_pct",
+      "housing_value_300K_400K_pct",
+      "housing_value_400K_500K_pct",
+      "housing_value_500K_750K_pct",
+      "housing_value_750K_1M_pct",
+      "housing_value_above_1M_pct",
+      "rental_median_rent",
+      "rental_studio",
+      "rental_1br",
+      "rental_2br",
+      "rental_3br",
+      "rental_4br",
+    ] as const,
+    nullableNumber,
+  ),
+  ...fields(
+    [
+      "income_median",
+      "income_median_owners",
+      "income_median_renters",
+      "income_below_30K_pct",
+      "income_30K_50K_pct",
+      "income_50K_75K_pct",
+      "income_75K_100K_pct",
+      "income_100K_150K_pct",
+      "income_above_150K_pct",
+      "employment_unemployment_rate",
+      "employment_labor_force_participation",
+      "employment_govt_pct",
+      "employment_private_pct",
+      "employment_self_pct",
+      "poverty_rate",
+      "household_family_pct",
+      "household_nonfamily_pct",
+      "migration_stability",
+      "migration_new_residents",
+      "investment_grm",
+      "investment_cap_rate",
+      "investment_annual_expenses",
+      "investment_gross_cap_rate",
+      "investment_value_to_income",
+    ] as const,
+    nullableNumber,
+  ),
+  // Classifications, e.g. "Predominantly Owner-Occupied"
+  ...fields(
+    [
+      "population_description",
+      "demographic_profile",
+      "predominant_race",
+      "second_predominant_race",
+      "education_level",
+      "vacancy_description",
+      "primary_building_type",
+      "development_pattern",
+      "home_value_description",
+      "rent_level",
+      "income_level",
+      "income_profile",
+      "unemployment_summary",
+      "employment_sector_summary",
+      "poverty_summary",
+      "grm_description",
+      "cap_rate_description",
+      "affordability",
+    ] as const,
+    nullableString,
+  ),
+})
+
+// Cen_{State}_tract_{county|zip}_2023_lean.json. The ZIP file has one row per tract and ZIP pair
+export const tractLeanSchema = rowSchema("tract_lean", {
+  GEOID: codeField(),
+  year: codeField(),
+  state: codeField(),
+  county: codeField(),
+  tract: codeField(),
+  county_name: nullableString,
+  zip: optional(codeField()),
+  preferred_city: optional(stringField()),
+  preferred_state: optional(stringField()),
+
+  ...fields(["predominant_race_pct", "housing_occupancy_rate", "rental_2br", "rental_3br"] as const, nullableNumber),
+  ...fields(
+    [
+      "population_description",
+      "predominant_race",
+      "demographic_profile",
+      "education_level",
+      "vacancy_description",
+      "primary_building_type",
+      "home_value_description",
+      "rent_level",
+      "income_level",
+      "unemployment_summary",
+      "poverty_summary",
+      "affordability",
+    ] as const,
+    nullableString,
+  ),
+  // Not in every state's files
+  ...fields(["employment_sector_summary", "grm_description", "cap_rate_description"] as const, optional(nullableString)),
+})
+
+// fred_counties_{fips}.json: each measure with its year-over-year change, 2020 value and change since 2020
+export const fredCountySchema = rowSchema("fred_county", {
+  county_fips: codeField(),
+  state_fips: codeField(),
+  county_name: nullableString,
+  data_year: nullableNumber,
+
+  ...series(
+    [
+      "median_list_price",
+      "median_list_psqt",
+      "median_home_sqft",
+      "active_listing_count",
+      "median_day_market",
+      "labor_participation",
+      "ump",
+      "homeownership_rate",
+      "bld_perm_units",
+      "total_population",
+      "median_household_income",
+      "per_capita_personal_income",
+      "people_poverty",
+      "bachelors_degree",
+      "gdp",
+      "house_price_index",
+    ] as const,
+    ["", "_yoy_pct", "_2020", "_since_2020_pct"] as const,
+  ),
+  ...fields(["affordability_index", "economic_strength_index", "market_heat_score"] as const, nullableNumber),
+})
+
+// redfin_{ST}_{level}.json: one row per table ID, property type and month
+export const redfinRowSchema = rowSchema("redfin", {
+  table_id: numberField(),
+  property_type_id: numberField(),
+  period_begin: stringField(),
+  period_end: stringField(),
+  region: stringField(),
+  state_code: stringField(),
+  state: nullableString,
+  city: nullableString,
+  region_type: nullableString,
+  region_type_id: nullableNumber,
+  property_type: nullableString,
+  period_duration: nullableNumber,
+  year: nullableNumber,
+  month: nullableNumber,
+
+  ...series(
+    [
+      "median_sale_price",
+      "median_list_price",
+      "median_ppsf",
+      "homes_sold",
+      "pending_sales",
+      "new_listings",
+      "inventory",
+      "months_of_supply",
+      "median_dom",
+      "avg_sale_to_list",
+    ] as const,
+    ["", "_mom", "_yoy", "_2020", "_change"] as const,
+  ),
+  ...series(
+    ["median_list_ppsf", "sold_above_list", "price_drops", "off_market_in_two_weeks"] as const,
+    ["", "_mom", "_yoy"] as const,
+  ),
+
+  parent_metro_region: nullableString,
+  parent_metro_region_metro_code: nullableNumber,
+  is_seasonally_adjusted: nullableString,
+  last_updated: nullableString,
+  region_2020: nullableString,
+  state_code_2020: nullableString,
+  property_type_2020: nullableString,
+})
+
+type CensusSummaryRow = RowOf<typeof censusSummarySchema>
+type TractLeanRow = RowOf<typeof tractLeanSchema>
+type FredCountyRow = RowOf<typeof fredCountySchema>
+type RedfinRow = RowOf<typeof redfinRowSchema>
+
+export type { CensusSummaryRow, FredCountyRow, RedfinRow, TractLeanRow }
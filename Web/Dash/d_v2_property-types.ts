@@ -0,0 +1,25 @@
+// property-types.ts
+// Redfin property types, keyed by the code used in property_type_id and UnifiedLocation.propertyTypes
+
+// Redfin property types by property_type_id
+export const REDFIN_PROPERTY_TYPES: Record<string, string> = {
+  "-1": "All Residential",
+  "6": "Single Family Residential",
+  "13": "Townhouse",
+  "3": "Condo/Co-op",
+  "4": "Multi-Family (2-4 Unit)",
+}
+
+export const ALL_RESIDENTIAL_CODE = "-1"
+
+// Types kept when Redfin rows are trimmed for map views
+export const ESSENTIAL_PROPERTY_TYPE_CODES = ["-1", "6", "13"]
+
+// Keep only the Redfin rows of the given property types
+export function filterRowsByPropertyType<T extends { property_type_id?: string | number | null }>(
+  rows: T[],
+  propertyTypeCodes: string[],
+): T[] {
+  const codes = new Set(propertyTypeCodes)
+  return rows.filter((row) => row.property_type_id !== undefined && codes.has(String(row.property_type_id)))
+}
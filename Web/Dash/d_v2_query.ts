@@ -0,0 +1,265 @@
+// query.ts
+// A small query layer over loaded rows: where, select, orderBy, groupBy with aggregates and limit, by
+// column name. Queries are immutable and only run when rows(), first(), count() or aggregate() is called:
+//   const nv = await dataService.queryCensus("NV", "zip")
+//   nv.where("income_median", ">", 70000).orderBy("investment_cap_rate", "desc").limit(10).rows()
+// DataService rows already use canonical column names (see column-normalizer.ts). Nothing here needs the
+// DOM, so map pages and Node scripts can query their rows with query(rows) as well
+
+type Operator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "in" | "between" | "contains"
+
+type Direction = "asc" | "desc"
+
+type ColumnOf<T> = Extract<keyof T, string>
+
+type Aggregate =
+  // Rows, or rows where the column has a value
+  | { kind: "count"; column: string | null }
+  | { kind: "sum"; column: string }
+  // Rows without a numeric weight are left out
+  | { kind: "mean"; column: string; weight: string | null }
+  // p from 0 to 100, interpolated between the closest values
+  | { kind: "percentile"; column: string; p: number }
+
+type AggregateSpec = Record<string, Aggregate>
+
+// Null where no row had a numeric value, as with SQL aggregates
+type AggregateRow<A extends AggregateSpec> = { [K in keyof A]: number | null }
+
+interface SortKey {
+  column: string
+  direction: Direction
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== null && value !== undefined
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value)
+}
+
+function valueOf(row: object, column: string): unknown {
+  return (row as Record<string, unknown>)[column]
+}
+
+// Codes are numbers in some files and strings in others, so 89501 equals "89501"
+function equals(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  const scalar = (value: unknown) => typeof value === "string" || typeof value === "number"
+  return scalar(a) && scalar(b) && String(a) === String(b)
+}
+
+// Numbers with numbers, strings with strings; null for anything else
+function compare(a: unknown, b: unknown): number | null {
+  if (isNumber(a) && isNumber(b)) return a - b
+  if (typeof a === "string" && typeof b === "string") return a < b ? -1 : a > b ? 1 : 0
+  return null
+}
+
+function matches(value: unknown, operator: Operator, operand: unknown): boolean {
+  switch (operator) {
+    case "=":
+      return equals(value, operand) || (!hasValue(value) && !hasValue(operand))
+    case "!=":
+      return !matches(value, "=", operand)
+    case "in":
+      return Array.isArray(operand) && operand.some((item) => equals(value, item))
+    case "between": {
+      if (!Array.isArray(operand) || operand.length !== 2) throw new Error('"between" takes [low, high]')
+      const [low, high] = operand.map((bound) => compare(value, bound))
+      return low !== null && high !== null && low >= 0 && high <= 0
+    }
+    case "contains":
+      return typeof value === "string" && value.toLowerCase().includes(String(operand).toLowerCase())
+  }
+  const order = compare(value, operand)
+  if (order === null) return false
+  if (operator === ">") return order > 0
+  if (operator === ">=") return order >= 0
+  if (operator === "<") return order < 0
+  return order <= 0
+}
+
+// Missing values sort last in either direction
+function sortRows<T extends object>(rows: T[], keys: SortKey[]): T[] {
+  return [...rows].sort((a, b) => {
+    for (const { column, direction } of keys) {
+      const left = valueOf(a, column)
+      const right = valueOf(b, column)
+      if (!hasValue(left) || !hasValue(right)) {
+        if (hasValue(left) !== hasValue(right)) return hasValue(left) ? -1 : 1
+        continue
+      }
+      const order = compare(left, right) ?? String(left).localeCompare(String(right))
+      if (order !== 0) return direction === "asc" ? order : -order
+    }
+    return 0
+  })
+}
+
+function numbersIn(rows: readonly object[], column: string): number[] {
+  return rows.map((row) => valueOf(row, column)).filter(isNumber)
+}
+
+function percentileOf(values: number[], p: number): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const position = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1)
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+function computeAggregate(rows: readonly object[], aggregate: Aggregate): number | null {
+  switch (aggregate.kind) {
+    case "count": {
+      const { column } = aggregate
+      return column === null ? rows.length : rows.filter((row) => hasValue(valueOf(row, column))).length
+    }
+    case "sum": {
+      const values = numbersIn(rows, aggregate.column)
+      return values.length > 0 ? values.reduce((total, value) => total + value, 0) : null
+    }
+    case "mean": {
+      const { column, weight } = aggregate
+      let weightedTotal = 0
+      let totalWeight = 0
+      rows.forEach((row) => {
+        const value = valueOf(row, column)
+        const rowWeight = weight === null ? 1 : valueOf(row, weight)
+        if (!isNumber(value) || !isNumber(rowWeight)) return
+        weightedTotal += value * rowWeight
+        totalWeight += rowWeight
+      })
+      return totalWeight !== 0 ? weightedTotal / totalWeight : null
+    }
+    case "percentile":
+      return percentileOf(numbersIn(rows, aggregate.column), aggregate.p)
+  }
+}
+
+function aggregateRows<A extends AggregateSpec>(rows: readonly object[], spec: A): AggregateRow<A> {
+  return Object.fromEntries(
+    Object.entries(spec).map(([name, aggregate]) => [name, computeAggregate(rows, aggregate)]),
+  ) as AggregateRow<A>
+}
+
+export function count(column: string | null = null): Aggregate {
+  return { kind: "count", column }
+}
+
+export function sum(column: string): Aggregate {
+  return { kind: "sum", column }
+}
+
+export function mean(column: string): Aggregate {
+  return { kind: "mean", column, weight: null }
+}
+
+// e.g. weightedMean("income_median", "population_total") for an income figure across ZIPs
+export function weightedMean(column: string, weight: string): Aggregate {
+  return { kind: "mean", column, weight }
+}
+
+export function percentile(column: string, p: number): Aggregate {
+  return { kind: "percentile", column, p }
+}
+
+export function median(column: string): Aggregate {
+  return percentile(column, 50)
+}
+
+export class RowQuery<T extends object> {
+  constructor(
+    private readonly source: () => T[],
+    // Applied together when the query runs, so orderBy("a").orderBy("b") sorts by a, then b
+    private readonly sortKeys: SortKey[] = [],
+  ) {}
+
+  where(predicate: (row: T) => boolean): RowQuery<T>
+  where(column: ColumnOf<T>, operator: Operator, operand: unknown): RowQuery<T>
+  where(
+    columnOrPredicate: ColumnOf<T> | ((row: T) => boolean),
+    operator?: Operator,
+    operand?: unknown,
+  ): RowQuery<T> {
+    const predicate =
+      typeof columnOrPredicate === "function"
+        ? columnOrPredicate
+        : (row: T) => matches(row[columnOrPredicate], operator!, operand)
+    return this.pipe((rows) => rows.filter(predicate))
+  }
+
+  orderBy(column: ColumnOf<T>, direction: Direction = "asc"): RowQuery<T> {
+    return new RowQuery(this.source, [...this.sortKeys, { column, direction }])
+  }
+
+  limit(count: number, offset = 0): RowQuery<T> {
+    return this.pipe((rows) => rows.slice(offset, offset + count))
+  }
+
+  select<K extends ColumnOf<T>>(...columns: K[]): RowQuery<Pick<T, K>> {
+    return this.pipe((rows) =>
+      rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column]])) as Pick<T, K>),
+    )
+  }
+
+  groupBy<K extends ColumnOf<T>>(...columns: K[]): GroupedQuery<T, K> {
+    return new GroupedQuery(() => this.rows(), columns)
+  }
+
+  rows(): T[] {
+    const rows = this.source()
+    return this.sortKeys.length > 0 ? sortRows(rows, this.sortKeys) : rows
+  }
+
+  first(): T | null {
+    return this.rows()[0] ?? null
+  }
+
+  count(): number {
+    return this.rows().length
+  }
+
+  // Aggregates over every row the query returns
+  aggregate<A extends AggregateSpec>(spec: A): AggregateRow<A> {
+    return aggregateRows(this.rows(), spec)
+  }
+
+  private pipe<R extends object>(step: (rows: T[]) => R[]): RowQuery<R> {
+    return new RowQuery(() => step(this.rows()))
+  }
+}
+
+// Rows grouped by the values of some columns, in order of first appearance
+export class GroupedQuery<T extends object, K extends ColumnOf<T>> {
+  constructor(
+    private readonly source: () => T[],
+    private readonly columns: K[],
+  ) {}
+
+  // One row per group: the group columns and the named aggregates, queryable like any other rows
+  aggregate<A extends AggregateSpec>(spec: A): RowQuery<Pick<T, K> & AggregateRow<A>> {
+    return new RowQuery(() => {
+      const groups = new Map<string, T[]>()
+      this.source().forEach((row) => {
+        const key = JSON.stringify(this.columns.map((column) => row[column] ?? null))
+        const group = groups.get(key)
+        if (group) group.push(row)
+        else groups.set(key, [row])
+      })
+      return Array.from(groups.values()).map((group) => {
+        const keys = Object.fromEntries(this.columns.map((column) => [column, group[0][column]])) as Pick<T, K>
+        return { ...keys, ...aggregateRows(group, spec) }
+      })
+    })
+  }
+}
+
+// A query over rows already in hand, e.g. a map page's tract rows or loadStates' merged rows
+export function query<T extends object>(rows: readonly T[]): RowQuery<T> {
+  return new RowQuery(() => [...rows])
+}
+
+export type { Aggregate, AggregateRow, AggregateSpec, ColumnOf, Direction, Operator }
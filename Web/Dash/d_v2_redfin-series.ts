@@ -0,0 +1,198 @@
+// redfin-series.ts
+// Monthly series from Redfin rows: one series per table ID and property type for any metric column, over
+// a range of months, with missing months marked as gaps and month-over-month and year-over-year changes
+// derived from the series itself. Redfin files hold one row per table ID, property type and month
+
+import type { RedfinRow } from "./payload-schemas"
+
+// Numeric Redfin columns, e.g. median_sale_price, inventory or median_dom, and their published changes
+type RedfinMetric = Exclude<
+  {
+    [K in keyof RedfinRow]-?: NonNullable<RedfinRow[K]> extends number ? K : never
+  }[keyof RedfinRow],
+  | "table_id"
+  | "property_type_id"
+  | "region_type_id"
+  | "period_duration"
+  | "year"
+  | "month"
+  | "parent_metro_region_metro_code"
+>
+
+interface SeriesPoint {
+  // "2025-04"
+  month: string
+  periodBegin: string | null
+  periodEnd: string | null
+  // Null for a gap, or a month whose row has no value
+  value: number | null
+  // Changes as fractions of the earlier value, e.g. 0.05 for +5%; null when either month has no value.
+  // Redfin's own _mom and _yoy columns are differences for some metrics (median_dom, months_of_supply)
+  mom: number | null
+  yoy: number | null
+  // No row for this month
+  gap: boolean
+}
+
+// Consecutive months without a row
+interface SeriesGap {
+  from: string
+  to: string
+  months: number
+}
+
+interface RedfinSeries {
+  tableId: number
+  propertyTypeId: number
+  region: string
+  metric: RedfinMetric
+  // Every month from the first to the last in range, gaps included
+  points: SeriesPoint[]
+  gaps: SeriesGap[]
+  // Rows for a month that already had one; the most recently updated is kept
+  duplicates: number
+}
+
+interface SeriesOptions {
+  tableIds?: number[]
+  // Property type IDs as codes, e.g. ["-1", "6"]
+  propertyTypeCodes?: string[]
+  // First and last month to include, "2024-01" or any date in that month
+  from?: string
+  to?: string
+}
+
+// "2025-04-30" -> "2025-04"
+function monthOf(date: string): string {
+  return date.slice(0, 7)
+}
+
+function monthIndex(month: string): number {
+  const [year, monthNumber] = month.split("-").map(Number)
+  return year * 12 + monthNumber - 1
+}
+
+function monthAt(index: number): string {
+  const year = Math.floor(index / 12)
+  return `${year}-${String((index % 12) + 1).padStart(2, "0")}`
+}
+
+// The row's month, from year and month where present and the period end otherwise
+function rowMonth(row: RedfinRow): string | null {
+  if (row.year && row.month) return monthAt(row.year * 12 + row.month - 1)
+  return /^\d{4}-\d{2}/.test(row.period_end) ? monthOf(row.period_end) : null
+}
+
+function change(value: number | null, earlier: number | null): number | null {
+  if (value === null || earlier === null || earlier === 0) return null
+  return value / earlier - 1
+}
+
+// Changes are derived over every month the rows have, so the first months of a range still get them
+function buildSeries(rows: RedfinRow[], metric: RedfinMetric, from: number | null, to: number | null): RedfinSeries {
+  const byMonth = new Map<number, RedfinRow>()
+  let duplicates = 0
+  rows.forEach((row) => {
+    const month = rowMonth(row)
+    if (!month) return
+    const index = monthIndex(month)
+    const current = byMonth.get(index)
+    if (current) {
+      duplicates++
+      if ((row.last_updated ?? "") < (current.last_updated ?? "")) return
+    }
+    byMonth.set(index, row)
+  })
+
+  const indexes = Array.from(byMonth.keys())
+  const first = Math.max(Math.min(...indexes), from ?? -Infinity)
+  const last = Math.min(Math.max(...indexes), to ?? Infinity)
+  const valueAt = (index: number): number | null => {
+    const raw = byMonth.get(index)?.[metric]
+    return typeof raw === "number" && Number.isFinite(raw) ? raw : null
+  }
+
+  const points: SeriesPoint[] = []
+  const gaps: SeriesGap[] = []
+  for (let index = first; index <= last; index++) {
+    const row = byMonth.get(index)
+    const value = valueAt(index)
+    points.push({
+      month: monthAt(index),
+      periodBegin: row?.period_begin ?? null,
+      periodEnd: row?.period_end ?? null,
+      value,
+      mom: change(value, valueAt(index - 1)),
+      yoy: change(value, valueAt(index - 12)),
+      gap: !row,
+    })
+    if (row) continue
+
+    const previous = gaps[gaps.length - 1]
+    if (previous && monthIndex(previous.to) === index - 1) {
+      previous.to = monthAt(index)
+      previous.months++
+    } else {
+      gaps.push({ from: monthAt(index), to: monthAt(index), months: 1 })
+    }
+  }
+
+  const sample = rows[0]
+  return {
+    tableId: sample.table_id,
+    propertyTypeId: sample.property_type_id,
+    region: sample.region,
+    metric,
+    points,
+    gaps,
+    duplicates,
+  }
+}
+
+// One series per table ID and property type in the rows, ordered by table ID then property type
+export function buildRedfinSeries(
+  rows: RedfinRow[],
+  metric: RedfinMetric,
+  options: SeriesOptions = {},
+): RedfinSeries[] {
+  const tableIds = options.tableIds ? new Set(options.tableIds) : null
+  const propertyTypes = options.propertyTypeCodes ? new Set(options.propertyTypeCodes) : null
+  const from = options.from ? monthIndex(monthOf(options.from)) : null
+  const to = options.to ? monthIndex(monthOf(options.to)) : null
+
+  const groups = new Map<string, RedfinRow[]>()
+  rows.forEach((row) => {
+    if (tableIds && !tableIds.has(row.table_id)) return
+    if (propertyTypes && !propertyTypes.has(String(row.property_type_id))) return
+    const key = `${row.table_id}:${row.property_type_id}`
+    groups.set(key, [...(groups.get(key) || []), row])
+  })
+
+  return Array.from(groups.values())
+    .map((group) => buildSeries(group, metric, from, to))
+    .filter((series) => series.points.length > 0)
+    .sort((a, b) => a.tableId - b.tableId || a.propertyTypeId - b.propertyTypeId)
+}
+
+// The last month of a series with a value
+export function latestPoint(series: RedfinSeries): SeriesPoint | null {
+  for (let i = series.points.length - 1; i >= 0; i--) {
+    if (series.points[i].value !== null) return series.points[i]
+  }
+  return null
+}
+
+// Table ID -> point for one month, or each series' latest, e.g. to shade map regions by a month's value.
+// Expects one property type per table ID; later series overwrite earlier ones
+export function pointsByTableId(seriesList: RedfinSeries[], month?: string): Map<number, SeriesPoint> {
+  const points = new Map<number, SeriesPoint>()
+  seriesList.forEach((series) => {
+    const point = month
+      ? series.points.find((candidate) => candidate.month === monthOf(month))
+      : latestPoint(series)
+    if (point) points.set(series.tableId, point)
+  })
+  return points
+}
+
+export type { RedfinMetric, RedfinSeries, SeriesGap, SeriesOptions, SeriesPoint }
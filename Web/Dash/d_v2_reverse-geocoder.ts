@@ -0,0 +1,235 @@
+// reverse-geocoder.ts
+// Point-in-polygon reverse geocoding against the Index/geojson geometry files
+
+import { resolveGeoJsonPath } from "./file-path-resolver"
+import { getDefaultTransport, type DataTransport } from "./data-transport"
+import { fetchWithRetry, isAbortError, whenNotAborted, type LoadOptions } from "./fetch-policy"
+import { extractSimpleFeatureId } from "@/utils/simple-data-mapping"
+import { extractTractFeatureId } from "@/utils/tract-data-mapping"
+
+type GeocodeLevel = "county" | "zip" | "tract"
+
+// Polygon rings as [lon, lat] pairs; the first ring is the outer boundary, the rest are holes
+type PolygonRings = number[][][]
+
+interface PreparedFeature {
+  id: string
+  name: string | null
+  bbox: [number, number, number, number] // [minLon, minLat, maxLon, maxLat]
+  polygons: PolygonRings[]
+}
+
+interface ReverseGeocodeResult {
+  stateCode: string
+  countyFips: string | null
+  countyName: string | null
+  zcta: string | null
+  tractGeoid: string | null
+  // Levels whose geometry file could not be loaded for this state
+  missingLevels: GeocodeLevel[]
+}
+
+const GEOCODE_LEVELS: GeocodeLevel[] = ["county", "zip", "tract"]
+
+// Ray casting test for a single ring
+function pointInRing(lon: number, lat: number, ring: number[][]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    const intersects = yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi
+    if (intersects) inside = !inside
+  }
+  return inside
+}
+
+function pointInPolygon(lon: number, lat: number, rings: PolygonRings): boolean {
+  if (rings.length === 0 || !pointInRing(lon, lat, rings[0])) return false
+  // Inside the outer ring but also inside a hole means outside
+  return !rings.slice(1).some((hole) => pointInRing(lon, lat, hole))
+}
+
+// Normalize Polygon / MultiPolygon geometry into a list of polygons
+function extractPolygons(geometry: any): PolygonRings[] {
+  if (!geometry?.coordinates) return []
+  if (geometry.type === "Polygon") return [geometry.coordinates]
+  if (geometry.type === "MultiPolygon") return geometry.coordinates
+  return []
+}
+
+function computeBbox(polygons: PolygonRings[]): [number, number, number, number] {
+  let minLon = Infinity
+  let minLat = Infinity
+  let maxLon = -Infinity
+  let maxLat = -Infinity
+
+  polygons.forEach((rings) => {
+    // Holes never extend past the outer ring, so only the outer ring matters
+    rings[0]?.forEach(([lon, lat]) => {
+      if (lon < minLon) minLon = lon
+      if (lon > maxLon) maxLon = lon
+      if (lat < minLat) minLat = lat
+      if (lat > maxLat) maxLat = lat
+    })
+  })
+
+  return [minLon, minLat, maxLon, maxLat]
+}
+
+function extractFeatureId(feature: any, level: GeocodeLevel): string | null {
+  if (level === "tract") return extractTractFeatureId(feature)
+  return extractSimpleFeatureId(feature, level)
+}
+
+function extractFeatureName(feature: any): string | null {
+  const props = feature?.properties || {}
+  return props.NAMELSAD || props.county_name || props.NAME || props.region || null
+}
+
+export class ReverseGeocoder {
+  // Cache the in-flight promise so concurrent lookups share one download per file
+  private layers = new Map<string, Promise<PreparedFeature[] | null>>()
+
+  constructor(private explicitTransport?: DataTransport) {}
+
+  private get transport(): DataTransport {
+    return this.explicitTransport ?? getDefaultTransport()
+  }
+
+  // Load and prepare the geometry for one state and level (null when the file is unavailable)
+  loadLayer(stateCode: string, level: GeocodeLevel, options: LoadOptions = {}): Promise<PreparedFeature[] | null> {
+    const cacheKey = `${stateCode}-${level}`
+    const cached = this.layers.get(cacheKey)
+    if (cached) {
+      return whenNotAborted(cached, options.signal).catch((error) => {
+        // The lookup that started the load cancelled it; start it again for this one
+        if (isAbortError(error) && !options.signal?.aborted) return this.loadLayer(stateCode, level, options)
+        throw error
+      })
+    }
+
+    const pending = this.fetchLayer(stateCode, level, options)
+    this.layers.set(cacheKey, pending)
+    // Only a cancelled load rejects; it is not kept
+    pending.catch(() => {
+      if (this.layers.get(cacheKey) === pending) this.layers.delete(cacheKey)
+    })
+    return pending
+  }
+
+  // Find the county, ZCTA and tract containing a point within a single state
+  async locate(lat: number, lon: number, stateCode: string, options: LoadOptions = {}): Promise<ReverseGeocodeResult> {
+    const result: ReverseGeocodeResult = {
+      stateCode,
+      countyFips: null,
+      countyName: null,
+      zcta: null,
+      tractGeoid: null,
+      missingLevels: [],
+    }
+
+    const layers = await Promise.all(GEOCODE_LEVELS.map((level) => this.loadLayer(stateCode, level, options)))
+
+    GEOCODE_LEVELS.forEach((level, index) => {
+      const features = layers[index]
+      if (!features) {
+        result.missingLevels.push(level)
+        return
+      }
+
+      const match = this.findContaining(features, lat, lon)
+      if (!match) return
+
+      if (level === "county") {
+        result.countyFips = match.id
+        result.countyName = match.name
+      } else if (level === "zip") {
+        result.zcta = match.id
+      } else {
+        result.tractGeoid = match.id
+      }
+    })
+
+    // A tract GEOID starts with the 5-digit county FIPS, which covers states without county geometry
+    if (!result.countyFips && result.tractGeoid && result.tractGeoid.length === 11) {
+      result.countyFips = result.tractGeoid.slice(0, 5)
+    }
+
+    return result
+  }
+
+  // Try each candidate state in order and return the first one containing the point
+  async reverseGeocode(
+    lat: number,
+    lon: number,
+    candidateStates: string[],
+    options: LoadOptions = {},
+  ): Promise<ReverseGeocodeResult | null> {
+    for (const stateCode of candidateStates) {
+      const result = await this.locate(lat, lon, stateCode, options)
+      if (result.countyFips || result.zcta || result.tractGeoid) {
+        return result
+      }
+    }
+    return null
+  }
+
+  clearCache(): void {
+    this.layers.clear()
+  }
+
+  private findContaining(features: PreparedFeature[], lat: number, lon: number): PreparedFeature | null {
+    for (const feature of features) {
+      const [minLon, minLat, maxLon, maxLat] = feature.bbox
+      if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) continue
+
+      if (feature.polygons.some((rings) => pointInPolygon(lon, lat, rings))) {
+        return feature
+      }
+    }
+    return null
+  }
+
+  private async fetchLayer(
+    stateCode: string,
+    level: GeocodeLevel,
+    options: LoadOptions,
+  ): Promise<PreparedFeature[] | null> {
+    try {
+      const url = resolveGeoJsonPath(stateCode, level, this.transport)
+      const response = await fetchWithRetry(this.transport, url, options)
+      if (!response.ok) {
+        console.log(`⚠️ No ${level} geometry for ${stateCode} (${response.status})`)
+        return null
+      }
+
+      const geoJson = await response.json()
+      const features: any[] = geoJson?.features || []
+      const prepared: PreparedFeature[] = []
+
+      features.forEach((feature) => {
+        const id = extractFeatureId(feature, level)
+        const polygons = extractPolygons(feature.geometry)
+        if (!id || polygons.length === 0) return
+
+        prepared.push({
+          id,
+          name: extractFeatureName(feature),
+          bbox: computeBbox(polygons),
+          polygons,
+        })
+      })
+
+      console.log(`🧭 Prepared ${prepared.length} ${level} polygons for ${stateCode}`)
+      return prepared
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      console.error(`❌ Error loading ${level} geometry for ${stateCode}:`, error)
+      return null
+    }
+  }
+}
+
+// Export singleton instance
+export const reverseGeocoder = new ReverseGeocoder()
+export type { GeocodeLevel, ReverseGeocodeResult }
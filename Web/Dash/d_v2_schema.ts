@@ -0,0 +1,267 @@
+// schema.ts
+// Declared row schemas for data file payloads, checked when a file is loaded. Problems are collected
+// per row into a validation report instead of surfacing later as undefined values in charts and maps.
+// Row types are derived from the schemas with RowOf, so the schema is the one place a column is declared
+
+// "code" is for FIPS codes, ZIPs and years, written as numbers in some files and strings in others
+type FieldKind = "string" | "number" | "code"
+
+type FieldValue = string | number | null
+
+interface FieldSchema<T = FieldValue, Optional extends boolean = boolean> {
+  kind: FieldKind
+  // Null is a valid value, and a wrong or missing value is replaced with null instead of rejecting the row
+  nullable: boolean
+  // The column may be absent, e.g. ZIP columns in a county file
+  optional: Optional
+  // Carries the field's type for RowOf; never set
+  readonly valueType?: T
+}
+
+type FieldShape = Record<string, FieldSchema>
+
+interface RowSchema<S extends FieldShape = FieldShape> {
+  name: string
+  fields: S
+}
+
+type OptionalKeys<S extends FieldShape> = {
+  [K in keyof S]: S[K] extends FieldSchema<unknown, true> ? K : never
+}[keyof S]
+
+type ValueOf<F> = F extends FieldSchema<infer T> ? T : never
+
+// The row type a schema describes. Columns a schema does not declare are kept on the rows but not typed
+type RowOf<R extends RowSchema> =
+  R extends RowSchema<infer S>
+    ? {
+        [K in Exclude<keyof S, OptionalKeys<S>>]: ValueOf<S[K]>
+      } & {
+        [K in OptionalKeys<S>]?: ValueOf<S[K]>
+      }
+    : never
+
+// Any validated row, for code that reads columns by name (map metrics, join keys)
+type PayloadRow = Record<string, FieldValue | undefined>
+
+type IssueProblem = "not_an_object" | "missing" | "wrong_type"
+
+interface SchemaIssue {
+  row: number // Position in the payload
+  field: string | null // Null when the row itself is not an object
+  problem: IssueProblem
+  expected: string
+  received: string
+  // Rejected rows are dropped; nullable fields are set to null and the row is kept
+  action: "rejected" | "set_null"
+}
+
+interface ValidationReport {
+  source: string // File the rows came from
+  schema: string
+  checkedAt: string
+  rows: number
+  valid: number
+  repaired: number
+  rejected: number
+  issueCount: number
+  // Issues per field, e.g. { median_dom: 3 }; "(row)" counts rows that are not objects
+  fieldIssues: Record<string, number>
+  // The first MAX_LISTED_ISSUES issues; issueCount has them all
+  issues: SchemaIssue[]
+}
+
+interface ValidationResult<T> {
+  rows: T[]
+  report: ValidationReport
+}
+
+// Issues kept per report, so a file with a renamed column does not hold one issue per row
+const MAX_LISTED_ISSUES = 100
+
+function field<T>(kind: FieldKind): FieldSchema<T, false> {
+  return { kind, nullable: false, optional: false }
+}
+
+export function stringField(): FieldSchema<string, false> {
+  return field<string>("string")
+}
+
+export function numberField(): FieldSchema<number, false> {
+  return field<number>("number")
+}
+
+export function codeField(): FieldSchema<string | number, false> {
+  return field<string | number>("code")
+}
+
+export function nullable<T, O extends boolean>(schema: FieldSchema<T, O>): FieldSchema<T | null, O> {
+  return { ...schema, nullable: true } as FieldSchema<T | null, O>
+}
+
+export function optional<T>(schema: FieldSchema<T>): FieldSchema<T, true> {
+  return { ...schema, optional: true } as FieldSchema<T, true>
+}
+
+// Several columns sharing one field schema
+export function fields<K extends string, T, O extends boolean>(
+  keys: readonly K[],
+  schema: FieldSchema<T, O>,
+): Record<K, FieldSchema<T, O>> {
+  return Object.fromEntries(keys.map((key) => [key, schema])) as Record<K, FieldSchema<T, O>>
+}
+
+export function rowSchema<S extends FieldShape>(name: string, fieldShape: S): RowSchema<S> {
+  return { name, fields: fieldShape }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number" && !Number.isFinite(value)) return String(value)
+  return typeof value
+}
+
+function matchesKind(kind: FieldKind, value: unknown): boolean {
+  if (kind === "string") return typeof value === "string"
+  if (kind === "number") return typeof value === "number" && Number.isFinite(value)
+  return typeof value === "string" || (typeof value === "number" && Number.isFinite(value))
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Check every row of a payload against a schema. A payload holding a single row object is read as one
+// row, as summary files sometimes are; anything else that is not a list of rows throws
+export function validateRows<R extends RowSchema>(
+  schema: R,
+  payload: unknown,
+  source: string,
+): ValidationResult<RowOf<R>> {
+  if (!Array.isArray(payload) && !isPlainObject(payload)) {
+    throw new Error(`${source} is not a list of rows (got ${describe(payload)})`)
+  }
+  const input: unknown[] = Array.isArray(payload) ? payload : [payload]
+
+  const report: ValidationReport = {
+    source,
+    schema: schema.name,
+    checkedAt: new Date().toISOString(),
+    rows: input.length,
+    valid: 0,
+    repaired: 0,
+    rejected: 0,
+    issueCount: 0,
+    fieldIssues: {},
+    issues: [],
+  }
+  const addIssue = (issue: SchemaIssue) => {
+    const key = issue.field ?? "(row)"
+    report.fieldIssues[key] = (report.fieldIssues[key] || 0) + 1
+    report.issueCount++
+    if (report.issues.length < MAX_LISTED_ISSUES) report.issues.push(issue)
+  }
+
+  const entries = Object.entries(schema.fields)
+  const rows: RowOf<R>[] = []
+
+  input.forEach((value, position) => {
+    if (!isPlainObject(value)) {
+      addIssue({
+        row: position,
+        field: null,
+        problem: "not_an_object",
+        expected: "object",
+        received: describe(value),
+        action: "rejected",
+      })
+      report.rejected++
+      return
+    }
+
+    // Copied before the first repair, so the parsed payload is never changed
+    let row = value
+    let repaired = false
+    let rejected = false
+
+    for (const [name, fieldSchema] of entries) {
+      const fieldValue = row[name]
+      if (fieldValue === undefined && fieldSchema.optional) continue
+      if (fieldValue === null && fieldSchema.nullable) continue
+      if (fieldValue !== undefined && fieldValue !== null && matchesKind(fieldSchema.kind, fieldValue)) continue
+
+      addIssue({
+        row: position,
+        field: name,
+        problem: fieldValue === undefined ? "missing" : "wrong_type",
+        expected: fieldSchema.nullable ? `${fieldSchema.kind} or null` : fieldSchema.kind,
+        received: describe(fieldValue),
+        action: fieldSchema.nullable ? "set_null" : "rejected",
+      })
+
+      if (!fieldSchema.nullable) {
+        rejected = true
+        break
+      }
+      if (!repaired) {
+        row = { ...row }
+        repaired = true
+      }
+      row[name] = null
+    }
+
+    if (rejected) {
+      report.rejected++
+      return
+    }
+    if (repaired) report.repaired++
+    else report.valid++
+    rows.push(row as RowOf<R>)
+  })
+
+  return { rows, report }
+}
+
+// One line for the console, e.g. "redfin NV/redfin_NV_county.json: 3 of 500 rows rejected, 12 repaired"
+export function summarizeReport(report: ValidationReport): string {
+  const parts = [`${report.rejected} of ${report.rows} rows rejected`]
+  if (report.repaired > 0) parts.push(`${report.repaired} repaired`)
+  const fieldsByCount = Object.entries(report.fieldIssues)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([name, count]) => `${name} ×${count}`)
+  const byField = fieldsByCount.length > 0 ? ` (${fieldsByCount.join(", ")})` : ""
+  return `${report.schema} ${report.source}: ${parts.join(", ")}${byField}`
+}
+
+// Static hosts and dev servers answer a missing file with an HTML page, often with status 200
+export function looksLikeHtml(text: string): boolean {
+  return /^\s*</.test(text)
+}
+
+// Parse a JSON file body, naming the file when it is an HTML page or not JSON at all
+export function parseJsonPayload(text: string, source: string): unknown {
+  if (looksLikeHtml(text)) {
+    throw new Error(`${source} returned an HTML page instead of JSON (likely a 404 page)`)
+  }
+  try {
+    return JSON.parse(text)
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+export type {
+  FieldKind,
+  FieldSchema,
+  FieldShape,
+  FieldValue,
+  IssueProblem,
+  PayloadRow,
+  RowOf,
+  RowSchema,
+  SchemaIssue,
+  ValidationReport,
+  ValidationResult,
+}
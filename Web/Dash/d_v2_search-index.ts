@@ -0,0 +1,538 @@
+// search-index.ts
+// Ranked fuzzy search over unified locations with prefix, typo and alias matching
+
+import type { LocationLevel, UnifiedLocation } from "./unified-data-service"
+
+type SearchField = "zip" | "state" | "county" | "city" | "metro" | "alias"
+
+interface SearchResult {
+  location: UnifiedLocation
+  score: number
+  matchedField: SearchField
+  matchedText: string
+  // [start, end) character ranges of matchedText that matched the query
+  highlights: Array<[number, number]>
+}
+
+// Minimal view of a zip_master_index row needed to build search fields and aliases
+interface SearchSourceRecord {
+  zipcode: string
+  state_code: string
+  redfin_city?: string
+  census_city?: string
+  parent_metro_region?: string
+}
+
+// Built index for prebuilt index snapshots. A document is its location's row in the snapshot followed by
+// field / text pairs: fields as positions in SEARCH_FIELDS, texts as positions into the snapshot's string
+// pool. Postings are rebuilt from the field tokens on load
+interface SearchIndexSnapshot {
+  documents: number[][]
+  aliases: Array<[string, string[]]>
+}
+
+interface Token {
+  text: string
+  start: number
+  end: number
+}
+
+interface DocumentField {
+  field: SearchField
+  text: string
+  tokens: Token[]
+}
+
+interface SearchDocument {
+  key: string
+  location: UnifiedLocation
+  fields: DocumentField[]
+}
+
+const SEARCH_FIELDS: SearchField[] = ["zip", "state", "county", "city", "metro", "alias"]
+
+// Relative weight of a match in each field. A county name counts as much as a city name, so "Clark" finds
+// Clark County, NV next to the cities named Clark
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  zip: 1.0,
+  state: 1.0,
+  city: 1.0,
+  county: 1.0,
+  alias: 0.9,
+  metro: 0.7,
+}
+
+// Tie-breakers so broader areas rank above the ZIPs inside them
+const LEVEL_BOOSTS: Record<LocationLevel, number> = {
+  state: 0.3,
+  city: 0.25,
+  county: 0.25,
+  metro: 0.15,
+  zip: 0,
+  tract: 0,
+}
+
+// Most a place's ZIP count and data coverage add to its score; less than the gap between match kinds, so
+// prominence orders places that match equally well without outranking a better match
+const PROMINENCE_BOOST = 0.2
+
+const EXACT_TOKEN_SCORE = 1.0
+const PREFIX_TOKEN_SCORE = 0.8
+const FUZZY_TOKEN_SCORE = 0.6
+const EXACT_PHRASE_BOOST = 1.0
+const EXACT_ZIP_BOOST = 2.0
+
+// Well-known nicknames that cannot be derived from the index data
+const STATIC_ALIASES: Record<string, string[]> = {
+  vegas: ["las vegas"],
+  "sin city": ["las vegas"],
+  nyc: ["new york"],
+  philly: ["philadelphia"],
+  beantown: ["boston"],
+  frisco: ["san francisco"],
+  "the bay": ["san francisco", "oakland", "san jose"],
+  "biggest little city": ["reno"],
+}
+
+function normalize(text: string): string {
+  const lower = text.toLowerCase().trim()
+  // Only non-ASCII text can carry accents, and NFD is slow on national-sized indexes
+  if (!/[^\x00-\x7f]/.test(lower)) return lower
+  return lower.normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /[a-z0-9]+/g
+  const lower = normalize(text)
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(lower)) !== null) {
+    tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length })
+  }
+  return tokens
+}
+
+// "Henderson, NV" / "HENDERSON" -> "henderson"
+function cleanPlaceName(name?: string): string {
+  if (!name) return ""
+  return normalize(name.split(",")[0])
+}
+
+// Restricted Damerau-Levenshtein distance, giving up once it exceeds maxDistance
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1
+
+  let previousPrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1)
+      }
+      current[j] = value
+      if (value < rowMin) rowMin = value
+    }
+    if (rowMin > maxDistance) return maxDistance + 1
+    previousPrevious = previous
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+// "Clark County, NV" -> "clark", for matching a county by its bare name
+function cleanCountyName(name?: string): string {
+  return cleanPlaceName(name).replace(/\s+(county|parish|borough|census area|municipality)$/, "")
+}
+
+// Typos allowed for a query token of this length
+function allowedTypos(length: number): number {
+  if (length >= 8) return 2
+  if (length >= 4) return 1
+  return 0
+}
+
+// 0-PROMINENCE_BOOST: mostly ZIP count, on a log scale that is full at 100 ZIPs, and the share of data sources
+// the place has, so "Reno" lists Reno, NV above the one-ZIP Renos elsewhere
+function prominence(location: UnifiedLocation): number {
+  const flags = Object.values(location.hasData)
+  const sources = flags.length > 0 ? flags.filter(Boolean).length / flags.length : 0
+  const zips = Math.min(1, Math.log10(1 + (location.childZips?.length ?? 0)) / 2)
+  return PROMINENCE_BOOST * (0.25 * sources + 0.75 * zips)
+}
+
+// Equal scores: locations with more data sources first, then larger ones by ZIP count. The path only keeps
+// the order stable
+function compareProminence(a: UnifiedLocation, b: UnifiedLocation): number {
+  const sources = (location: UnifiedLocation) => Object.values(location.hasData).filter(Boolean).length
+  const zips = (location: UnifiedLocation) => location.childZips?.length ?? 0
+  return (
+    sources(b) - sources(a) || zips(b) - zips(a) || a.hierarchicalPath.localeCompare(b.hierarchicalPath)
+  )
+}
+
+// Search inputs recovered from built locations, for a lookup restored from a snapshot: a ZIP's cities are
+// the city locations listing it, named the Redfin way ("Henderson, NV"), and its metro is its own
+export function searchRecordsFromLocations(locations: Iterable<UnifiedLocation>): SearchSourceRecord[] {
+  const zips: UnifiedLocation[] = []
+  const citiesByZip = new Map<string, string[]>()
+  for (const location of locations) {
+    if (location.level === "zip" && location.zipCode) zips.push(location)
+    if (location.level !== "city") continue
+    const cityName = `${location.name}, ${location.stateCode}`
+    location.childZips?.forEach((zip) => {
+      const cities = citiesByZip.get(zip)
+      if (cities) cities.push(cityName)
+      else citiesByZip.set(zip, [cityName])
+    })
+  }
+
+  return zips.map((location) => {
+    const [redfinCity, censusCity] = citiesByZip.get(location.zipCode!) || []
+    return {
+      zipcode: location.zipCode!,
+      state_code: location.stateCode,
+      redfin_city: redfinCity,
+      census_city: censusCity,
+      parent_metro_region: location.metroRegion,
+    }
+  })
+}
+
+export class SearchIndex {
+  private documents: SearchDocument[] = []
+  // token -> indexes of documents containing it, ascending
+  private postings = new Map<string, number[]>()
+  // alias -> canonical place names
+  private aliases = new Map<string, Set<string>>()
+
+  build(locations: Map<string, UnifiedLocation>, records: SearchSourceRecord[]): void {
+    this.documents = []
+    this.postings.clear()
+    this.aliases.clear()
+
+    const recordsByZip = new Map<string, SearchSourceRecord>()
+    records.forEach((record) => {
+      if (record.zipcode !== undefined && record.zipcode !== null) {
+        recordsByZip.set(record.zipcode.toString(), record)
+      }
+    })
+
+    locations.forEach((location, key) => {
+      const fields = this.buildFields(location, recordsByZip)
+      if (fields.length > 0) this.addDocument({ key, location, fields })
+    })
+
+    this.buildAliases(records)
+  }
+
+  // `rowOf` gives a location's row in the snapshot; documents of locations without one, such as tracts,
+  // are left out. `pooled` gives a text's position in the snapshot's string pool
+  toSnapshot(rowOf: (id: string) => number | undefined, pooled: (text: string) => number): SearchIndexSnapshot {
+    const documents: number[][] = []
+    this.documents.forEach((document) => {
+      const row = rowOf(document.key)
+      if (row === undefined) return
+      const fields = document.fields.flatMap((field) => [SEARCH_FIELDS.indexOf(field.field), pooled(field.text)])
+      documents.push([row, ...fields])
+    })
+    return {
+      documents,
+      aliases: Array.from(this.aliases.entries()).map(([alias, targets]) => [alias, Array.from(targets)]),
+    }
+  }
+
+  // Restore an index from toSnapshot() output, given the snapshot's locations by row and its string pool
+  loadSnapshot(snapshot: SearchIndexSnapshot, locations: UnifiedLocation[], strings: string[]): void {
+    this.documents = []
+    this.postings.clear()
+
+    snapshot.documents.forEach(([row, ...pairs]) => {
+      const location = locations[row]
+      if (!location) throw new Error(`Search snapshot refers to unknown location row ${row}`)
+      const fields: DocumentField[] = []
+      for (let i = 0; i < pairs.length; i += 2) {
+        const text = strings[pairs[i + 1]]
+        fields.push({ field: SEARCH_FIELDS[pairs[i]], text, tokens: tokenize(text) })
+      }
+      this.addDocument({ key: location.id, location, fields })
+    })
+
+    this.aliases = new Map(snapshot.aliases.map(([alias, targets]) => [alias, new Set(targets)]))
+  }
+
+  getAliases(): Record<string, string[]> {
+    const table: Record<string, string[]> = {}
+    this.aliases.forEach((targets, alias) => {
+      table[alias] = Array.from(targets)
+    })
+    return table
+  }
+
+  search(query: string, limit = 50): SearchResult[] {
+    const normalizedQuery = normalize(query)
+    const queryTokens = tokenize(normalizedQuery).map((token) => token.text)
+    if (queryTokens.length === 0) return []
+
+    const best = new Map<string, SearchResult>()
+    const keep = (result: SearchResult, key: string) => {
+      const existing = best.get(key)
+      if (!existing || result.score > existing.score) best.set(key, result)
+    }
+
+    this.matchTokens(queryTokens, normalizedQuery, 1).forEach(keep)
+
+    // Alias hits search for the canonical name and report the alias as the matched field
+    const aliasKey = queryTokens.join(" ")
+    this.aliases.get(aliasKey)?.forEach((target) => {
+      const targetTokens = tokenize(target).map((token) => token.text)
+      this.matchTokens(targetTokens, target, FIELD_WEIGHTS.alias, true).forEach((result, key) => {
+        keep({ ...result, matchedField: "alias" }, key)
+      })
+    })
+
+    return Array.from(best.values())
+      .sort((a, b) => b.score - a.score || compareProminence(a.location, b.location))
+      .slice(0, limit)
+  }
+
+  // Score every document whose fields contain all query tokens
+  private matchTokens(
+    queryTokens: string[],
+    phrase: string,
+    weight: number,
+    exactOnly = false,
+  ): Map<string, SearchResult> {
+    const results = new Map<string, SearchResult>()
+
+    // For each query token, the vocabulary terms it matches and how well
+    const termScores = queryTokens.map((token) => this.expandToken(token, exactOnly))
+    if (termScores.some((terms) => terms.size === 0)) return results
+
+    // Candidate documents must contain a match for every query token
+    let candidates: Set<number> | null = null
+    for (const terms of termScores) {
+      const docs = new Set<number>()
+      terms.forEach((_, term) => this.postings.get(term)?.forEach((docIndex) => docs.add(docIndex)))
+      const narrowed: Set<number> = candidates
+        ? new Set(Array.from(candidates).filter((docIndex) => docs.has(docIndex)))
+        : docs
+      if (narrowed.size === 0) return results
+      candidates = narrowed
+    }
+
+    candidates?.forEach((docIndex) => {
+      const document = this.documents[docIndex]
+      const result = this.scoreDocument(document, termScores, phrase, weight)
+      if (result) results.set(document.key, result)
+    })
+
+    return results
+  }
+
+  private expandToken(token: string, exactOnly: boolean): Map<string, number> {
+    const terms = new Map<string, number>()
+    if (this.postings.has(token)) terms.set(token, EXACT_TOKEN_SCORE)
+    if (exactOnly) return terms
+
+    const maxTypos = allowedTypos(token.length)
+    this.postings.forEach((_, term) => {
+      if (term === token) return
+
+      if (term.startsWith(token)) {
+        // Shorter completions are more likely what the user means
+        terms.set(term, PREFIX_TOKEN_SCORE * (0.6 + 0.4 * (token.length / term.length)))
+        return
+      }
+
+      if (maxTypos > 0 && !/^\d+$/.test(token)) {
+        const distance = editDistance(token, term, maxTypos)
+        if (distance <= maxTypos) {
+          terms.set(term, FUZZY_TOKEN_SCORE - 0.1 * (distance - 1))
+        }
+      }
+    })
+
+    return terms
+  }
+
+  private scoreDocument(
+    document: SearchDocument,
+    termScores: Array<Map<string, number>>,
+    phrase: string,
+    weight: number,
+  ): SearchResult | null {
+    let bestResult: SearchResult | null = null
+
+    for (const field of document.fields) {
+      let total = 0
+      let allMatched = true
+      const highlights: Array<[number, number]> = []
+
+      // Every query token has to match somewhere in this field
+      for (const terms of termScores) {
+        let tokenBest = 0
+        let tokenSpan: [number, number] | null = null
+        for (const token of field.tokens) {
+          const score = terms.get(token.text) || 0
+          if (score > tokenBest) {
+            tokenBest = score
+            tokenSpan = [token.start, token.end]
+          }
+        }
+        if (!tokenSpan) {
+          allMatched = false
+          break
+        }
+        total += tokenBest
+        highlights.push(tokenSpan)
+      }
+      if (!allMatched) continue
+
+      const normalizedText = normalize(field.text)
+      // A metro's own name weighs as much as a city's; the lower weight is for places inside a metro
+      const fieldWeight = field.field === "metro" && document.location.level === "metro" ? 1.0 : FIELD_WEIGHTS[field.field]
+      let score = (total / termScores.length) * fieldWeight * weight
+
+      if (field.field === "zip" && normalizedText === phrase) {
+        score += EXACT_ZIP_BOOST
+      } else if (
+        normalizedText === phrase ||
+        cleanPlaceName(field.text) === phrase ||
+        (field.field === "county" && cleanCountyName(field.text) === phrase)
+      ) {
+        score += EXACT_PHRASE_BOOST * weight
+      }
+
+      score += (LEVEL_BOOSTS[document.location.level] || 0) + prominence(document.location)
+
+      if (!bestResult || score > bestResult.score) {
+        bestResult = {
+          location: document.location,
+          score,
+          matchedField: field.field,
+          matchedText: field.text,
+          highlights: highlights.sort((a, b) => a[0] - b[0]),
+        }
+      }
+    }
+
+    return bestResult
+  }
+
+  private addDocument(document: SearchDocument): void {
+    const docIndex = this.documents.length
+    this.documents.push(document)
+
+    document.fields.forEach((field) =>
+      field.tokens.forEach((token) => {
+        const docs = this.postings.get(token.text)
+        if (!docs) {
+          this.postings.set(token.text, [docIndex])
+        } else if (docs[docs.length - 1] !== docIndex) {
+          docs.push(docIndex)
+        }
+      }),
+    )
+  }
+
+  private buildFields(
+    location: UnifiedLocation,
+    recordsByZip: Map<string, SearchSourceRecord>,
+  ): DocumentField[] {
+    const fields: DocumentField[] = []
+    const seen = new Set<string>()
+    const add = (field: SearchField, text?: string) => {
+      if (!text) return
+      const dedupeKey = `${field}:${normalize(text)}`
+      if (seen.has(dedupeKey)) return
+      seen.add(dedupeKey)
+      const tokens = tokenize(text)
+      if (tokens.length > 0) fields.push({ field, text, tokens })
+    }
+
+    const { level, name } = location
+
+    if (level === "state") {
+      add("state", location.stateName)
+      add("state", location.stateCode)
+    } else if (level === "county") {
+      add("county", name)
+    } else if (level === "city") {
+      add("city", name)
+    } else if (level === "metro") {
+      add("metro", `${cleanPlaceName(name)} metro`)
+    } else if (level === "zip") {
+      add("zip", location.zipCode)
+      const record = location.zipCode ? recordsByZip.get(location.zipCode) : undefined
+      add("city", record?.redfin_city)
+      add("city", record?.census_city)
+      add("county", location.parentCounty)
+    }
+
+    add("metro", location.metroRegion)
+    return fields
+  }
+
+  private buildAliases(records: SearchSourceRecord[]): void {
+    const addAlias = (alias: string, target: string) => {
+      const normalizedAlias = tokenize(alias)
+        .map((token) => token.text)
+        .join(" ")
+      const normalizedTarget = cleanPlaceName(target)
+      if (!normalizedAlias || !normalizedTarget || normalizedAlias === normalizedTarget) return
+
+      const targets = this.aliases.get(normalizedAlias)
+      if (targets) {
+        targets.add(normalizedTarget)
+      } else {
+        this.aliases.set(normalizedAlias, new Set([normalizedTarget]))
+      }
+    }
+
+    Object.entries(STATIC_ALIASES).forEach(([alias, targets]) => targets.forEach((target) => addAlias(alias, target)))
+
+    // ZIPs per city name
+    const cityZips = new Map<string, number>()
+    records.forEach((record) => {
+      const redfinCity = cleanPlaceName(record.redfin_city)
+      const censusCity = cleanPlaceName(record.census_city)
+      new Set([redfinCity, censusCity]).forEach((city) => city && cityZips.set(city, (cityZips.get(city) || 0) + 1))
+
+      // Redfin and Census occasionally disagree on a ZIP's city name
+      if (redfinCity && censusCity && redfinCity !== censusCity) {
+        addAlias(redfinCity, censusCity)
+        addAlias(censusCity, redfinCity)
+      }
+
+      // "Las Vegas-Henderson-Paradise, NV": the full metro name and each principal
+      // city resolve to the first (anchor) city
+      const metro = cleanPlaceName(record.parent_metro_region)
+      if (metro) {
+        const principalCities = metro.split("-").map((part) => part.trim())
+        addAlias(metro, principalCities[0])
+        principalCities.slice(1).forEach((city) => addAlias(`${city} metro`, principalCities[0]))
+      }
+    })
+
+    // Initials for multi-word city names, for the city with the most ZIPs among those sharing them: "la" is
+    // Los Angeles rather than Lehigh Acres or Los Altos, "nlv" is North Las Vegas
+    const initials = new Map<string, { cities: string[]; zips: number }>()
+    cityZips.forEach((zips, city) => {
+      const words = city.split(/\s+/).filter(Boolean)
+      if (words.length < 2) return
+      const alias = words.map((word) => word[0]).join("")
+      const largest = initials.get(alias)
+      if (!largest || zips > largest.zips) initials.set(alias, { cities: [city], zips })
+      else if (zips === largest.zips) largest.cities.push(city)
+    })
+    initials.forEach(({ cities }, alias) => cities.forEach((city) => addAlias(alias, city)))
+  }
+}
+
+export type { SearchField, SearchIndexSnapshot, SearchResult, SearchSourceRecord }
@@ -0,0 +1,169 @@
+// spatial-index.ts
+// Grid-based spatial index over UnifiedLocation coordinates with haversine distances
+
+import type { LocationLevel, UnifiedLocation } from "./unified-data-service"
+
+interface SpatialQueryOptions {
+  level?: LocationLevel | LocationLevel[]
+}
+
+interface NearbyLocation {
+  location: UnifiedLocation
+  distanceMiles: number
+  distanceKm: number
+}
+
+interface IndexedEntry {
+  level: LocationLevel
+  lat: number
+  lon: number
+  location: UnifiedLocation
+}
+
+const EARTH_RADIUS_MILES = 3958.8
+const KM_PER_MILE = 1.609344
+const MILES_PER_DEGREE_LAT = 69.0
+
+// Grid cell size in degrees - 0.25° is roughly 17 miles of latitude, small enough
+// that a 10 mile radius query only touches a handful of cells
+const CELL_SIZE_DEGREES = 0.25
+
+// Largest search radius used by findNearest before giving up (covers the whole globe)
+const MAX_SEARCH_RADIUS_MILES = EARTH_RADIUS_MILES * Math.PI
+
+// Great-circle distance between two points in miles
+export function haversineMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(lat2 - lat1)
+  const dLon = toRadians(lon2 - lon1)
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2)
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+export function milesToKm(miles: number): number {
+  return miles * KM_PER_MILE
+}
+
+// Coordinates of [0, 0] are the "unknown" placeholder used by the unified lookup
+function hasValidCoordinates(coordinates: [number, number] | undefined): coordinates is [number, number] {
+  if (!coordinates) return false
+  const [lat, lon] = coordinates
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return false
+  if (lat === 0 && lon === 0) return false
+  return Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+}
+
+export class SpatialIndex {
+  private cells = new Map<string, IndexedEntry[]>()
+  private size = 0
+
+  // Build the index from the unified lookup (id -> location)
+  build(locations: Map<string, UnifiedLocation>): void {
+    this.cells.clear()
+    this.size = 0
+
+    locations.forEach((location) => {
+      if (!hasValidCoordinates(location.coordinates)) return
+
+      const [lat, lon] = location.coordinates
+      const cellKey = this.cellKey(this.cellIndex(lat), this.cellIndex(lon))
+      const bucket = this.cells.get(cellKey)
+      const entry: IndexedEntry = { level: location.level, lat, lon, location }
+
+      if (bucket) {
+        bucket.push(entry)
+      } else {
+        this.cells.set(cellKey, [entry])
+      }
+      this.size++
+    })
+  }
+
+  getSize(): number {
+    return this.size
+  }
+
+  // All indexed locations within `miles` of the point, nearest first
+  findWithinRadius(lat: number, lon: number, miles: number, options: SpatialQueryOptions = {}): NearbyLocation[] {
+    if (miles < 0 || !hasValidCoordinates([lat, lon])) return []
+
+    const levels = this.normalizeLevels(options.level)
+    const results: NearbyLocation[] = []
+
+    this.forEachCandidate(lat, lon, miles, (entry) => {
+      if (levels && !levels.has(entry.level)) return
+
+      const distanceMiles = haversineMiles(lat, lon, entry.lat, entry.lon)
+      if (distanceMiles <= miles) {
+        results.push({
+          location: entry.location,
+          distanceMiles,
+          distanceKm: milesToKm(distanceMiles),
+        })
+      }
+    })
+
+    return results.sort((a, b) => a.distanceMiles - b.distanceMiles)
+  }
+
+  // The k indexed locations closest to the point, nearest first
+  findNearest(lat: number, lon: number, k = 10, options: SpatialQueryOptions = {}): NearbyLocation[] {
+    if (k <= 0 || this.size === 0) return []
+
+    // Expand the search radius until it holds k matches - a radius query is exact,
+    // so once k results fall inside it they are guaranteed to be the k nearest
+    let radius = 5
+    while (radius < MAX_SEARCH_RADIUS_MILES) {
+      const results = this.findWithinRadius(lat, lon, radius, options)
+      if (results.length >= k) {
+        return results.slice(0, k)
+      }
+      radius *= 2
+    }
+
+    return this.findWithinRadius(lat, lon, MAX_SEARCH_RADIUS_MILES, options).slice(0, k)
+  }
+
+  private normalizeLevels(level?: LocationLevel | LocationLevel[]): Set<LocationLevel> | null {
+    if (!level) return null
+    return new Set(Array.isArray(level) ? level : [level])
+  }
+
+  // Visit every entry in the grid cells overlapping the radius' bounding box
+  private forEachCandidate(lat: number, lon: number, miles: number, visit: (entry: IndexedEntry) => void): void {
+    const latDelta = miles / MILES_PER_DEGREE_LAT
+    const cosLat = Math.cos((lat * Math.PI) / 180)
+    const lonDelta = cosLat > 1e-6 ? miles / (MILES_PER_DEGREE_LAT * cosLat) : 360
+
+    const minLat = Math.max(-90, lat - latDelta)
+    const maxLat = Math.min(90, lat + latDelta)
+
+    // Near the poles or for continent-sized radii, fall back to a full scan
+    const crossesAntimeridian = lon - lonDelta < -180 || lon + lonDelta > 180
+    const rowCount = this.cellIndex(maxLat) - this.cellIndex(minLat) + 1
+    const colCount = Math.ceil((2 * lonDelta) / CELL_SIZE_DEGREES) + 1
+
+    if (crossesAntimeridian || lonDelta >= 180 || rowCount * colCount > this.cells.size) {
+      this.cells.forEach((bucket) => bucket.forEach(visit))
+      return
+    }
+
+    for (let row = this.cellIndex(minLat); row <= this.cellIndex(maxLat); row++) {
+      for (let col = this.cellIndex(lon - lonDelta); col <= this.cellIndex(lon + lonDelta); col++) {
+        this.cells.get(this.cellKey(row, col))?.forEach(visit)
+      }
+    }
+  }
+
+  private cellIndex(degrees: number): number {
+    return Math.floor(degrees / CELL_SIZE_DEGREES)
+  }
+
+  private cellKey(row: number, col: number): string {
+    return `${row}:${col}`
+  }
+}
+
+export type { NearbyLocation, SpatialQueryOptions }
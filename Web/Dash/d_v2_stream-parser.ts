@@ -0,0 +1,220 @@
+// stream-parser.ts
+// Incremental JSON and CSV row parsers. Text is pushed in chunks and complete rows come out as soon as
+// they end, so a large file can be parsed in slices with progress in between instead of in one
+// JSON.parse or Papa.parse call
+
+import Papa from "papaparse"
+
+// Where the rows of a JSON object payload are, e.g. GeoJSON features
+const DEFAULT_ROW_KEYS = ["features", "data"]
+
+interface JsonStreamResult {
+  // The payload's other top-level members with the row array left empty, e.g. a GeoJSON collection
+  // without features. Null for a payload that is itself an array
+  envelope: Record<string, unknown> | null
+  // Key of the streamed row array; null when the payload is an array, or an object without a row array
+  // (then `envelope` holds the whole payload)
+  rowKey: string | null
+}
+
+type RowHandler = (rows: unknown[]) => void
+
+function isWhitespace(char: string): boolean {
+  return char === " " || char === "\n" || char === "\r" || char === "\t"
+}
+
+// Rows of a JSON array, or of the first array under one of `rowKeys` in a JSON object
+export class JsonRowStream {
+  // Text not yet consumed, from the start of the row or key still being read
+  private buffer = ""
+  private depth = 0
+  private inString = false
+  private escaped = false
+  private root: "array" | "object" | null = null
+  // Depth inside the row array; -1 until it is found
+  private rowDepth = -1
+  private rowsClosed = false
+  private rowKey: string | null = null
+  // Buffer offsets of the row, key string and envelope text being read; -1 when none is
+  private rowStart = -1
+  private stringStart = -1
+  private envelopeStart = 0
+  private lastString: string | null = null
+  private currentKey: string | null = null
+  private envelope = ""
+  private rowCount = 0
+
+  constructor(
+    private onRows: RowHandler,
+    private rowKeys: string[] = DEFAULT_ROW_KEYS,
+  ) {}
+
+  get rows(): number {
+    return this.rowCount
+  }
+
+  push(chunk: string): void {
+    const start = this.buffer.length
+    this.buffer += chunk
+    const rows: unknown[] = []
+
+    for (let i = start; i < this.buffer.length; i++) {
+      const char = this.buffer[i]
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false
+        else if (char === "\\") this.escaped = true
+        else if (char === '"') {
+          this.inString = false
+          if (this.stringStart >= 0) {
+            this.lastString = JSON.parse(this.buffer.slice(this.stringStart, i + 1))
+            this.stringStart = -1
+          }
+        }
+        continue
+      }
+      if (isWhitespace(char)) continue
+
+      if (this.root === null) {
+        if (char === "[") {
+          this.root = "array"
+          this.rowDepth = 1
+          this.envelopeStart = -1
+        } else if (char === "{") {
+          this.root = "object"
+        } else {
+          throw new Error(`Expected a JSON array or object, found "${char}"`)
+        }
+        this.depth = 1
+        continue
+      }
+
+      const inRows = this.rowDepth > 0 && !this.rowsClosed && this.depth >= this.rowDepth
+      if (inRows && this.depth === this.rowDepth && this.rowStart < 0 && char !== "," && char !== "]") {
+        this.rowStart = i
+      }
+
+      if (char === '"') {
+        this.inString = true
+        // Keys of the root object, to find the row array by
+        if (this.root === "object" && this.depth === 1 && this.rowDepth < 0) this.stringStart = i
+      } else if (char === ":" && this.depth === 1) {
+        this.currentKey = this.lastString
+      } else if (char === "{" || char === "[") {
+        this.depth++
+        if (char === "[" && this.depth === 2 && this.rowDepth < 0 && this.rowKeys.includes(this.currentKey ?? "")) {
+          this.rowDepth = 2
+          this.rowKey = this.currentKey
+          this.envelope += this.buffer.slice(this.envelopeStart, i + 1)
+          this.envelopeStart = -1
+        }
+      } else if (char === "}" || char === "]") {
+        this.depth--
+        if (inRows && this.depth === this.rowDepth && this.rowStart >= 0) {
+          rows.push(JSON.parse(this.buffer.slice(this.rowStart, i + 1)))
+          this.rowStart = -1
+        } else if (inRows && this.depth === this.rowDepth - 1) {
+          // The row array closes; a last row that is not an object or array ends here
+          if (this.rowStart >= 0) rows.push(JSON.parse(this.buffer.slice(this.rowStart, i)))
+          this.rowStart = -1
+          this.rowsClosed = true
+          this.envelopeStart = i
+        }
+      } else if (char === "," && inRows && this.depth === this.rowDepth && this.rowStart >= 0) {
+        rows.push(JSON.parse(this.buffer.slice(this.rowStart, i)))
+        this.rowStart = -1
+      }
+    }
+
+    this.compact()
+    if (rows.length > 0) {
+      this.rowCount += rows.length
+      this.onRows(rows)
+    }
+  }
+
+  end(): JsonStreamResult {
+    if (this.root === null || this.depth !== 0 || this.inString) {
+      throw new Error("JSON payload ended before it was complete")
+    }
+    if (this.root === "array") return { envelope: null, rowKey: null }
+
+    if (this.envelopeStart >= 0) this.envelope += this.buffer.slice(this.envelopeStart)
+    this.buffer = ""
+    return { envelope: JSON.parse(this.envelope), rowKey: this.rowKey }
+  }
+
+  // Drop consumed text, moving envelope text out of the buffer and keeping a row or key still being read
+  private compact(): void {
+    const pending = [this.rowStart, this.stringStart].filter((offset) => offset >= 0)
+    const keepFrom = pending.length > 0 ? Math.min(...pending) : this.buffer.length
+
+    if (this.envelopeStart >= 0 && this.envelopeStart < keepFrom) {
+      this.envelope += this.buffer.slice(this.envelopeStart, keepFrom)
+      this.envelopeStart = keepFrom
+    }
+    this.buffer = this.buffer.slice(keepFrom)
+    if (this.rowStart >= 0) this.rowStart -= keepFrom
+    if (this.stringStart >= 0) this.stringStart -= keepFrom
+    if (this.envelopeStart >= 0) this.envelopeStart -= keepFrom
+  }
+}
+
+// Rows of a CSV file with a header line, typed like Papa.parse's dynamicTyping. Each chunk is parsed up
+// to its last line break outside quotes; the rest waits for the next chunk
+export class CsvRowStream {
+  private pending = ""
+  private header: string[] | null = null
+  private rowCount = 0
+  readonly errors: Papa.ParseError[] = []
+
+  constructor(private onRows: RowHandler) {}
+
+  get rows(): number {
+    return this.rowCount
+  }
+
+  push(chunk: string): void {
+    this.pending += chunk
+    const cut = this.lastLineBreak()
+    if (cut < 0) return
+    this.parse(this.pending.slice(0, cut + 1))
+    this.pending = this.pending.slice(cut + 1)
+  }
+
+  end(): void {
+    if (this.pending.trim()) this.parse(this.pending)
+    this.pending = ""
+  }
+
+  private lastLineBreak(): number {
+    let quoted = false
+    let lastBreak = -1
+    for (let i = 0; i < this.pending.length; i++) {
+      const char = this.pending[i]
+      if (char === '"') quoted = !quoted
+      else if (char === "\n" && !quoted) lastBreak = i
+    }
+    return lastBreak
+  }
+
+  private parse(text: string): void {
+    const parsed = Papa.parse<unknown[]>(text, { dynamicTyping: true, skipEmptyLines: true })
+    this.errors.push(...parsed.errors)
+
+    let records = parsed.data
+    if (!this.header) {
+      if (records.length === 0) return
+      this.header = records[0].map((name) => String(name))
+      records = records.slice(1)
+    }
+    const header = this.header
+    const rows = records.map((values) => Object.fromEntries(header.map((name, i) => [name, values[i] ?? null])))
+    if (rows.length > 0) {
+      this.rowCount += rows.length
+      this.onRows(rows)
+    }
+  }
+}
+
+export type { JsonStreamResult, RowHandler }
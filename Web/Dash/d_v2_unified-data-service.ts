@@ -1,7 +1,41 @@
 // unified-data-service.ts
-// Service to create relationships between redfin_master_index.json and zip_master_index.csv
+// Service to create relationships between redfin_master_index.json and zip_master_index.csv,
+// or the repository Index CSVs (see index-adapter.ts) when those files are missing
 
 import Papa from "papaparse"
+import { SpatialIndex, type NearbyLocation, type SpatialQueryOptions } from "./spatial-index"
+import { reverseGeocoder, type ReverseGeocodeResult } from "./reverse-geocoder"
+import { SearchIndex, searchRecordsFromLocations, type SearchResult, type SearchSourceRecord } from "./search-index"
+import { indexAdapter, type IndexAdapterOptions } from "./index-adapter"
+import { getDefaultTransport, type DataTransport } from "./data-transport"
+import { fetchWithRetry, isAbortError, whenNotAborted, type LoadOptions } from "./fetch-policy"
+import { resolveGeoJsonPath, resolveIndexPath, resolveTractLeanPath } from "./file-path-resolver"
+import { geometryBounds, geometryCentroid, type BoundingBox } from "./geo-bounds"
+import { ALL_RESIDENTIAL_CODE, REDFIN_PROPERTY_TYPES } from "./property-types"
+import { indexVintage, tractVintage, type DatasetVintage } from "./vintage"
+import { buildCoverageReport, type CoverageReport, type CoverageReportOptions } from "./coverage-report"
+import { looksLikeHtml, parseJsonPayload, summarizeReport, validateRows, type ValidationReport } from "./schema"
+import { tractLeanSchema, type TractLeanRow } from "./payload-schemas"
+import {
+  DEFAULT_MANIFEST_PATH,
+  SNAPSHOT_FORMAT_VERSION,
+  checkSnapshot,
+  combineSourceHashes,
+  packLocations,
+  unpackLocations,
+  type SnapshotManifest,
+  type SnapshotOptions,
+  type SourceHash,
+  type UnifiedIndexSnapshot,
+} from "./index-snapshot"
+import {
+  createTractLocations,
+  createUnifiedLookup,
+  weighCountyShares,
+  type BuildTimingReport,
+  type TractBuild,
+  type UnifiedLookupBuild,
+} from "./unified-lookup-builder"
 
 // Type definitions
 interface PropertyType {
@@ -17,11 +51,19 @@ interface StateInfo {
 
 interface CountyInfo {
   county_name: string
+  county_fips?: string
   state_code: string
   property_types: Record<string, PropertyType>
   primary_table_id: number
   cities: string[]
   zip_codes: string[]
+  // CBSA the county belongs to (parent_metro_region_metro_code / parent_metro_region)
+  metro_code?: string
+  metro_name?: string
+  // Census internal point [lat, lon] and land area from Index/csv/{ST}_county_data.csv, for counties
+  // without ZIPs to place them by
+  internal_point?: [number, number]
+  land_area?: number
 }
 
 interface CityInfo {
@@ -40,8 +82,9 @@ interface ZipInfo {
 
 interface RedfInMasterIndex {
   metadata: {
-    created: string
-    target_year: number
+    // Unset for indexes built from the Index CSVs, which say neither
+    created?: string
+    target_year?: number
     total_states: number
     total_counties: number
     total_cities: number
@@ -75,15 +118,30 @@ interface ZipMasterRecord {
   parent_metro_region_metro_code?: number
   redfin_county_name?: string
   region_type_id?: number
+  GEOID?: string | number
+  STATE_FIPS?: string | number
+  state_county_code?: string | number
   INTPTLAT: number
   INTPTLON: number
   ALAND: number
   AWATER: number
 }
 
+// Where a location's coordinates come from: its own internal point (ZIPs), the land-area weighted
+// centroid of its ZIPs, its GeoJSON geometry, or the configured map center (states without ZIPs)
+type CoordinatesSource = "internal-point" | "zips" | "geometry" | "default"
+
+// Geographic level of a unified location
+type LocationLevel = "state" | "county" | "city" | "zip" | "tract" | "metro"
+
 // Unified location interface
 interface UnifiedLocation {
   // Core identifiers
+  id: string // Unified lookup key, e.g. "county:Clark County, NV"
+  level: LocationLevel
+  name: string
+  fips?: string // State (2-digit) or county (5-digit) FIPS code
+  geoid?: string // Census GEOID: state/county FIPS, ZCTA or tract
   zipCode?: string
   stateCode: string
   stateName: string
@@ -94,7 +152,9 @@ interface UnifiedLocation {
   hierarchicalPath: string
 
   // Geographic information (from zip_master_index)
-  coordinates: [number, number]
+  coordinates: [number, number] // [lat, lon]; [0, 0] when unknown
+  coordinatesSource?: CoordinatesSource
+  bounds?: BoundingBox
   geoJsonFile?: string
   dataFile?: string
   hasData: {
@@ -107,72 +167,225 @@ interface UnifiedLocation {
   landArea?: number
   waterArea?: number
   metroRegion?: string
+  metroCode?: string // CBSA code (metro level, and counties and ZIPs inside a metro)
   dataSource?: string
 
   // Related locations
+  parentId?: string
   parentCounty?: string
   parentState?: string
   childCities?: string[]
   childZips?: string[]
+  childTracts?: string[] // Tract GEOIDs (county and ZIP levels, once tracts are loaded)
+  zipCodes?: string[] // ZIPs a tract overlaps (tract level)
+  memberCounties?: string[] // County location ids (metro level)
+  countyShares?: ZipCountyShare[] // Counties a ZIP lies in, once tracts are loaded (ZIP level)
+  overlappingZips?: string[] // Every ZIP with a tract in the county, once tracts are loaded (county level)
+}
+
+// One county's share of a ZIP, from the tract -> ZIP and tract -> county lean files
+interface ZipCountyShare {
+  countyId?: string // Unset when the county is not in the lookup
+  countyFips: string
+  countyName?: string
+  tracts: number // Tracts of the ZIP in this county
+  weight: number // Allocation weight; a ZIP's shares sum to 1
+}
+
+// A ZIP counted toward a county with its allocation weight
+interface ZipAllocation {
+  location: UnifiedLocation
+  weight: number
+}
+
+// Row of a Cen_{State}_tract_{county|zip}_2023_lean.json file. The ZIP file has one row per
+// tract and ZIP pair; the county file has one row per tract
+type TractLeanRecord = TractLeanRow
+
+interface InitializeOptions extends LoadOptions {
+  useWorker?: boolean
+  // Used when the master index files are missing and the Index CSVs are loaded instead
+  indexAdapter?: IndexAdapterOptions
+  // Where the index files are read from; defaults to the shared default transport
+  transport?: DataTransport
+  // Fall back to mock data when loading fails. Defaults to true unless
+  // NEXT_PUBLIC_DISABLE_MOCK_DATA=true, so production builds can opt out
+  allowMockData?: boolean
+  // Prebuilt index snapshot to try before loading and building from the source files
+  snapshot?: SnapshotOptions | false
+}
+
+// "real": every source loaded; "partial": some sources failed but real data was built;
+// "mock": loading failed and mock data is shown; "unavailable": loading failed and mock data is disabled
+type DataMode = "real" | "partial" | "mock" | "unavailable"
+
+interface SourceFailure {
+  source: string
+  reason: string
+}
+
+// Outcome of initialize(), for showing users what they are actually looking at
+interface InitializationResult {
+  mode: DataMode
+  failures: SourceFailure[]
+  // Records loaded per source file
+  recordCounts: Record<string, number>
+  locations: number
+  // The lookup came from a prebuilt snapshot rather than a build
+  fromSnapshot: boolean
+}
+
+// Tract links and the crosswalk come from tract files loaded after startup, so a snapshot
+// starts without them like a fresh build does
+function stripTractLinks(location: UnifiedLocation): UnifiedLocation {
+  const { childTracts, countyShares, overlappingZips, ...rest } = location
+  return rest
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// Entries across all levels of a redfin master index
+function countIndexEntries(index: RedfInMasterIndex): number {
+  return (
+    Object.keys(index.states || {}).length +
+    Object.keys(index.counties || {}).length +
+    Object.keys(index.cities || {}).length +
+    Object.keys(index.zip_codes || {}).length
+  )
+}
+
+// Redfin table ID for a property type, possibly borrowed from an ancestor
+interface TableIdResolution {
+  tableId: number
+  propertyTypeCode: string
+  propertyTypeName: string
+  // Location the table ID belongs to: the requested one, or the ancestor it fell back to
+  location: UnifiedLocation
+  fellBack: boolean
+}
+
+// Levels whose table IDs may stand in for a more specific location's, nearest first.
+// States are left out since a state-wide figure says little about a ZIP
+const TABLE_ID_FALLBACK_LEVELS: LocationLevel[] = ["zip", "city", "county"]
+
+// Result of resolving a point to the geographies that contain it
+interface ReverseGeocodedLocation {
+  geography: ReverseGeocodeResult
+  // Most specific matching location (tract, then ZIP, then county, then state)
+  location: UnifiedLocation | null
+  // Matching locations from most general to most specific
+  hierarchy: UnifiedLocation[]
 }
 
 class UnifiedDataService {
   private redfInIndex: RedfInMasterIndex | null = null
   private zipMasterData: ZipMasterRecord[] = []
   private unifiedLookup: Map<string, UnifiedLocation> = new Map()
+  // Location id -> ids of its direct children
+  private childIds: Map<string, string[]> = new Map()
+  private spatialIndex = new SpatialIndex()
+  private searchIndex = new SearchIndex()
+  private searchIndexStale = true
+  private buildReport: BuildTimingReport | null = null
+  // Search index inputs recovered from snapshot locations, in place of the ZIP master records
+  private searchRecords: SearchSourceRecord[] | null = null
+  private initResult: InitializationResult | null = null
   private isLoaded = false
+  // Transport of the most recent initialize(), reused for on-demand loads
+  private transport: DataTransport | null = null
+  // State code -> tracts, loaded on demand
+  private tractLoads = new Map<string, Promise<UnifiedLocation[]>>()
+  private geometryLoads = new Map<string, Promise<number>>()
+  // Dataset key -> as-of date of the loaded index and tract files
+  private vintages = new Map<string, DatasetVintage>()
+  // Schema checks of loaded tract lean files, e.g. "tracts-NV-zip"
+  private validations = new Map<string, ValidationReport>()
+
+  // Load and initialize all data. `useWorker` moves the lookup build off the main thread.
+  // The result says whether the data is real, partial or mock and which sources failed. Aborting
+  // options.signal rejects with an AbortError rather than falling back to mock data
+  async initialize(options: InitializeOptions = {}): Promise<InitializationResult> {
+    const allowMockData = options.allowMockData ?? process.env.NEXT_PUBLIC_DISABLE_MOCK_DATA !== "true"
+    const { signal, timeoutMs, retries, retryDelayMs } = options
+    const loadOptions: LoadOptions = { signal, timeoutMs, retries, retryDelayMs }
+    const failures: SourceFailure[] = []
+    const recordCounts: Record<string, number> = {}
 
-  // Load and initialize all data
-  async initialize(): Promise<void> {
     try {
       console.log("🔄 Loading real estate data indices...")
+      const transport = options.transport ?? getDefaultTransport()
+      this.transport = transport
+
+      // A snapshot built from the current sources replaces loading and building the index
+      const snapshotPath =
+        options.snapshot === false ? null : await this.loadSnapshot(transport, options.snapshot || {}, loadOptions)
+      if (snapshotPath) {
+        recordCounts[snapshotPath] = this.unifiedLookup.size
+        return this.finishInitialization("real", failures, recordCounts, true)
+      }
+      this.searchRecords = null
 
       // Check if files exist first
-      const fileChecks = await this.checkDataFiles()
+      const fileChecks = await this.checkDataFiles(transport, loadOptions)
 
+      // Without the master index files, build the hierarchy from the repository's Index CSVs
       if (!fileChecks.redfin && !fileChecks.zip) {
-        console.log("📁 No data files found, using mock data...")
-        this.initializeMockData()
-        this.isLoaded = true
-        return
+        console.log("📁 No master index files found, loading Index CSVs...")
+        try {
+          const index = await indexAdapter.load({ ...loadOptions, transport, ...options.indexAdapter })
+          this.redfInIndex = index.redfinIndex
+          this.zipMasterData = index.zipMasterData
+          failures.push(...index.failures)
+          Object.assign(recordCounts, index.recordCounts)
+        } catch (error) {
+          if (!isAbortError(error)) failures.push({ source: "Index CSVs", reason: errorMessage(error) })
+          throw error
+        }
       }
 
       // Load redfin master index if available
       if (fileChecks.redfin) {
         try {
-          const redfInResponse = await fetch("/redfin_master_index.json")
+          const redfInResponse = await fetchWithRetry(
+            transport,
+            transport.resolve("/redfin_master_index.json"),
+            loadOptions,
+          )
           if (!redfInResponse.ok) {
             throw new Error(`HTTP ${redfInResponse.status}`)
           }
 
-          const contentType = redfInResponse.headers.get("content-type")
-          if (!contentType?.includes("application/json")) {
-            throw new Error("Response is not JSON (likely 404 page)")
-          }
-
           const redfInText = await redfInResponse.text()
-          this.redfInIndex = JSON.parse(redfInText)
+          this.redfInIndex = parseJsonPayload(redfInText, "redfin_master_index.json") as RedfInMasterIndex
+          recordCounts["redfin_master_index.json"] = countIndexEntries(this.redfInIndex!)
           console.log("✅ Loaded redfin_master_index.json")
         } catch (error) {
+          if (isAbortError(error)) throw error
           console.warn("⚠️ Could not load redfin_master_index.json:", error)
+          failures.push({ source: "redfin_master_index.json", reason: errorMessage(error) })
           throw new Error("redfin_master_index.json not found in /public folder")
         }
+      } else if (fileChecks.zip) {
+        // ZIP records alone cannot build the hierarchy
+        failures.push({ source: "redfin_master_index.json", reason: "Not found in /public folder" })
+        throw new Error("redfin_master_index.json not found in /public folder")
       }
 
-      // Load zip master index if available
+      // Load zip master index if available. Without it locations have no coordinates or
+      // census links, so the data is partial rather than unusable
       if (fileChecks.zip) {
         try {
-          const zipResponse = await fetch("/zip_master_index.csv")
+          const zipResponse = await fetchWithRetry(transport, transport.resolve("/zip_master_index.csv"), loadOptions)
           if (!zipResponse.ok) {
             throw new Error(`HTTP ${zipResponse.status}`)
           }
 
-          const contentType = zipResponse.headers.get("content-type")
-          if (contentType?.includes("text/html")) {
-            throw new Error("Response is HTML (likely 404 page)")
-          }
-
           const zipCsvText = await zipResponse.text()
+          if (looksLikeHtml(zipCsvText)) {
+            throw new Error("Response is an HTML page, not CSV (likely a 404 page)")
+          }
 
           // Parse CSV
           const zipParsed = Papa.parse<ZipMasterRecord>(zipCsvText, {
@@ -186,21 +399,50 @@ class UnifiedDataService {
           }
 
           this.zipMasterData = zipParsed.data
+          recordCounts["zip_master_index.csv"] = zipParsed.data.length
           console.log("✅ Loaded zip_master_index.csv")
         } catch (error) {
+          if (isAbortError(error)) throw error
           console.warn("⚠️ Could not load zip_master_index.csv:", error)
-          throw new Error("zip_master_index.csv not found in /public folder")
+          failures.push({ source: "zip_master_index.csv", reason: errorMessage(error) })
+          this.zipMasterData = []
         }
+      } else if (fileChecks.redfin) {
+        failures.push({ source: "zip_master_index.csv", reason: "Not found in /public folder" })
       }
 
       // Build unified lookup
-      this.buildUnifiedLookup()
+      if (options.useWorker) {
+        await this.buildUnifiedLookupInWorker()
+      } else {
+        this.buildUnifiedLookup()
+      }
+
+      if (this.unifiedLookup.size === 0) {
+        throw new Error("Data files loaded but produced no locations")
+      }
 
       this.isLoaded = true
       console.log("✅ Real estate data loaded successfully")
       console.log(`📊 Loaded ${this.unifiedLookup.size} unified locations`)
+
+      return this.finishInitialization(failures.length > 0 ? "partial" : "real", failures, recordCounts)
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.error("❌ Error loading real estate data:", error)
+      if (failures.length === 0) {
+        failures.push({ source: "unified lookup", reason: errorMessage(error) })
+      }
+
+      if (!allowMockData) {
+        // Leave the service empty rather than show invented locations as real
+        console.log("🚫 Mock data is disabled, no locations loaded")
+        this.unifiedLookup = new Map()
+        this.childIds = new Map()
+        this.searchIndexStale = true
+        this.isLoaded = false
+        return this.finishInitialization("unavailable", failures, recordCounts)
+      }
 
       // Fallback to mock data
       console.log("🔄 Falling back to mock data...")
@@ -209,27 +451,67 @@ class UnifiedDataService {
       this.isLoaded = true
       console.log("✅ Mock data loaded successfully")
       console.log(`📊 Loaded ${this.unifiedLookup.size} mock locations`)
+
+      return this.finishInitialization("mock", failures, recordCounts)
+    }
+  }
+
+  private finishInitialization(
+    mode: DataMode,
+    failures: SourceFailure[],
+    recordCounts: Record<string, number>,
+    fromSnapshot = false,
+  ): InitializationResult {
+    this.initResult = { mode, failures, recordCounts, locations: this.unifiedLookup.size, fromSnapshot }
+
+    // Mock data has no real vintage
+    this.vintages.clear()
+    if ((mode === "real" || mode === "partial") && this.redfInIndex) {
+      const vintage = indexVintage("index", "Location index", this.redfInIndex.metadata)
+      if (vintage) this.vintages.set("index", vintage)
+    }
+
+    if (failures.length > 0) {
+      console.warn(
+        `⚠️ Data mode: ${mode}, ${failures.length} source(s) failed:`,
+        failures.map((failure) => `${failure.source}: ${failure.reason}`),
+      )
+    } else {
+      console.log(`📊 Data mode: ${mode}`)
     }
+
+    return this.initResult
   }
 
   // Check if data files exist
-  private async checkDataFiles(): Promise<{ redfin: boolean; zip: boolean }> {
+  private async checkDataFiles(
+    transport: DataTransport,
+    options: LoadOptions,
+  ): Promise<{ redfin: boolean; zip: boolean }> {
     const checks = { redfin: false, zip: false }
 
     try {
       // Check redfin file
-      const redfInResponse = await fetch("/redfin_master_index.json", { method: "HEAD" })
+      const redfInResponse = await transport.fetch(transport.resolve("/redfin_master_index.json"), {
+        method: "HEAD",
+        signal: options.signal,
+      })
       checks.redfin =
         redfInResponse.ok && redfInResponse.headers.get("content-type")?.includes("application/json") === true
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.log("redfin_master_index.json not accessible")
     }
 
     try {
       // Check zip file
-      const zipResponse = await fetch("/zip_master_index.csv", { method: "HEAD" })
+      const zipResponse = await transport.fetch(transport.resolve("/zip_master_index.csv"), {
+        method: "HEAD",
+        signal: options.signal,
+      })
       checks.zip = zipResponse.ok && !zipResponse.headers.get("content-type")?.includes("text/html")
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.log("zip_master_index.csv not accessible")
     }
 
@@ -436,197 +718,521 @@ class UnifiedDataService {
     if (!this.redfInIndex) return
 
     console.log("🔄 Building unified location lookup...")
+    const startedAt = performance.now()
+    const build = createUnifiedLookup(this.redfInIndex, this.zipMasterData)
+    this.applyBuild(build, "main-thread", startedAt)
+  }
 
-    // Create zip lookup from zip_master_index
-    const zipLookup = new Map<string, ZipMasterRecord>()
-    this.zipMasterData.forEach((record) => {
-      zipLookup.set(record.zipcode, record)
-    })
-
-    // Process states
-    Object.entries(this.redfInIndex.states).forEach(([stateName, stateInfo]) => {
-      const stateKey = `state:${stateInfo.state_code}`
-
-      // Find representative zip for state coordinates (use first available)
-      const stateZips = this.zipMasterData.filter((z) => z.state_code === stateInfo.state_code)
-      const repZip = stateZips[0]
-
-      const unifiedState: UnifiedLocation = {
-        stateCode: stateInfo.state_code,
-        stateName: stateName,
-        propertyTypes: stateInfo.property_types,
-        primaryTableId: stateInfo.primary_table_id,
-        hierarchicalPath: stateName,
-        coordinates: repZip ? [repZip.INTPTLAT, repZip.INTPTLON] : [0, 0],
-        hasData: {
-          census: stateZips.some((z) => z.has_census_data),
-          redfin: stateZips.some((z) => z.has_redfin_data),
-          geometry: stateZips.some((z) => z.has_geometry),
-        },
-        childZips: stateZips.map((z) => z.zipcode),
-      }
-
-      this.unifiedLookup.set(stateKey, unifiedState)
-    })
+  // Same build in a Web Worker, falling back to the main thread when workers are unavailable
+  private async buildUnifiedLookupInWorker(): Promise<void> {
+    if (!this.redfInIndex) return
+    if (typeof Worker === "undefined") {
+      this.buildUnifiedLookup()
+      return
+    }
 
-    // Process counties
-    Object.entries(this.redfInIndex.counties).forEach(([countyKey, countyInfo]) => {
-      const unifiedCountyKey = `county:${countyKey}`
+    console.log("🔄 Building unified location lookup in worker...")
+    const startedAt = performance.now()
 
-      // Find zips in this county (approximate by state and county name matching)
-      const countyZips = this.zipMasterData.filter(
-        (z) =>
-          z.state_code === countyInfo.state_code &&
-          z.redfin_county_name &&
-          z.redfin_county_name.toLowerCase().includes(countyInfo.county_name.toLowerCase().split(",")[0]),
-      )
+    try {
+      const build = await new Promise<UnifiedLookupBuild>((resolve, reject) => {
+        const worker = new Worker(new URL("./unified-lookup.worker.ts", import.meta.url))
+        worker.onmessage = (event: MessageEvent) => {
+          worker.terminate()
+          if (event.data.ok) {
+            resolve(event.data.build)
+          } else {
+            reject(new Error(event.data.error))
+          }
+        }
+        worker.onerror = (event) => {
+          worker.terminate()
+          reject(new Error(event.message || "Worker failed"))
+        }
+        worker.postMessage({ redfinIndex: this.redfInIndex, zipMasterData: this.zipMasterData })
+      })
 
-      const repZip = countyZips[0]
-      const stateName = this.getStateName(countyInfo.state_code)
-
-      const unifiedCounty: UnifiedLocation = {
-        stateCode: countyInfo.state_code,
-        stateName: stateName,
-        propertyTypes: countyInfo.property_types,
-        primaryTableId: countyInfo.primary_table_id,
-        hierarchicalPath: `${stateName} > ${countyInfo.county_name}`,
-        coordinates: repZip ? [repZip.INTPTLAT, repZip.INTPTLON] : [0, 0],
-        hasData: {
-          census: countyZips.some((z) => z.has_census_data),
-          redfin: countyZips.some((z) => z.has_redfin_data),
-          geometry: countyZips.some((z) => z.has_geometry),
-        },
-        parentState: stateName,
-        childCities: countyInfo.cities,
-        childZips: countyZips.map((z) => z.zipcode),
-      }
+      this.applyBuild(build, "worker", startedAt)
+    } catch (error) {
+      console.warn("⚠️ Worker build failed, building on the main thread:", error)
+      this.buildUnifiedLookup()
+    }
+  }
 
-      this.unifiedLookup.set(unifiedCountyKey, unifiedCounty)
-    })
+  // Install a finished build and index it for spatial queries
+  private applyBuild(build: UnifiedLookupBuild, mode: BuildTimingReport["mode"], startedAt: number): void {
+    this.unifiedLookup = build.locations
+    this.childIds = build.childIds
+    this.tractLoads.clear()
+    this.validations.clear()
+    this.geometryLoads.clear()
+
+    const phases = { ...build.phases }
+    const spatialStart = performance.now()
+
+    // Index coordinates for nearest/radius queries
+    this.spatialIndex.build(this.unifiedLookup)
+    phases.spatial = performance.now() - spatialStart
+
+    // The search index is the slowest part of the build, so it is deferred to the first search
+    this.searchIndexStale = true
+
+    this.buildReport = {
+      mode,
+      totalMs: performance.now() - startedAt,
+      phases,
+      counts: {
+        zipRecords: this.zipMasterData.length,
+        locations: this.unifiedLookup.size,
+      },
+    }
 
-    // Process cities
-    Object.entries(this.redfInIndex.cities).forEach(([cityKey, cityInfo]) => {
-      const unifiedCityKey = `city:${cityKey}`
+    const phaseSummary = Object.entries(phases)
+      .map(([phase, ms]) => `${phase} ${ms.toFixed(1)}ms`)
+      .join(", ")
+    console.log(`✅ Built unified lookup with ${this.unifiedLookup.size} locations`)
+    console.log(`📍 Spatial index covers ${this.spatialIndex.getSize()} locations with coordinates`)
+    console.log(`⏱️ Lookup build (${mode}) took ${this.buildReport.totalMs.toFixed(1)}ms: ${phaseSummary}`)
+  }
 
-      // Find zips in this city
-      const cityZips = this.zipMasterData.filter(
-        (z) =>
-          z.state_code === cityInfo.state_code &&
-          (z.redfin_city?.toLowerCase().includes(cityInfo.city_name.toLowerCase().split(",")[0]) ||
-            z.census_city?.toLowerCase().includes(cityInfo.city_name.toLowerCase().split(",")[0])),
+  // Fetch the snapshot's manifest and install the snapshot it describes. The manifest is regenerated with
+  // the snapshot and checked against the sources before deploys, so the sources are not fetched here
+  private async loadSnapshot(
+    transport: DataTransport,
+    options: SnapshotOptions,
+    loadOptions: LoadOptions,
+  ): Promise<string | null> {
+    try {
+      const manifestResponse = await fetchWithRetry(
+        transport,
+        transport.resolve(options.manifestPath || DEFAULT_MANIFEST_PATH),
+        loadOptions,
       )
-
-      const repZip = cityZips[0]
-      const stateName = this.getStateName(cityInfo.state_code)
-
-      const unifiedCity: UnifiedLocation = {
-        stateCode: cityInfo.state_code,
-        stateName: stateName,
-        propertyTypes: cityInfo.property_types,
-        primaryTableId: cityInfo.primary_table_id,
-        hierarchicalPath: `${stateName} > ${cityInfo.city_name}`,
-        coordinates: repZip ? [repZip.INTPTLAT, repZip.INTPTLON] : [0, 0],
-        hasData: {
-          census: cityZips.some((z) => z.has_census_data),
-          redfin: cityZips.some((z) => z.has_redfin_data),
-          geometry: cityZips.some((z) => z.has_geometry),
-        },
-        parentState: stateName,
-        childZips: cityZips.map((z) => z.zipcode),
+      // No snapshot was generated for this deployment
+      if (manifestResponse.status === 404) return null
+      if (!manifestResponse.ok) {
+        throw new Error(`HTTP ${manifestResponse.status} for the snapshot manifest`)
       }
 
-      this.unifiedLookup.set(unifiedCityKey, unifiedCity)
-    })
+      const manifest: SnapshotManifest = await manifestResponse.json()
+      const path = options.path || manifest.snapshot
+      const response = await fetchWithRetry(transport, transport.resolve(path), loadOptions)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
 
-    // Process ZIP codes (most detailed level)
-    Object.entries(this.redfInIndex.zip_codes).forEach(([zipCode, zipInfo]) => {
-      const zipMasterRecord = zipLookup.get(zipCode)
-      const unifiedZipKey = `zip:${zipCode}`
-      const stateName = this.getStateName(zipInfo.state_code)
-
-      const unifiedZip: UnifiedLocation = {
-        zipCode: zipCode,
-        stateCode: zipInfo.state_code,
-        stateName: stateName,
-        propertyTypes: zipInfo.property_types,
-        primaryTableId: zipInfo.primary_table_id,
-        hierarchicalPath: `${stateName} > ${zipCode}`,
-        coordinates: zipMasterRecord ? [zipMasterRecord.INTPTLAT, zipMasterRecord.INTPTLON] : [0, 0],
-        geoJsonFile: zipMasterRecord?.geojson_file,
-        dataFile: zipMasterRecord?.data_file,
-        hasData: {
-          census: zipMasterRecord?.has_census_data || false,
-          redfin: zipMasterRecord?.has_redfin_data || false,
-          geometry: zipMasterRecord?.has_geometry || false,
-        },
-        landArea: zipMasterRecord?.ALAND,
-        waterArea: zipMasterRecord?.AWATER,
-        metroRegion: zipMasterRecord?.parent_metro_region,
-        dataSource: zipMasterRecord?.data_source,
-        parentState: stateName,
-        parentCounty: zipMasterRecord?.redfin_county_name,
+      const snapshot: UnifiedIndexSnapshot = await response.json()
+      const problem = checkSnapshot(snapshot, manifest)
+      if (problem) {
+        console.warn(`⚠️ Ignoring index snapshot: ${problem}`)
+        return null
       }
 
-      this.unifiedLookup.set(unifiedZipKey, unifiedZip)
-    })
+      this.importSnapshot(snapshot)
+      return path
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      console.warn("⚠️ Could not load index snapshot, building from source files:", error)
+      return null
+    }
+  }
 
-    console.log(`✅ Built unified lookup with ${this.unifiedLookup.size} locations`)
+  // Install a prebuilt lookup, adjacency and search index in place of a build. Adjacency and the fields the
+  // build derives are restored from the stored ones
+  importSnapshot(snapshot: UnifiedIndexSnapshot): void {
+    const startedAt = performance.now()
+    const { locations, childIds } = unpackLocations(snapshot.locations, snapshot.pools)
+    const lookup = new Map(locations.map((location): [string, UnifiedLocation] => [location.id, location]))
+
+    // Only the lookup build reads the per-level maps, and the snapshot replaces it
+    this.redfInIndex = {
+      ...snapshot.index,
+      states: {},
+      counties: {},
+      cities: {},
+      zip_codes: {},
+      search_terms: [],
+    }
+    this.zipMasterData = []
+    this.searchRecords = searchRecordsFromLocations(locations)
+    this.applyBuild({ locations: lookup, childIds, phases: {} }, "snapshot", startedAt)
+
+    const searchStart = performance.now()
+    this.searchIndex.loadSnapshot(snapshot.search, locations, snapshot.pools.strings)
+    this.searchIndexStale = false
+    if (this.buildReport) this.buildReport.phases.search = performance.now() - searchStart
+
+    this.isLoaded = true
+    console.log(`📦 Loaded index snapshot ${snapshot.sourcesHash.slice(0, 12)} from ${snapshot.createdAt}`)
   }
 
-  // Helper method to get state name from code
-  private getStateName(stateCode: string): string {
-    if (!this.redfInIndex) return stateCode
+  // Capture the built lookup for the snapshot generator. Tracts are loaded on demand, so they
+  // are left out; `sources` are the hashes of the files the lookup was built from
+  async exportSnapshot(sources: SourceHash[]): Promise<UnifiedIndexSnapshot> {
+    this.ensureLoaded()
+    this.ensureSearchIndex()
 
-    for (const [stateName, stateInfo] of Object.entries(this.redfInIndex.states)) {
-      if (stateInfo.state_code === stateCode) {
-        return stateName
-      }
+    const locations = Array.from(this.unifiedLookup.values()).filter((location) => location.level !== "tract")
+    const packed = packLocations(locations.map(stripTractLinks), this.searchIndex)
+    return {
+      format: SNAPSHOT_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      sourcesHash: await combineSourceHashes(sources),
+      index: {
+        metadata: this.redfInIndex!.metadata,
+        property_types: this.redfInIndex!.property_types || {},
+      },
+      pools: packed.pools,
+      locations: packed.locations,
+      search: packed.search,
     }
-    return stateCode
   }
 
   // Public API methods
 
   // Get all states for navigation
   getStates(): UnifiedLocation[] {
-    this.ensureLoaded()
-    return Array.from(this.unifiedLookup.values())
-      .filter((loc) => loc.hierarchicalPath.split(" > ").length === 1)
-      .sort((a, b) => a.stateName.localeCompare(b.stateName))
+    return this.getLocationsByLevel("state")
   }
 
   // Get counties in a state
   getCountiesInState(stateCode: string): UnifiedLocation[] {
-    this.ensureLoaded()
-    return Array.from(this.unifiedLookup.values())
-      .filter(
-        (loc) =>
-          loc.stateCode === stateCode &&
-          loc.hierarchicalPath.split(" > ").length === 2 &&
-          loc.hierarchicalPath.includes("County"),
-      )
-      .sort((a, b) => a.hierarchicalPath.localeCompare(b.hierarchicalPath))
+    return this.getLocationsByLevel("county", stateCode)
   }
 
   // Get cities in a state
   getCitiesInState(stateCode: string): UnifiedLocation[] {
-    this.ensureLoaded()
-    return Array.from(this.unifiedLookup.values())
-      .filter(
-        (loc) =>
-          loc.stateCode === stateCode &&
-          loc.hierarchicalPath.split(" > ").length === 2 &&
-          !loc.hierarchicalPath.includes("County"),
-      )
-      .sort((a, b) => a.hierarchicalPath.localeCompare(b.hierarchicalPath))
+    return this.getLocationsByLevel("city", stateCode)
   }
 
   // Get ZIP codes in a state
   getZipsInState(stateCode: string): UnifiedLocation[] {
+    return this.getLocationsByLevel("zip", stateCode)
+  }
+
+  // Get every location at a level, optionally limited to one state
+  getLocationsByLevel(level: LocationLevel, stateCode?: string): UnifiedLocation[] {
     this.ensureLoaded()
     return Array.from(this.unifiedLookup.values())
-      .filter((loc) => loc.stateCode === stateCode && loc.zipCode)
-      .sort((a, b) => (a.zipCode || "").localeCompare(b.zipCode || ""))
+      .filter((loc) => loc.level === level && (!stateCode || loc.stateCode === stateCode))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Find location by id (the unified lookup key)
+  getLocation(id: string): UnifiedLocation | null {
+    this.ensureLoaded()
+    return this.unifiedLookup.get(id) || null
+  }
+
+  // Get the immediate parent of a location (null for states)
+  getParent(location: UnifiedLocation): UnifiedLocation | null {
+    this.ensureLoaded()
+    return location.parentId ? this.unifiedLookup.get(location.parentId) || null : null
+  }
+
+  // Get all ancestors, from the state down to the immediate parent
+  getAncestors(location: UnifiedLocation): UnifiedLocation[] {
+    const ancestors: UnifiedLocation[] = []
+    const visited = new Set<string>([location.id])
+
+    let parent = this.getParent(location)
+    while (parent && !visited.has(parent.id)) {
+      visited.add(parent.id)
+      ancestors.unshift(parent)
+      parent = this.getParent(parent)
+    }
+    return ancestors
+  }
+
+  // Get the direct children of a location, or all of its descendants at `level`
+  // (e.g. every ZIP in a county, whether or not it sits under a city)
+  getChildren(location: UnifiedLocation, level?: LocationLevel): UnifiedLocation[] {
+    this.ensureLoaded()
+
+    // Tracts nest in counties and metros are made of counties, so neither hangs off ZIPs or
+    // metros in the tree. A ZIP's tracts and a metro's counties and ZIPs still count as children
+    // for drilling down, except from states and counties where the tree already reaches them and
+    // the links would pull in locations of neighbouring counties
+    const followLinks = location.level !== "state" && location.level !== "county"
+    const linkedIds = (loc: UnifiedLocation): string[] => {
+      // ZIPs filed under a neighbouring county still count toward every county they touch
+      if (loc === location && loc.level === "county") return (loc.overlappingZips || []).map((zip) => `zip:${zip}`)
+      if (!followLinks) return []
+      if (loc.level === "zip") return (loc.childTracts || []).map((geoid) => `tract:${geoid}`)
+      if (loc.level === "metro") {
+        return [...(loc.memberCounties || []), ...(loc.childZips || []).map((zip) => `zip:${zip}`)]
+      }
+      return []
+    }
+
+    const results: UnifiedLocation[] = []
+    const visited = new Set<string>([location.id])
+    const queue = [...(this.childIds.get(location.id) || []), ...linkedIds(location)]
+
+    while (queue.length > 0) {
+      const id = queue.shift()!
+      if (visited.has(id)) continue
+      visited.add(id)
+
+      const child = this.unifiedLookup.get(id)
+      if (!child) continue
+
+      if (!level) {
+        results.push(child)
+        continue
+      }
+      if (child.level === level) results.push(child)
+      queue.push(...(this.childIds.get(id) || []), ...linkedIds(child))
+    }
+
+    return results.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Get the metros with any member county or ZIP in a state, including ones centred elsewhere
+  getMetrosInState(stateCode: string): UnifiedLocation[] {
+    return this.getLocationsByLevel("metro").filter(
+      (metro) =>
+        metro.stateCode === stateCode ||
+        metro.memberCounties?.some((id) => this.unifiedLookup.get(id)?.stateCode === stateCode) ||
+        metro.childZips?.some((zip) => this.unifiedLookup.get(`zip:${zip}`)?.stateCode === stateCode),
+    )
+  }
+
+  // Get the metro a county or ZIP belongs to
+  getMetro(location: UnifiedLocation): UnifiedLocation | null {
+    this.ensureLoaded()
+    return location.metroCode ? this.unifiedLookup.get(`metro:${location.metroCode}`) || null : null
+  }
+
+  // Load the census tracts of a state from its tract lean files and link them to their
+  // counties and ZIPs. Lean files are large, so tracts are loaded per state on demand
+  loadTracts(stateCode: string, options: LoadOptions = {}): Promise<UnifiedLocation[]> {
+    this.ensureLoaded()
+    return this.sharedLoad(this.tractLoads, stateCode, options, () => this.fetchTracts(stateCode, options))
+  }
+
+  // One load per key, shared by every caller. The options of the call that starts it apply; another
+  // caller's signal only stops its own wait, and it starts the load again if the starting call cancels it
+  private sharedLoad<T>(
+    loads: Map<string, Promise<T>>,
+    key: string,
+    options: LoadOptions,
+    start: () => Promise<T>,
+  ): Promise<T> {
+    const cached = loads.get(key)
+    if (cached) {
+      return whenNotAborted(cached, options.signal).catch((error) => {
+        if (isAbortError(error) && !options.signal?.aborted) return this.sharedLoad(loads, key, options, start)
+        throw error
+      })
+    }
+
+    const pending = start()
+    loads.set(key, pending)
+    // Let a failed or cancelled load be retried
+    pending.catch(() => {
+      if (loads.get(key) === pending) loads.delete(key)
+    })
+    return pending
+  }
+
+  private async fetchTracts(stateCode: string, options: LoadOptions): Promise<UnifiedLocation[]> {
+    const stateLocation = this.unifiedLookup.get(`state:${stateCode}`)
+    if (!stateLocation) {
+      throw new Error(`Unknown state: ${stateCode}`)
+    }
+
+    const transport = this.transport ?? getDefaultTransport()
+    const fetchLean = async (viewMode: "county" | "zip"): Promise<TractLeanRecord[] | null> => {
+      try {
+        const url = resolveTractLeanPath(stateCode, viewMode, stateLocation.stateName, transport)
+        const response = await fetchWithRetry(transport, url, options)
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+        const { rows, report } = validateRows(tractLeanSchema, parseJsonPayload(await response.text(), url), url)
+        this.validations.set(`tracts-${stateCode}-${viewMode}`, report)
+        if (report.issueCount > 0) console.warn(`⚠️ ${summarizeReport(report)}`)
+        return rows
+      } catch (error) {
+        if (isAbortError(error)) throw error
+        console.warn(`⚠️ Could not load tract_${viewMode} lean file for ${stateCode}:`, error)
+        return null
+      }
+    }
+
+    console.log(`🔄 Loading tracts for ${stateCode}...`)
+    const [countyRows, zipRows] = await Promise.all([fetchLean("county"), fetchLean("zip")])
+    if (!countyRows && !zipRows) {
+      throw new Error(`No tract lean files found for ${stateCode}`)
+    }
+
+    const build = createTractLocations(stateLocation, this.unifiedLookup, countyRows || [], zipRows || [])
+    this.applyTractBuild(build)
+    this.vintages.set(
+      `tracts-${stateCode}`,
+      tractVintage(`tracts-${stateCode}`, `Tracts ${stateCode}`, [...(countyRows || []), ...(zipRows || [])]),
+    )
+
+    console.log(`✅ Loaded ${build.tracts.length} tracts for ${stateCode}`)
+    return build.tracts
+  }
+
+  // Add tracts to the lookup and record them on their counties and ZIPs
+  private applyTractBuild(build: TractBuild): void {
+    build.tracts.forEach((tract) => this.unifiedLookup.set(tract.id, tract))
+
+    build.childIds.forEach((tractIds, parentId) => {
+      this.childIds.set(parentId, [...(this.childIds.get(parentId) || []), ...tractIds])
+      const parent = this.unifiedLookup.get(parentId)
+      if (parent?.level === "county") parent.childTracts = tractIds.map((id) => id.slice("tract:".length))
+    })
+
+    build.tractsByZip.forEach((geoids, zipCode) => {
+      const zip = this.unifiedLookup.get(`zip:${zipCode}`)
+      if (zip) zip.childTracts = geoids
+    })
+
+    // A ZIP crossing a state line gets tracts from each state's files, so keep the other
+    // states' shares and weigh them together
+    build.zipCounties.forEach((shares, zipCode) => {
+      const zip = this.unifiedLookup.get(`zip:${zipCode}`)
+      if (!zip) return
+      const statePrefix = shares[0].countyFips.slice(0, 2)
+      const otherStates = (zip.countyShares || []).filter((share) => !share.countyFips.startsWith(statePrefix))
+      zip.countyShares = weighCountyShares([...otherStates, ...shares])
+
+      shares.forEach((share) => {
+        const county = share.countyId ? this.unifiedLookup.get(share.countyId) : undefined
+        if (!county) return
+        county.overlappingZips = Array.from(new Set([...(county.overlappingZips || []), zipCode])).sort()
+      })
+    })
+
+    this.searchIndexStale = true
+  }
+
+  // Replace the ZIP-derived coordinates and bounds of a state's state or county locations with
+  // ones taken from its GeoJSON geometry. Resolves to the number of locations updated
+  loadGeometry(stateCode: string, level: "state" | "county", options: LoadOptions = {}): Promise<number> {
+    this.ensureLoaded()
+    const key = `${stateCode}-${level}`
+    return this.sharedLoad(this.geometryLoads, key, options, () => this.fetchGeometry(stateCode, level, options))
+  }
+
+  private async fetchGeometry(stateCode: string, level: "state" | "county", options: LoadOptions): Promise<number> {
+    const transport = this.transport ?? getDefaultTransport()
+    const url =
+      level === "state"
+        ? resolveIndexPath(`geojson/${stateCode}.geojson`, transport)
+        : resolveGeoJsonPath(stateCode, level, transport)
+
+    const response = await fetchWithRetry(transport, url, options)
+    if (!response.ok) {
+      throw new Error(`Failed to load ${level} geometry for ${stateCode}: ${response.status}`)
+    }
+    return this.applyGeometry(await response.json(), level)
+  }
+
+  // Match GeoJSON features to locations of a level by GEOID and take their centroid and bounds
+  // from the geometry. Returns the number of locations updated
+  applyGeometry(geoJson: any, level: "state" | "county"): number {
+    this.ensureLoaded()
+
+    const width = level === "state" ? 2 : 5
+    const byGeoid = new Map<string, UnifiedLocation>()
+    this.unifiedLookup.forEach((location) => {
+      if (location.level === level && location.geoid) byGeoid.set(location.geoid, location)
+    })
+
+    let updated = 0
+    ;(geoJson?.features || []).forEach((feature: any) => {
+      const geoid = String(feature?.properties?.GEOID ?? "").padStart(width, "0")
+      const location = byGeoid.get(geoid)
+      const bounds = geometryBounds(feature?.geometry)
+      const centroid = geometryCentroid(feature?.geometry)
+      if (!location || !bounds || !centroid) return
+
+      location.bounds = bounds
+      location.coordinates = centroid
+      location.coordinatesSource = "geometry"
+      updated++
+    })
+
+    if (updated > 0) this.spatialIndex.build(this.unifiedLookup)
+    console.log(`📐 Applied ${level} geometry to ${updated} locations`)
+    return updated
+  }
+
+  // As-of dates of the location index ("index") and of loaded tract files ("tracts-NV")
+  getVintage(key: string): DatasetVintage | null {
+    return this.vintages.get(key) || null
+  }
+
+  getVintages(): DatasetVintage[] {
+    return Array.from(this.vintages.values())
+  }
+
+  getValidationReports(): ValidationReport[] {
+    return Array.from(this.validations.values())
+  }
+
+  // Load the ZIP -> county crosswalk of a state. It comes from the tract lean files, so this
+  // loads the state's tracts; without them each ZIP stays whole in its own county
+  async loadZipCountyCrosswalk(stateCode: string): Promise<boolean> {
+    try {
+      await this.loadTracts(stateCode)
+      return true
+    } catch (error) {
+      console.warn(`⚠️ No ZIP-county crosswalk for ${stateCode}:`, error)
+      return false
+    }
+  }
+
+  // Get the counties a ZIP lies in with their allocation weights. Before the crosswalk is
+  // loaded this is the ZIP's own county with weight 1
+  getZipCounties(zip: UnifiedLocation): ZipCountyShare[] {
+    if (zip.countyShares?.length) return zip.countyShares
+
+    const county = this.getAncestors(zip).find((ancestor) => ancestor.level === "county")
+    if (!county) return []
+    return [{ countyId: county.id, countyFips: county.fips || "", countyName: county.name, tracts: 0, weight: 1 }]
+  }
+
+  // Share of a ZIP that lies in a county, 0 when it does not touch it
+  getZipCountyWeight(zip: UnifiedLocation, county: UnifiedLocation): number {
+    return this.getZipCounties(zip).find((share) => share.countyId === county.id)?.weight || 0
+  }
+
+  // Get the ZIPs of a county with the share of each that lies in it, for listings and for
+  // aggregating ZIP values to the county without counting split ZIPs in full
+  getCountyZipAllocations(county: UnifiedLocation): ZipAllocation[] {
+    return this.getChildren(county, "zip")
+      .map((location) => ({ location, weight: this.getZipCountyWeight(location, county) }))
+      .filter((allocation) => allocation.weight > 0)
+  }
+
+  // Weighted sum of a ZIP value over a county; ZIPs without a value are skipped
+  sumZipValuesInCounty(
+    county: UnifiedLocation,
+    valueOf: (zip: UnifiedLocation) => number | null | undefined,
+  ): { total: number; zipCount: number } {
+    let total = 0
+    let zipCount = 0
+    this.getCountyZipAllocations(county).forEach(({ location, weight }) => {
+      const value = valueOf(location)
+      if (value === null || value === undefined || !Number.isFinite(value)) return
+      total += value * weight
+      zipCount += weight
+    })
+    return { total, zipCount }
+  }
+
+  // Get the locations sharing this location's parent and level
+  getSiblings(location: UnifiedLocation): UnifiedLocation[] {
+    const parent = this.getParent(location)
+    const candidates = parent ? this.getChildren(parent) : this.getLocationsByLevel(location.level)
+    return candidates.filter((loc) => loc.level === location.level && loc.id !== location.id)
   }
 
   // Find location by ZIP code
@@ -635,30 +1241,79 @@ class UnifiedDataService {
     return this.unifiedLookup.get(`zip:${zipCode}`) || null
   }
 
-  // Find location by coordinates (approximate)
+  // Find locations near coordinates. `tolerance` is in degrees of latitude (~69 miles each)
+  // and is applied as a haversine radius rather than a lat/lon box
   findByCoordinates(lat: number, lon: number, tolerance = 0.1): UnifiedLocation[] {
     this.ensureLoaded()
-    return Array.from(this.unifiedLookup.values())
-      .filter((loc) => {
-        const [locLat, locLon] = loc.coordinates
-        return Math.abs(locLat - lat) <= tolerance && Math.abs(locLon - lon) <= tolerance
-      })
-      .sort((a, b) => {
-        const distA = Math.sqrt(Math.pow(a.coordinates[0] - lat, 2) + Math.pow(a.coordinates[1] - lon, 2))
-        const distB = Math.sqrt(Math.pow(b.coordinates[0] - lat, 2) + Math.pow(b.coordinates[1] - lon, 2))
-        return distA - distB
-      })
+    return this.spatialIndex.findWithinRadius(lat, lon, tolerance * 69.0).map((result) => result.location)
   }
 
-  // Search locations by name
-  searchLocations(query: string): UnifiedLocation[] {
+  // Find the k locations closest to a point, with distances in miles and km
+  findNearest(lat: number, lon: number, k = 10, options: SpatialQueryOptions = {}): NearbyLocation[] {
     this.ensureLoaded()
-    const lowerQuery = query.toLowerCase()
+    return this.spatialIndex.findNearest(lat, lon, k, options)
+  }
 
-    return Array.from(this.unifiedLookup.values())
-      .filter((loc) => loc.hierarchicalPath.toLowerCase().includes(lowerQuery) || loc.zipCode?.includes(query))
-      .sort((a, b) => a.hierarchicalPath.localeCompare(b.hierarchicalPath))
-      .slice(0, 50) // Limit results
+  // Find all locations within a radius (in miles) of a point, e.g. ZIPs within 10 miles of a parcel
+  findWithinRadius(lat: number, lon: number, miles: number, options: SpatialQueryOptions = {}): NearbyLocation[] {
+    this.ensureLoaded()
+    return this.spatialIndex.findWithinRadius(lat, lon, miles, options)
+  }
+
+  // Resolve a point to the county, ZIP and tract polygons that contain it. The tract is only in the hierarchy
+  // once loadTracts() has loaded its state
+  async reverseGeocode(lat: number, lon: number, options: LoadOptions = {}): Promise<ReverseGeocodedLocation | null> {
+    this.ensureLoaded()
+
+    // Nearby centroids tell us which states' geometry is worth loading
+    const candidateStates = Array.from(
+      new Set(this.spatialIndex.findNearest(lat, lon, 10).map((result) => result.location.stateCode)),
+    )
+    if (candidateStates.length === 0) return null
+
+    const geography = await reverseGeocoder.reverseGeocode(lat, lon, candidateStates, options)
+    if (!geography) return null
+
+    const hierarchy: UnifiedLocation[] = []
+    const state = this.unifiedLookup.get(`state:${geography.stateCode}`)
+    if (state) hierarchy.push(state)
+
+    const county = geography.countyFips ? this.findCountyByFips(geography.countyFips) : null
+    if (county) hierarchy.push(county)
+
+    const zip = geography.zcta ? this.unifiedLookup.get(`zip:${geography.zcta}`) : undefined
+    if (zip) hierarchy.push(zip)
+
+    const tract = geography.tractGeoid ? this.unifiedLookup.get(`tract:${geography.tractGeoid}`) : undefined
+    if (tract) hierarchy.push(tract)
+
+    return {
+      geography,
+      location: hierarchy[hierarchy.length - 1] || null,
+      hierarchy,
+    }
+  }
+
+  // By the 5-digit FIPS, which the geocoder has from the county geometry or the tract GEOID
+  private findCountyByFips(countyFips: string): UnifiedLocation | null {
+    for (const location of this.unifiedLookup.values()) {
+      if (location.level === "county" && (location.fips === countyFips || location.geoid === countyFips)) {
+        return location
+      }
+    }
+    return null
+  }
+
+  // Search locations by name, ZIP or alias, best matches first
+  searchLocations(query: string): UnifiedLocation[] {
+    return this.searchLocationsRanked(query).map((result) => result.location)
+  }
+
+  // Ranked search with the matched field and highlight ranges for display
+  searchLocationsRanked(query: string, limit = 50): SearchResult[] {
+    this.ensureLoaded()
+    this.ensureSearchIndex()
+    return this.searchIndex.search(query, limit)
   }
 
   // Get all available property types
@@ -670,20 +1325,70 @@ class UnifiedDataService {
   }
 
   // Get data loading info for a location
-  getDataLoadingInfo(location: UnifiedLocation): {
+  getDataLoadingInfo(
+    location: UnifiedLocation,
+    propertyTypeCode = ALL_RESIDENTIAL_CODE,
+  ): {
     geoJsonUrl?: string
     dataUrl?: string
     tableId: number
+    // Id of the location the table ID came from
+    tableIdSource: string
     hasRequiredData: boolean
   } {
+    const resolution = this.getTableId(location, propertyTypeCode)
     return {
       geoJsonUrl: location.geoJsonFile,
       dataUrl: location.dataFile,
-      tableId: location.primaryTableId,
+      tableId: resolution?.tableId ?? location.primaryTableId,
+      tableIdSource: resolution?.location.id ?? location.id,
       hasRequiredData: location.hasData.geometry && (location.hasData.census || location.hasData.redfin),
     }
   }
 
+  // Get the Redfin table ID of a location for a property type. When the location has no table
+  // for that type, fall back through its ancestors: ZIP -> city -> county
+  getTableId(location: UnifiedLocation, propertyTypeCode = ALL_RESIDENTIAL_CODE): TableIdResolution | null {
+    return this.getTableIdCandidates(location, propertyTypeCode)[0] || null
+  }
+
+  // Every table ID that can serve a location and property type, in fallback order. Loaders
+  // walk this list when the data file for the first candidate is unavailable
+  getTableIdCandidates(location: UnifiedLocation, propertyTypeCode = ALL_RESIDENTIAL_CODE): TableIdResolution[] {
+    const chain = [location, ...this.getAncestors(location).reverse()].filter(
+      (candidate) => candidate === location || TABLE_ID_FALLBACK_LEVELS.includes(candidate.level),
+    )
+
+    const resolutions: TableIdResolution[] = []
+    chain.forEach((candidate) => {
+      const propertyType = candidate.propertyTypes?.[propertyTypeCode]
+      const tableId = Number(propertyType?.table_id)
+      if (!propertyType || !Number.isFinite(tableId) || tableId <= 0) return
+
+      resolutions.push({
+        tableId,
+        propertyTypeCode,
+        propertyTypeName: propertyType.name || REDFIN_PROPERTY_TYPES[propertyTypeCode] || propertyTypeCode,
+        location: candidate,
+        fellBack: candidate !== location,
+      })
+    })
+    return resolutions
+  }
+
+  // Index names, ZIPs and aliases for ranked search, recording the time in the build report
+  private ensureSearchIndex(): void {
+    if (!this.searchIndexStale) return
+
+    const startedAt = performance.now()
+    this.searchIndex.build(this.unifiedLookup, this.searchRecords ?? this.zipMasterData)
+    this.searchIndexStale = false
+
+    const elapsed = performance.now() - startedAt
+    if (this.buildReport) this.buildReport.phases.search = elapsed
+    console.log(`🔍 Built search index in ${elapsed.toFixed(1)}ms`)
+  }
+
   // Utility method to ensure data is loaded
   private ensureLoaded(): void {
     if (!this.isLoaded) {
@@ -696,6 +1401,16 @@ class UnifiedDataService {
     return this.isLoaded
   }
 
+  // Outcome of the most recent initialize()
+  getInitializationResult(): InitializationResult | null {
+    return this.initResult
+  }
+
+  // Timing of the most recent lookup build
+  getBuildReport(): BuildTimingReport | null {
+    return this.buildReport
+  }
+
   // Get statistics
   getStats(): {
     totalLocations: number
@@ -718,16 +1433,7 @@ class UnifiedDataService {
 
     locations.forEach((loc) => {
       // Count by type
-      const parts = loc.hierarchicalPath.split(" > ")
-      const type =
-        parts.length === 1
-          ? "state"
-          : parts.length === 2 && loc.zipCode
-            ? "zip"
-            : parts.length === 2 && parts[1].includes("County")
-              ? "county"
-              : "city"
-      byType[type] = (byType[type] || 0) + 1
+      byType[loc.level] = (byType[loc.level] || 0) + 1
 
       // Count by state
       byState[loc.stateCode] = (byState[loc.stateCode] || 0) + 1
@@ -749,8 +1455,59 @@ class UnifiedDataService {
       },
     }
   }
+
+  // List the locations missing geometry, census or Redfin data by state and level, checked
+  // against the flags and tract counts of the Index files. Tracts of `tractStates` are loaded
+  // first so tracts without a census lean row can be listed
+  async getCoverageReport(options: CoverageReportOptions = {}): Promise<CoverageReport> {
+    this.ensureLoaded()
+    const states = options.states || []
+    const transport = this.transport ?? getDefaultTransport()
+
+    await Promise.all(
+      (options.tractStates ?? states).map((stateCode) =>
+        this.loadTracts(stateCode, options).catch((error) => {
+          if (isAbortError(error)) throw error
+          console.warn(`⚠️ No tracts to check for ${stateCode}:`, error)
+        }),
+      ),
+    )
+    const tractStates = Array.from(this.tractLoads.keys())
+    const detailStates = Array.from(new Set([...states, ...tractStates]))
+    const index = await indexAdapter.loadCoverageIndex(detailStates, transport, options)
+
+    const locations = Array.from(this.unifiedLookup.values())
+    const report = buildCoverageReport({ locations, index, states, tractStates })
+    console.log(
+      `📋 Coverage report: ${report.gaps.length} locations with gaps, ${report.mismatches.length} index mismatches`,
+    )
+    return report
+  }
 }
 
 // Export singleton instance
 export const unifiedDataService = new UnifiedDataService()
-export type { UnifiedLocation }
+export type {
+  CoordinatesSource,
+  DataMode,
+  InitializationResult,
+  InitializeOptions,
+  LocationLevel,
+  RedfInMasterIndex,
+  ReverseGeocodedLocation,
+  SourceFailure,
+  TableIdResolution,
+  TractLeanRecord,
+  UnifiedLocation,
+  ZipAllocation,
+  ZipCountyShare,
+  ZipMasterRecord,
+}
+export type { BuildTimingReport } from "./unified-lookup-builder"
+export type { BoundingBox } from "./geo-bounds"
+export type { DatasetVintage } from "./vintage"
+export type { CoverageReport, CoverageReportOptions } from "./coverage-report"
+export type { SnapshotManifest, SnapshotOptions, SourceHash, UnifiedIndexSnapshot } from "./index-snapshot"
+export type { GeocodeLevel, ReverseGeocodeResult } from "./reverse-geocoder"
+export type { SearchField, SearchResult } from "./search-index"
+export type { NearbyLocation, SpatialQueryOptions } from "./spatial-index"
@@ -0,0 +1,577 @@
+// unified-lookup-builder.ts
+// Builds the unified location lookup from ZIP records grouped by state, county and city.
+// Every level is a map lookup into those groups, so the build is linear in the input size.
+// Kept free of service state so it can also run inside unified-lookup.worker.ts
+
+import { STATES } from "./file-path-resolver"
+import { placePoints, type PointPlacement } from "./geo-bounds"
+import type {
+  RedfInMasterIndex,
+  TractLeanRecord,
+  UnifiedLocation,
+  ZipCountyShare,
+  ZipMasterRecord,
+} from "./unified-data-service"
+
+interface UnifiedLookupBuild {
+  locations: Map<string, UnifiedLocation>
+  // Location id -> ids of its direct children
+  childIds: Map<string, string[]>
+  // Milliseconds spent in each build phase
+  phases: Record<string, number>
+}
+
+interface TractBuild {
+  tracts: UnifiedLocation[]
+  // Parent (county, else state) id -> tract ids
+  childIds: Map<string, string[]>
+  // ZIP code -> GEOIDs of the tracts overlapping it
+  tractsByZip: Map<string, string[]>
+  // ZIP code -> the counties its tracts lie in, weighted by tract count
+  zipCounties: Map<string, ZipCountyShare[]>
+}
+
+interface BuildTimingReport {
+  mode: "main-thread" | "worker" | "snapshot"
+  totalMs: number
+  phases: Record<string, number>
+  counts: {
+    zipRecords: number
+    locations: number
+  }
+}
+
+// Dynamic typing turns FIPS codes into numbers (e.g. 32003.0), so restore the leading zeros
+function formatFips(value: string | number | undefined, width: number): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  const digits = String(value).replace(/\.0+$/, "")
+  if (!/^\d+$/.test(digits)) return undefined
+  return digits.padStart(width, "0")
+}
+
+// ZIPs parsed as numbers lose their leading zero ("02101" -> 2101)
+function zipOf(record: ZipMasterRecord): string {
+  return String(record.zipcode).padStart(5, "0")
+}
+
+// Redfin names carry a ", ST" suffix that census and index names do not
+function normalizePlaceName(name?: string | null): string {
+  return name
+    ? String(name)
+        .replace(/,\s*[A-Z]{2}$/i, "")
+        .trim()
+        .toLowerCase()
+    : ""
+}
+
+function placeKey(name: string | undefined, stateCode: string): string {
+  return `${normalizePlaceName(name)}|${stateCode}`
+}
+
+function pushGrouped<T>(groups: Map<string, T[]>, key: string, value: T): void {
+  const group = groups.get(key)
+  if (group) {
+    group.push(value)
+  } else {
+    groups.set(key, [value])
+  }
+}
+
+// Land-area weighted centroid and extent of a group of ZIPs
+function placeZips(zips: ZipMasterRecord[]): PointPlacement {
+  return placePoints(
+    zips.map((z) => ({ lat: Number(z.INTPTLAT), lon: Number(z.INTPTLON), weight: Number(z.ALAND) || 0 })),
+  )
+}
+
+// "Nevada", "Nevada > Clark County" or "Nevada > Las Vegas-Henderson-Paradise, NV Metro"
+function hierarchicalPathOf(level: UnifiedLocation["level"], stateName: string, name: string): string {
+  if (level === "state") return stateName
+  return level === "metro" ? `${stateName} > ${name} Metro` : `${stateName} > ${name}`
+}
+
+function summarizeData(zips: ZipMasterRecord[]): UnifiedLocation["hasData"] {
+  return {
+    census: zips.some((z) => z.has_census_data),
+    redfin: zips.some((z) => z.has_redfin_data),
+    geometry: zips.some((z) => z.has_geometry),
+  }
+}
+
+export function createUnifiedLookup(
+  redfinIndex: RedfInMasterIndex,
+  zipMasterData: ZipMasterRecord[],
+): UnifiedLookupBuild {
+  const phases: Record<string, number> = {}
+  let phaseStart = performance.now()
+  const endPhase = (name: string) => {
+    const now = performance.now()
+    phases[name] = now - phaseStart
+    phaseStart = now
+  }
+
+  const locations = new Map<string, UnifiedLocation>()
+
+  // Group ZIP records once so each state, county and city below is a single lookup
+  const zipLookup = new Map<string, ZipMasterRecord>()
+  const zipsByState = new Map<string, ZipMasterRecord[]>()
+  const zipsByCounty = new Map<string, ZipMasterRecord[]>()
+  const zipsByCity = new Map<string, ZipMasterRecord[]>()
+
+  zipMasterData.forEach((record) => {
+    zipLookup.set(zipOf(record), record)
+    pushGrouped(zipsByState, record.state_code, record)
+
+    if (record.redfin_county_name) {
+      pushGrouped(zipsByCounty, placeKey(record.redfin_county_name, record.state_code), record)
+    }
+
+    // A ZIP belongs to both its Redfin and its Census city when they disagree
+    const redfinCity = normalizePlaceName(record.redfin_city)
+    const censusCity = normalizePlaceName(record.census_city)
+    if (redfinCity) pushGrouped(zipsByCity, `${redfinCity}|${record.state_code}`, record)
+    if (censusCity && censusCity !== redfinCity) pushGrouped(zipsByCity, `${censusCity}|${record.state_code}`, record)
+  })
+
+  const stateNames = new Map<string, string>()
+  Object.entries(redfinIndex.states).forEach(([stateName, stateInfo]) => {
+    stateNames.set(stateInfo.state_code, stateName)
+  })
+  const getStateName = (stateCode: string) => stateNames.get(stateCode) || stateCode
+  endPhase("group")
+
+  // Process states
+  Object.entries(redfinIndex.states).forEach(([stateName, stateInfo]) => {
+    const stateKey = `state:${stateInfo.state_code}`
+    const stateZips = zipsByState.get(stateInfo.state_code) || []
+
+    // States without ZIP points fall back to the map center configured for them
+    const placement = placeZips(stateZips)
+    const defaultCenter = STATES[stateInfo.state_code]?.center
+    const stateFips =
+      formatFips(stateZips.find((z) => z.STATE_FIPS)?.STATE_FIPS, 2) || STATES[stateInfo.state_code]?.fredCode
+
+    locations.set(stateKey, {
+      id: stateKey,
+      level: "state",
+      name: stateName,
+      fips: stateFips,
+      geoid: stateFips,
+      stateCode: stateInfo.state_code,
+      stateName: stateName,
+      propertyTypes: stateInfo.property_types,
+      primaryTableId: stateInfo.primary_table_id,
+      hierarchicalPath: hierarchicalPathOf("state", stateName, stateName),
+      coordinates: placement.coordinates || defaultCenter || [0, 0],
+      coordinatesSource: placement.coordinates ? "zips" : defaultCenter ? "default" : undefined,
+      bounds: placement.bounds,
+      hasData: summarizeData(stateZips),
+      childZips: stateZips.map(zipOf),
+    })
+  })
+  endPhase("states")
+
+  // Process counties
+  Object.entries(redfinIndex.counties).forEach(([countyKey, countyInfo]) => {
+    const unifiedCountyKey = `county:${countyKey}`
+    const countyZips = zipsByCounty.get(placeKey(countyInfo.county_name, countyInfo.state_code)) || []
+
+    const placement = placeZips(countyZips)
+    const stateName = getStateName(countyInfo.state_code)
+    const countyFips =
+      formatFips(countyInfo.county_fips, 5) ||
+      formatFips(countyZips.find((z) => z.state_county_code)?.state_county_code, 5)
+
+    locations.set(unifiedCountyKey, {
+      id: unifiedCountyKey,
+      level: "county",
+      name: countyInfo.county_name,
+      fips: countyFips,
+      geoid: countyFips,
+      stateCode: countyInfo.state_code,
+      stateName: stateName,
+      propertyTypes: countyInfo.property_types,
+      primaryTableId: countyInfo.primary_table_id,
+      hierarchicalPath: hierarchicalPathOf("county", stateName, countyInfo.county_name),
+      // Counties without ZIPs fall back to their census internal point
+      coordinates: placement.coordinates || countyInfo.internal_point || [0, 0],
+      coordinatesSource: placement.coordinates ? "zips" : countyInfo.internal_point ? "internal-point" : undefined,
+      bounds: placement.bounds,
+      landArea: countyInfo.land_area,
+      hasData: summarizeData(countyZips),
+      parentState: stateName,
+      childCities: countyInfo.cities,
+      childZips: countyZips.map(zipOf),
+    })
+  })
+  endPhase("counties")
+
+  // Process cities
+  Object.entries(redfinIndex.cities).forEach(([cityKey, cityInfo]) => {
+    const unifiedCityKey = `city:${cityKey}`
+    const cityZips = zipsByCity.get(placeKey(cityInfo.city_name, cityInfo.state_code)) || []
+
+    const placement = placeZips(cityZips)
+    const stateName = getStateName(cityInfo.state_code)
+
+    locations.set(unifiedCityKey, {
+      id: unifiedCityKey,
+      level: "city",
+      name: cityInfo.city_name,
+      stateCode: cityInfo.state_code,
+      stateName: stateName,
+      propertyTypes: cityInfo.property_types,
+      primaryTableId: cityInfo.primary_table_id,
+      hierarchicalPath: hierarchicalPathOf("city", stateName, cityInfo.city_name),
+      coordinates: placement.coordinates || [0, 0],
+      coordinatesSource: placement.coordinates ? "zips" : undefined,
+      bounds: placement.bounds,
+      hasData: summarizeData(cityZips),
+      parentState: stateName,
+      childZips: cityZips.map(zipOf),
+    })
+  })
+  endPhase("cities")
+
+  // Process ZIP codes (most detailed level)
+  Object.entries(redfinIndex.zip_codes).forEach(([zipCode, zipInfo]) => {
+    const zipMasterRecord = zipLookup.get(zipCode)
+    const unifiedZipKey = `zip:${zipCode}`
+    const stateName = getStateName(zipInfo.state_code)
+    const placement = placeZips(zipMasterRecord ? [zipMasterRecord] : [])
+
+    locations.set(unifiedZipKey, {
+      id: unifiedZipKey,
+      level: "zip",
+      name: zipCode,
+      geoid: formatFips(zipMasterRecord?.GEOID, 5) || zipCode,
+      zipCode: zipCode,
+      stateCode: zipInfo.state_code,
+      stateName: stateName,
+      propertyTypes: zipInfo.property_types,
+      primaryTableId: zipInfo.primary_table_id,
+      hierarchicalPath: hierarchicalPathOf("zip", stateName, zipCode),
+      coordinates: placement.coordinates || [0, 0],
+      coordinatesSource: placement.coordinates ? "internal-point" : undefined,
+      bounds: placement.bounds,
+      geoJsonFile: zipMasterRecord?.geojson_file,
+      dataFile: zipMasterRecord?.data_file,
+      hasData: {
+        census: zipMasterRecord?.has_census_data || false,
+        redfin: zipMasterRecord?.has_redfin_data || false,
+        geometry: zipMasterRecord?.has_geometry || false,
+      },
+      landArea: zipMasterRecord?.ALAND,
+      waterArea: zipMasterRecord?.AWATER,
+      metroRegion: zipMasterRecord?.parent_metro_region,
+      metroCode: formatFips(zipMasterRecord?.parent_metro_region_metro_code, 5),
+      dataSource: zipMasterRecord?.data_source,
+      parentState: stateName,
+      parentCounty: zipMasterRecord?.redfin_county_name,
+    })
+  })
+  endPhase("zips")
+
+  createMetroLocations(locations, zipMasterData, redfinIndex, getStateName)
+  endPhase("metros")
+
+  const childIds = linkHierarchy(locations, zipLookup, redfinIndex)
+  endPhase("hierarchy")
+
+  return { locations, childIds, phases }
+}
+
+// Metro areas (CBSAs) keyed by metro code. Members are the counties listed with the code in the
+// index, and the ZIPs whose records carry it; counties are taken from those ZIPs only when the index
+// lists none. Metros cut across the county tree, so members are linked rather than parented
+function createMetroLocations(
+  locations: Map<string, UnifiedLocation>,
+  zipMasterData: ZipMasterRecord[],
+  redfinIndex: RedfInMasterIndex,
+  getStateName: (stateCode: string) => string,
+): void {
+  const zipsByMetro = new Map<string, ZipMasterRecord[]>()
+  zipMasterData.forEach((record) => {
+    const metroCode = formatFips(record.parent_metro_region_metro_code, 5)
+    if (metroCode) pushGrouped(zipsByMetro, metroCode, record)
+  })
+
+  const countiesByMetro = new Map<string, string[]>()
+  const metroNames = new Map<string, string>()
+  Object.entries(redfinIndex.counties).forEach(([countyKey, countyInfo]) => {
+    const metroCode = formatFips(countyInfo.metro_code, 5)
+    if (!metroCode) return
+    pushGrouped(countiesByMetro, metroCode, `county:${countyKey}`)
+    if (countyInfo.metro_name) metroNames.set(metroCode, countyInfo.metro_name)
+  })
+
+  const metroCodes = new Set([...zipsByMetro.keys(), ...countiesByMetro.keys()])
+  metroCodes.forEach((metroCode) => {
+    const metroZips = zipsByMetro.get(metroCode) || []
+    const countyIds = new Set(countiesByMetro.get(metroCode) || [])
+    if (countyIds.size === 0) {
+      metroZips.forEach((record) => {
+        const countyId = `county:${record.redfin_county_name}`
+        if (record.redfin_county_name && locations.has(countyId)) countyIds.add(countyId)
+      })
+    }
+
+    const memberCounties = Array.from(countyIds).filter((id) => locations.has(id))
+    const name = metroZips.find((z) => z.parent_metro_region)?.parent_metro_region || metroNames.get(metroCode)
+    if (!name) return
+
+    // Principal state: the one with the most member ZIPs, else the first member county's
+    const stateCounts = new Map<string, number>()
+    metroZips.forEach((z) => stateCounts.set(z.state_code, (stateCounts.get(z.state_code) || 0) + 1))
+    const stateCode =
+      Array.from(stateCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ||
+      locations.get(memberCounties[0])?.stateCode
+    if (!stateCode) return
+
+    const stateName = getStateName(stateCode)
+    const placement = placeZips(metroZips)
+    const id = `metro:${metroCode}`
+
+    locations.set(id, {
+      id,
+      level: "metro",
+      name,
+      geoid: metroCode,
+      metroCode,
+      stateCode,
+      stateName,
+      propertyTypes: {},
+      primaryTableId: 0,
+      hierarchicalPath: hierarchicalPathOf("metro", stateName, name),
+      coordinates: placement.coordinates || [0, 0],
+      coordinatesSource: placement.coordinates ? "zips" : undefined,
+      bounds: placement.bounds,
+      hasData: summarizeData(metroZips),
+      metroRegion: name,
+      parentState: stateName,
+      memberCounties,
+      childZips: metroZips.map(zipOf),
+    })
+
+    memberCounties.forEach((countyId) => {
+      const county = locations.get(countyId)
+      if (!county) return
+      county.metroCode = metroCode
+      county.metroRegion = name
+    })
+  })
+}
+
+// Assign parents: state > county > city > ZIP, with metros directly under a state. Cities without
+// a known county and ZIPs without a known city fall back to the next level up
+function linkHierarchy(
+  locations: Map<string, UnifiedLocation>,
+  zipLookup: Map<string, ZipMasterRecord>,
+  redfinIndex: RedfInMasterIndex,
+): Map<string, string[]> {
+  const childIds = new Map<string, string[]>()
+
+  // County listings in the redfin index name their cities
+  const countyByCity = new Map<string, string>()
+  Object.entries(redfinIndex.counties).forEach(([countyKey, countyInfo]) => {
+    countyInfo.cities?.forEach((city) => {
+      countyByCity.set(placeKey(city, countyInfo.state_code), `county:${countyKey}`)
+    })
+  })
+
+  // City names differ in case and suffix between sources, so match them normalized
+  const cityIdByName = new Map<string, string>()
+  locations.forEach((location) => {
+    if (location.level === "city") {
+      cityIdByName.set(placeKey(location.name, location.stateCode), location.id)
+    }
+  })
+
+  const existing = (id?: string) => (id && locations.has(id) ? id : undefined)
+  const countyIdForZip = (record?: ZipMasterRecord) =>
+    record?.redfin_county_name ? existing(`county:${record.redfin_county_name}`) : undefined
+
+  locations.forEach((location) => {
+    const stateId = existing(`state:${location.stateCode}`)
+    let parentId: string | undefined
+
+    if (location.level === "county") {
+      parentId = stateId
+    } else if (location.level === "city") {
+      // Fall back to the county holding most of the city's ZIPs
+      const countyCounts = new Map<string, number>()
+      location.childZips?.forEach((zip) => {
+        const countyId = countyIdForZip(zipLookup.get(zip))
+        if (countyId) countyCounts.set(countyId, (countyCounts.get(countyId) || 0) + 1)
+      })
+      const majorityCounty = Array.from(countyCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0]
+
+      const countyId = existing(countyByCity.get(placeKey(location.name, location.stateCode))) || majorityCounty
+      if (countyId) location.parentCounty = locations.get(countyId)?.name
+      parentId = countyId || stateId
+    } else if (location.level === "metro") {
+      // Metros can cross state lines; they sit under the state holding most of their ZIPs
+      parentId = stateId
+    } else if (location.level === "zip") {
+      const record = location.zipCode ? zipLookup.get(location.zipCode) : undefined
+      const cityId = [record?.redfin_city, record?.census_city]
+        .map((city) => (city ? cityIdByName.get(placeKey(city, location.stateCode)) : undefined))
+        .find(Boolean)
+      parentId = cityId || countyIdForZip(record) || stateId
+    }
+
+    if (!parentId || parentId === location.id) return
+
+    location.parentId = parentId
+    pushGrouped(childIds, parentId, location.id)
+  })
+
+  return childIds
+}
+
+// Refill what index snapshots leave out because the build derives it: state names, hierarchical paths and
+// the ZIPs of states, counties and metros. Cities keep their own ZIP lists, since a ZIP can sit in both its
+// Redfin and its Census city. Locations must have their parentId; returns parent id -> child ids
+export function restoreDerivedFields(locations: UnifiedLocation[]): Map<string, string[]> {
+  const stateNames = new Map<string, string>()
+  const zipsByState = new Map<string, string[]>()
+  const zipsByCounty = new Map<string, string[]>()
+  const zipsByMetro = new Map<string, string[]>()
+  locations.forEach((location) => {
+    if (location.level === "state") stateNames.set(location.stateCode, location.name)
+    if (location.level !== "zip" || !location.zipCode) return
+    pushGrouped(zipsByState, location.stateCode, location.zipCode)
+    if (location.parentCounty) {
+      pushGrouped(zipsByCounty, placeKey(location.parentCounty, location.stateCode), location.zipCode)
+    }
+    if (location.metroCode) pushGrouped(zipsByMetro, location.metroCode, location.zipCode)
+  })
+
+  const childIds = new Map<string, string[]>()
+  locations.forEach((location) => {
+    const stateName = stateNames.get(location.stateCode) || location.stateCode
+    location.stateName = stateName
+    location.hierarchicalPath = hierarchicalPathOf(location.level, stateName, location.name)
+    if (location.level !== "state") location.parentState = stateName
+
+    if (location.level === "state") location.childZips = zipsByState.get(location.stateCode) || []
+    if (location.level === "county") {
+      location.childZips = zipsByCounty.get(placeKey(location.name, location.stateCode)) || []
+    }
+    if (location.level === "metro") location.childZips = zipsByMetro.get(location.metroCode || "") || []
+
+    if (location.parentId) pushGrouped(childIds, location.parentId, location.id)
+  })
+  return childIds
+}
+
+// Tract names as the Census Bureau prints them: "960100" -> "Census Tract 9601", "000201" -> "Census Tract 2.01"
+export function tractName(tractCode: string): string {
+  const base = String(Number(tractCode.slice(0, 4)))
+  const suffix = tractCode.slice(4)
+  return `Census Tract ${suffix === "00" ? base : `${base}.${suffix}`}`
+}
+
+// Build the tract locations of one state from its tract lean files. Tracts nest inside counties,
+// so the county is the parent; the ZIPs a tract overlaps come from the tract_zip file
+export function createTractLocations(
+  stateLocation: UnifiedLocation,
+  locations: Map<string, UnifiedLocation>,
+  countyRows: TractLeanRecord[],
+  zipRows: TractLeanRecord[],
+): TractBuild {
+  const countyIdByFips = new Map<string, string>()
+  locations.forEach((location) => {
+    if (location.level === "county" && location.stateCode === stateLocation.stateCode && location.fips) {
+      countyIdByFips.set(location.fips, location.id)
+    }
+  })
+
+  // GEOID -> first row seen and the ZIPs the tract overlaps
+  const rowsByGeoid = new Map<string, { row: TractLeanRecord; zips: Set<string> }>()
+  const register = (row: TractLeanRecord) => {
+    const geoid = formatFips(row.GEOID, 11)
+    if (!geoid) return undefined
+    let entry = rowsByGeoid.get(geoid)
+    if (!entry) {
+      entry = { row, zips: new Set() }
+      rowsByGeoid.set(geoid, entry)
+    }
+    return entry
+  }
+
+  countyRows.forEach(register)
+  zipRows.forEach((row) => {
+    const zip = formatFips(row.zip, 5)
+    const entry = register(row)
+    if (entry && zip) entry.zips.add(zip)
+  })
+
+  const tracts: UnifiedLocation[] = []
+  const childIds = new Map<string, string[]>()
+  const tractsByZip = new Map<string, string[]>()
+  // ZIP code -> county FIPS -> tracts of the ZIP in that county
+  const zipCountyTracts = new Map<string, Map<string, number>>()
+  const countyNames = new Map<string, string>()
+
+  rowsByGeoid.forEach(({ row, zips }, geoid) => {
+    const id = `tract:${geoid}`
+    const countyId = countyIdByFips.get(geoid.slice(0, 5))
+    const countyName = (countyId && locations.get(countyId)?.name) || row.county_name
+    const name = tractName(geoid.slice(5))
+    const zipCodes = Array.from(zips).sort()
+    if (countyName) countyNames.set(geoid.slice(0, 5), countyName)
+
+    tracts.push({
+      id,
+      level: "tract",
+      name,
+      geoid,
+      stateCode: stateLocation.stateCode,
+      stateName: stateLocation.stateName,
+      propertyTypes: {},
+      primaryTableId: 0,
+      hierarchicalPath: [stateLocation.stateName, countyName, name].filter(Boolean).join(" > "),
+      coordinates: [0, 0],
+      hasData: { census: true, redfin: false, geometry: false },
+      dataSource: "census_tract_lean",
+      parentId: countyId || stateLocation.id,
+      parentCounty: countyName ?? undefined,
+      parentState: stateLocation.stateName,
+      zipCodes,
+    })
+
+    pushGrouped(childIds, countyId || stateLocation.id, id)
+    zipCodes.forEach((zip) => {
+      pushGrouped(tractsByZip, zip, geoid)
+      const counts = zipCountyTracts.get(zip) || new Map<string, number>()
+      counts.set(geoid.slice(0, 5), (counts.get(geoid.slice(0, 5)) || 0) + 1)
+      zipCountyTracts.set(zip, counts)
+    })
+  })
+
+  const zipCounties = new Map<string, ZipCountyShare[]>()
+  zipCountyTracts.forEach((counts, zip) => {
+    const shares = Array.from(counts.entries()).map(([countyFips, tractCount]) => ({
+      countyId: countyIdByFips.get(countyFips),
+      countyFips,
+      countyName: countyNames.get(countyFips),
+      tracts: tractCount,
+      weight: 0,
+    }))
+    zipCounties.set(zip, weighCountyShares(shares))
+  })
+
+  return { tracts, childIds, tractsByZip, zipCounties }
+}
+
+// Tracts are drawn to hold similar numbers of residents, so a ZIP's share of its tracts in each
+// county stands in for its residential allocation. Largest share first
+export function weighCountyShares(shares: ZipCountyShare[]): ZipCountyShare[] {
+  const total = shares.reduce((sum, share) => sum + share.tracts, 0)
+  return shares
+    .map((share) => ({ ...share, weight: total > 0 ? share.tracts / total : 1 / shares.length }))
+    .sort((a, b) => b.weight - a.weight)
+}
+
+export type { BuildTimingReport, TractBuild, UnifiedLookupBuild }
@@ -0,0 +1,15 @@
+// unified-lookup.worker.ts
+// Runs the unified lookup build off the main thread so large indexes do not block the UI
+
+import { createUnifiedLookup } from "./unified-lookup-builder"
+
+self.onmessage = (event: MessageEvent) => {
+  const { redfinIndex, zipMasterData } = event.data
+
+  try {
+    const build = createUnifiedLookup(redfinIndex, zipMasterData)
+    self.postMessage({ ok: true, build })
+  } catch (error) {
+    self.postMessage({ ok: false, error: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,168 @@
+// vintage.ts
+// As-of dates of loaded datasets, and warnings when datasets shown together describe different periods
+
+type VintageSource = "census" | "fred" | "redfin" | "index" | "tracts"
+
+// Census and FRED files describe a year, Redfin files a month
+type VintagePrecision = "year" | "month"
+
+interface DatasetVintage {
+  key: string // Cache key of the dataset, e.g. "redfin-NV-county"
+  source: VintageSource
+  label: string // e.g. "Redfin NV county"
+  asOf: string | null // Last day the data covers (YYYY-MM-DD); null when the rows carry no date
+  precision: VintagePrecision
+  updated?: string // When the file was produced, where it says so
+  loadedAt: string
+}
+
+interface VintageWarning {
+  newer: DatasetVintage
+  older: DatasetVintage
+  monthsApart: number
+  message: string
+}
+
+// Sources further apart than this are flagged
+const MISALIGNMENT_THRESHOLD_MONTHS = 12
+
+const SOURCE_NAMES: Record<VintageSource, string> = {
+  census: "ACS",
+  fred: "FRED",
+  redfin: "Redfin",
+  index: "Location index",
+  tracts: "Tract ACS",
+}
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+function latestYear(rows: any[], field: string): number | null {
+  let latest: number | null = null
+  rows.forEach((row) => {
+    const year = Number(row?.[field])
+    if (Number.isInteger(year) && year > 1900 && (latest === null || year > latest)) latest = year
+  })
+  return latest
+}
+
+// ISO date strings compare correctly as text
+function latestDate(rows: any[], field: string): string | null {
+  let latest: string | null = null
+  rows.forEach((row) => {
+    const value = row?.[field]
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value) && (latest === null || value > latest)) {
+      latest = value
+    }
+  })
+  return latest
+}
+
+function yearEnd(year: number | null): string | null {
+  return year === null ? null : `${year}-12-31`
+}
+
+function vintage(
+  key: string,
+  source: VintageSource,
+  label: string,
+  asOf: string | null,
+  precision: VintagePrecision,
+  updated?: string | null,
+): DatasetVintage {
+  return {
+    key,
+    source,
+    label,
+    asOf: asOf ? asOf.slice(0, 10) : null,
+    precision,
+    updated: updated ? updated.slice(0, 10) : undefined,
+    loadedAt: new Date().toISOString(),
+  }
+}
+
+// Census summaries carry the ACS year in `year`
+export function censusVintage(key: string, label: string, rows: any[]): DatasetVintage {
+  return vintage(key, "census", label, yearEnd(latestYear(rows, "year")), "year")
+}
+
+// Tract lean files carry the ACS year in `year`
+export function tractVintage(key: string, label: string, rows: any[]): DatasetVintage {
+  return vintage(key, "tracts", label, yearEnd(latestYear(rows, "year")), "year")
+}
+
+// FRED county rows carry `data_year`
+export function fredVintage(key: string, label: string, rows: any[]): DatasetVintage {
+  return vintage(key, "fred", label, yearEnd(latestYear(rows, "data_year")), "year")
+}
+
+// Redfin rows cover a month ending on `period_end`; `last_updated` is when Redfin published them
+export function redfinVintage(key: string, label: string, rows: any[]): DatasetVintage {
+  return vintage(key, "redfin", label, latestDate(rows, "period_end"), "month", latestDate(rows, "last_updated"))
+}
+
+// The master index is built for `target_year` and stamped with `created`. Indexes built from the Index
+// CSVs carry neither, so they have no vintage
+export function indexVintage(
+  key: string,
+  label: string,
+  metadata: { created?: string; target_year?: number } | undefined,
+): DatasetVintage | null {
+  const targetYear = Number(metadata?.target_year)
+  if (!Number.isInteger(targetYear) && !metadata?.created) return null
+  return vintage(
+    key,
+    "index",
+    label,
+    yearEnd(Number.isInteger(targetYear) ? targetYear : null),
+    "year",
+    metadata?.created,
+  )
+}
+
+// "Apr 2025" for monthly data, "2023" for yearly
+export function formatAsOf(vintage: DatasetVintage | null | undefined): string {
+  if (!vintage?.asOf) return "unknown"
+  const [year, month] = vintage.asOf.split("-")
+  return vintage.precision === "month" ? `${MONTH_NAMES[Number(month) - 1]} ${year}` : year
+}
+
+// "Redfin Apr 2025", "ACS 2023"
+export function describeVintage(vintage: DatasetVintage): string {
+  return `${SOURCE_NAMES[vintage.source]} ${formatAsOf(vintage)}`
+}
+
+function monthsBetween(a: string, b: string): number {
+  const [yearA, monthA] = a.split("-").map(Number)
+  const [yearB, monthB] = b.split("-").map(Number)
+  return Math.abs((yearA - yearB) * 12 + (monthA - monthB))
+}
+
+// Pairs of datasets whose as-of dates are more than `thresholdMonths` apart, widest gap first.
+// Datasets of the same source are not compared with each other
+export function findMisalignments(
+  vintages: Array<DatasetVintage | null | undefined>,
+  thresholdMonths = MISALIGNMENT_THRESHOLD_MONTHS,
+): VintageWarning[] {
+  const dated = vintages.filter((v): v is DatasetVintage => Boolean(v?.asOf))
+  const warnings: VintageWarning[] = []
+
+  dated.forEach((a, i) => {
+    dated.slice(i + 1).forEach((b) => {
+      if (a.source === b.source) return
+      const monthsApart = monthsBetween(a.asOf!, b.asOf!)
+      if (monthsApart <= thresholdMonths) return
+
+      const [newer, older] = a.asOf! > b.asOf! ? [a, b] : [b, a]
+      warnings.push({
+        newer,
+        older,
+        monthsApart,
+        message: `${describeVintage(newer)} is shown next to ${describeVintage(older)} (${monthsApart} months apart)`,
+      })
+    })
+  })
+
+  return warnings.sort((a, b) => b.monthsApart - a.monthsApart)
+}
+
+export type { DatasetVintage, VintagePrecision, VintageSource, VintageWarning }
@@ -1,6 +1,7 @@
 "use client"
 
 import { useEffect, useRef } from "react"
+import type { BoundingBox } from "@/lib/geo-bounds"
 
 interface EnhancedFastLeafletMapProps {
   geoJsonData: any
@@ -13,6 +14,8 @@ interface EnhancedFastLeafletMapProps {
   colorScale: any
   center: [number, number]
   zoom: number
+  // When set, the map fits these bounds instead of using center and zoom
+  bounds?: BoundingBox | null
   metricFormat?: string
   formatTooltipValue?: (value: any) => string
   isCategorical?: boolean
@@ -30,6 +33,7 @@ export default function EnhancedFastLeafletMap({
   colorScale,
   center,
   zoom,
+  bounds,
   metricFormat,
   formatTooltipValue,
   isCategorical,
@@ -46,6 +50,7 @@ export default function EnhancedFastLeafletMap({
       dataSource,
       center,
       zoom,
+      bounds,
       colorScale: colorScale ? "present" : "missing",
       isCategorical,
       selectedArea,
@@ -68,10 +73,13 @@ export default function EnhancedFastLeafletMap({
       // If selectedArea is provided, log it
       if (selectedArea) {
         console.log(`🎯 Selected area: ${selectedArea}`)
-        // In a real implementation, you would zoom to the selected area
       }
     }
-  }, [geoJsonData, selectedMetric, getCountyValue, formatTooltipValue, selectedArea])
+
+    if (bounds) {
+      console.log(`🔭 Fitting bounds: ${JSON.stringify(bounds)}`)
+    }
+  }, [geoJsonData, selectedMetric, getCountyValue, formatTooltipValue, selectedArea, bounds])
 
   return (
     <div ref={mapRef} className="w-full h-full bg-gray-100 flex items-center justify-center">
@@ -85,6 +93,12 @@ export default function EnhancedFastLeafletMap({
             Center: [{center[0]}, {center[1]}]
           </div>
           <div>Zoom: {zoom}</div>
+          {bounds && (
+            <div>
+              Bounds: [{bounds[0][0].toFixed(3)}, {bounds[0][1].toFixed(3)}] - [{bounds[1][0].toFixed(3)},{" "}
+              {bounds[1][1].toFixed(3)}]
+            </div>
+          )}
           <div>Color Scale: {colorScale ? "✅" : "❌"}</div>
           <div>Categorical: {isCategorical ? "Yes" : "No"}</div>
           {selectedArea && <div>Selected Area: {selectedArea}</div>}
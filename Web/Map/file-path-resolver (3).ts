@@ -1,5 +1,7 @@
 // File path resolver to centralize all file naming logic
 
+import { getDefaultTransport, type DataTransport } from "@/lib/data-transport"
+
 interface StateInfo {
   name: string
   fredCode: string
@@ -41,22 +43,52 @@ export const DATA_SOURCES = {
     name: "Census",
     description: "US Census Bureau Data",
     filePattern: "Cen_{state}_{level}_2023_summary.json",
+    // Levels with a file per state
+    levels: ["state", "county", "zip"],
   },
   fred: {
     name: "FRED",
     description: "Federal Reserve Economic Data",
     filePattern: "fred_counties_{code}.json",
+    levels: ["county"],
   },
   redfin: {
     name: "Redfin",
     description: "Redfin Real Estate Market Data",
-    filePattern: "redfin_{state}_county_{year}.json",
+    filePattern: "redfin_{state}_{level}.json",
+    levels: ["state", "county"],
   },
 }
 
+// Per-state detail files published under Index/csv, e.g. Index/csv/NV_zip_data.csv. Listed here so the
+// index build does not probe every state for them; build-index-snapshot.ts fails on files missing from it
+export const INDEX_DETAIL_FILES: Record<string, Array<"county" | "zip">> = {
+  AL: ["county"],
+  CA: ["county", "zip"],
+  GA: ["county", "zip"],
+  MA: ["county", "zip"],
+  NV: ["county", "zip"],
+  TX: ["county", "zip"],
+}
+
+// Index/csv detail file name for a state and level
+export function indexDetailFileName(stateAbbrev: string, level: "county" | "zip"): string {
+  return `${stateAbbrev}_${level}_data.csv`
+}
+
+// Whether a data source publishes a file per state at this level, e.g. Redfin has no ZIP or city files
+export function hasDataFile(dataSource: string, level: string): boolean {
+  const sourceInfo = DATA_SOURCES[dataSource as keyof typeof DATA_SOURCES]
+  return !!sourceInfo && sourceInfo.levels.includes(level)
+}
+
 // Get the correct file path for a data source
-export function resolveDataPath(stateAbbrev: string, level: string, dataSource: string): string {
-  const BASE_URL = "https://raw.githubusercontent.com/CommercialBotAl/re_data/main"
+export function resolveDataPath(
+  stateAbbrev: string,
+  level: string,
+  dataSource: string,
+  transport: DataTransport = getDefaultTransport(),
+): string {
   const state = STATES[stateAbbrev]
 
   if (!state) {
@@ -76,16 +108,39 @@ export function resolveDataPath(stateAbbrev: string, level: string, dataSource:
   } else if (dataSource === "fred") {
     filePath = sourceInfo.filePattern.replace("{code}", state.fredCode)
   } else if (dataSource === "redfin") {
-    filePath = sourceInfo.filePattern.replace("{state}", state.name).replace("{year}", "2020") // Default to 2020 data
+    // Redfin files are named by abbreviation, e.g. NV/redfin_NV_county.json
+    filePath = sourceInfo.filePattern.replace("{state}", stateAbbrev).replace("{level}", level)
   }
 
-  return `${BASE_URL}/${stateAbbrev}/${filePath}`
+  return transport.resolve(`${stateAbbrev}/${filePath}`)
 }
 
 // Get the correct GeoJSON path
-export function resolveGeoJsonPath(stateAbbrev: string, level: string): string {
-  const BASE_URL = "https://raw.githubusercontent.com/CommercialBotAl/re_data/main"
-  return `${BASE_URL}/Index/geojson/${stateAbbrev}_${level}_geometry.geojson`
+export function resolveGeoJsonPath(
+  stateAbbrev: string,
+  level: string,
+  transport: DataTransport = getDefaultTransport(),
+): string {
+  return transport.resolve(`Index/geojson/${stateAbbrev}_${level}_geometry.geojson`)
+}
+
+// Get the path of a file under Index/ (e.g. "zip_data_index.csv" or "csv/NV_zip_data.csv")
+export function resolveIndexPath(fileName: string, transport: DataTransport = getDefaultTransport()): string {
+  return transport.resolve(`Index/${fileName}`)
+}
+
+// Get the path of a tract lean file, e.g. NV/Cen_Nevada_tract_zip_2023_lean.json.
+// The state name is needed for states outside STATES
+export function resolveTractLeanPath(
+  stateAbbrev: string,
+  viewMode: "county" | "zip",
+  stateName: string | undefined = STATES[stateAbbrev]?.name,
+  transport: DataTransport = getDefaultTransport(),
+): string {
+  if (!stateName) {
+    throw new Error(`Unknown state: ${stateAbbrev}`)
+  }
+  return transport.resolve(`${stateAbbrev}/Cen_${stateName}_tract_${viewMode}_2023_lean.json`)
 }
 
 // Get the appropriate data source for a level
@@ -0,0 +1,327 @@
+// Map data parsing - downloads geometry and data files and turns them into map-ready features and rows.
+// Runs in map-data.worker.ts so large files (tract lean files, the Redfin county file) do not block the
+// page. Files are parsed a chunk at a time, as their bytes arrive when they are not cached, with progress
+// posted back after every chunk
+
+import { CsvRowStream, JsonRowStream } from "@/lib/stream-parser"
+import { HttpTransport, type DataTransport } from "@/lib/data-transport"
+import { CachedTransport } from "@/lib/data-cache"
+import { abortError, fetchWithRetry, throwIfAborted, type LoadOptions } from "@/lib/fetch-policy"
+import {
+  looksLikeHtml,
+  summarizeReport,
+  validateRows,
+  type PayloadRow,
+  type RowSchema,
+  type ValidationReport,
+} from "@/lib/schema"
+import { matchSimpleFeatures } from "./simple-data-mapping"
+import { matchTractFeatures } from "./tract-data-mapping"
+
+interface MapLoadProgress {
+  // Files are parsed while they download; "parse" is a file whose text arrived in one piece
+  stage: "download" | "parse" | "match"
+  // Location of the file being downloaded or parsed; null while matching
+  file: string | null
+  // 0-1; null while the size is unknown
+  fraction: number | null
+  // Rows or features read so far
+  rows: number
+}
+
+interface MapLoadOptions extends LoadOptions {
+  onProgress?: (progress: MapLoadProgress) => void
+}
+
+// How features are matched to data rows
+type FeatureMatch = { kind: "tract" } | { kind: "simple"; level: string }
+
+// Files by their resolved location
+interface MapParseJob {
+  geometry: { location: string } | null
+  data: { location: string; schema: RowSchema; essentialColumns: string[] } | null
+  match: FeatureMatch
+}
+
+interface MapParseResult {
+  geoJson: any
+  rows: PayloadRow[]
+  // Schema check of the data file; null when it was not parsed
+  validation: ValidationReport | null
+  // Index into rows of each feature's row; -1 where there is none
+  featureRows: number[]
+  // Size of the data file; 0 when it was not loaded
+  dataBytes: number
+  // Why a file could not be loaded or parsed; the other file is still used
+  geometryError: string | null
+  dataError: string | null
+}
+
+// Characters parsed between progress reports, for text that arrives in one piece
+const PARSE_CHUNK_CHARS = 256 * 1024
+
+interface ParseOptions extends LoadOptions {
+  onProgress?: (progress: MapLoadProgress) => void
+  // Give the page a turn between chunks, when parsing on the main thread
+  yieldBetweenChunks?: boolean
+}
+
+interface RowStream {
+  push(chunk: string): void
+  readonly rows: number
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function nextTurn(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+function htmlPageError(source: string): Error {
+  return new Error(`${source} returned an HTML page instead of data (likely a 404 page)`)
+}
+
+// Feed a file's text to a row stream one slice at a time, reporting progress after each
+async function streamText(text: string, source: string, stream: RowStream, options: ParseOptions): Promise<void> {
+  if (looksLikeHtml(text)) throw htmlPageError(source)
+  for (let offset = 0; offset < text.length; offset += PARSE_CHUNK_CHARS) {
+    throwIfAborted(options.signal)
+    stream.push(text.slice(offset, offset + PARSE_CHUNK_CHARS))
+    const parsed = Math.min(offset + PARSE_CHUNK_CHARS, text.length)
+    options.onProgress?.({ stage: "parse", file: source, fraction: parsed / text.length, rows: stream.rows })
+    if (options.yieldBetweenChunks) await nextTurn()
+  }
+}
+
+// Download a file into a row stream, pushing each chunk as it arrives and reporting progress after it.
+// Responses without a readable body (cached or local files) are fed from their text instead. Returns the
+// file's size in bytes
+async function streamFile(
+  transport: DataTransport,
+  location: string,
+  stream: RowStream,
+  options: ParseOptions,
+): Promise<number> {
+  options.onProgress?.({ stage: "download", file: location, fraction: null, rows: 0 })
+  const response = await fetchWithRetry(transport, location, options)
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText} loading ${location}`)
+  }
+
+  const contentLength = Number(response.headers.get("content-length")) || null
+  if (!response.body) {
+    const text = await response.text()
+    await streamText(text, location, stream, options)
+    return contentLength ?? new Blob([text]).size
+  }
+  return streamBody(response.body, contentLength, location, stream, options)
+}
+
+// The bytes are counted as they arrive, for the progress fraction and the file size
+async function streamBody(
+  body: ReadableStream<Uint8Array>,
+  contentLength: number | null,
+  location: string,
+  stream: RowStream,
+  options: ParseOptions,
+): Promise<number> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let bytes = 0
+  let sniffed = false
+
+  try {
+    for (;;) {
+      throwIfAborted(options.signal)
+      const { done, value } = await reader.read()
+      if (done) break
+
+      bytes += value.byteLength
+      const text = decoder.decode(value, { stream: true })
+      if (!sniffed && text.trim()) {
+        if (looksLikeHtml(text)) throw htmlPageError(location)
+        sniffed = true
+      }
+      stream.push(text)
+
+      // Compressed responses report their compressed length, so the fraction is capped
+      const fraction = contentLength ? Math.min(bytes / contentLength, 1) : null
+      options.onProgress?.({ stage: "download", file: location, fraction, rows: stream.rows })
+    }
+    stream.push(decoder.decode())
+    return bytes
+  } catch (error) {
+    reader.cancel().catch(() => undefined)
+    throw error
+  }
+}
+
+async function parseGeometry(
+  geometry: NonNullable<MapParseJob["geometry"]>,
+  transport: DataTransport,
+  options: ParseOptions,
+): Promise<any> {
+  const features: unknown[] = []
+  const stream = new JsonRowStream((rows) => features.push(...rows), ["features"])
+  await streamFile(transport, geometry.location, stream, options)
+  const { envelope } = stream.end()
+  return envelope ? { ...envelope, features } : { type: "FeatureCollection", features }
+}
+
+// Data files are a list of rows, rows under "data" or GeoJSON-like "features", or an object keyed by ID
+async function parseDataRows(
+  data: NonNullable<MapParseJob["data"]>,
+  transport: DataTransport,
+  options: ParseOptions,
+): Promise<{ rows: unknown[]; bytes: number }> {
+  const rows: unknown[] = []
+  const onRows = (batch: unknown[]) => rows.push(...batch)
+
+  if (data.location.toLowerCase().endsWith(".csv")) {
+    const stream = new CsvRowStream(onRows)
+    const bytes = await streamFile(transport, data.location, stream, options)
+    stream.end()
+    if (stream.errors.length > 0) console.warn(`CSV parsing warnings in ${data.location}:`, stream.errors)
+    return { rows, bytes }
+  }
+
+  const stream = new JsonRowStream(onRows)
+  const bytes = await streamFile(transport, data.location, stream, options)
+  const { envelope, rowKey } = stream.end()
+
+  if (rowKey === "features") return { rows: rows.map((feature: any) => feature?.properties || feature), bytes }
+  if (envelope && !rowKey) {
+    return { rows: Object.keys(envelope).map((key) => ({ id: key, ...(envelope[key] as object) })), bytes }
+  }
+  return { rows, bytes }
+}
+
+function filterToEssentialColumns(row: PayloadRow, essentialColumns: string[]): PayloadRow {
+  const filtered: PayloadRow = {}
+  essentialColumns.forEach((col) => {
+    if (row.hasOwnProperty(col)) {
+      filtered[col] = row[col]
+    }
+  })
+  return filtered
+}
+
+// Download, parse, validate, filter and match in one pass. A file that fails is reported in the result
+// rather than thrown, as the loaders show whichever of geometry and data did load
+export async function parseMapData(
+  job: MapParseJob,
+  transport: DataTransport,
+  options: ParseOptions = {},
+): Promise<MapParseResult> {
+  const result: MapParseResult = {
+    geoJson: null,
+    rows: [],
+    validation: null,
+    featureRows: [],
+    dataBytes: 0,
+    geometryError: null,
+    dataError: null,
+  }
+
+  if (job.geometry) {
+    try {
+      result.geoJson = await parseGeometry(job.geometry, transport, options)
+    } catch (error) {
+      if (options.signal?.aborted) throw error
+      result.geometryError = errorMessage(error)
+    }
+  }
+
+  if (job.data) {
+    try {
+      const parsed = await parseDataRows(job.data, transport, options)
+      result.dataBytes = parsed.bytes
+      const { rows, report } = validateRows(job.data.schema, parsed.rows, job.data.location)
+      result.validation = report
+      if (report.issueCount > 0) console.warn(`⚠️ ${summarizeReport(report)}`)
+      result.rows = rows.map((row) => filterToEssentialColumns(row, job.data!.essentialColumns))
+    } catch (error) {
+      if (options.signal?.aborted) throw error
+      result.dataError = errorMessage(error)
+    }
+  }
+
+  const features: any[] = result.geoJson?.features || []
+  if (features.length > 0 && result.rows.length > 0) {
+    throwIfAborted(options.signal)
+    options.onProgress?.({ stage: "match", file: null, fraction: 0, rows: features.length })
+    result.featureRows =
+      job.match.kind === "tract"
+        ? matchTractFeatures(features, result.rows)
+        : matchSimpleFeatures(features, result.rows, job.match.level)
+    options.onProgress?.({ stage: "match", file: null, fraction: 1, rows: features.length })
+  } else {
+    result.featureRows = features.map(() => -1)
+  }
+
+  return result
+}
+
+// A worker fetches over HTTP from the page's origin, which only reaches the files an HttpTransport serves
+function fetchesOverHttp(transport: DataTransport): boolean {
+  const inner = transport instanceof CachedTransport ? transport.inner : transport
+  return inner instanceof HttpTransport
+}
+
+// parseMapData in a Web Worker, which downloads the files itself so they never pass through the page.
+// Its downloads share the persisted data cache with the page, but not the page's memory layer. Falls back to the main thread, through `transport`, when workers are unavailable or fail or the files
+// are not served over HTTP. Aborting the signal stops the worker
+export async function parseMapDataInWorker(
+  job: MapParseJob,
+  transport: DataTransport,
+  options: MapLoadOptions = {},
+): Promise<MapParseResult> {
+  const { signal, onProgress, ...loadOptions } = options
+  const onMainThread = () => parseMapData(job, transport, { ...options, yieldBetweenChunks: true })
+  throwIfAborted(signal)
+  if (typeof Worker === "undefined" || !fetchesOverHttp(transport) || (!job.geometry && !job.data)) {
+    return onMainThread()
+  }
+
+  try {
+    return await new Promise<MapParseResult>((resolve, reject) => {
+      const worker = new Worker(new URL("./map-data.worker.ts", import.meta.url))
+      const finish = () => {
+        worker.terminate()
+        signal?.removeEventListener("abort", onAbort)
+      }
+      const onAbort = () => {
+        finish()
+        reject(abortError())
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+
+      worker.onmessage = (event: MessageEvent) => {
+        const message = event.data
+        if (message.type === "progress") {
+          onProgress?.(message.progress)
+          return
+        }
+        finish()
+        if (message.type === "done") {
+          resolve(message.result)
+        } else {
+          reject(new Error(message.error))
+        }
+      }
+      worker.onerror = (event) => {
+        finish()
+        reject(new Error(event.message || "Worker failed"))
+      }
+      worker.postMessage({ job, options: loadOptions })
+    })
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.warn("⚠️ Map data worker failed, loading on the main thread:", error)
+    return onMainThread()
+  }
+}
+
+export type { FeatureMatch, MapLoadOptions, MapLoadProgress, MapParseJob, MapParseResult }
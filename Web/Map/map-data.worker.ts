@@ -0,0 +1,23 @@
+// map-data.worker.ts
+// Downloads and parses map geometry and data files off the main thread, posting progress as it goes
+
+import { HttpTransport } from "@/lib/data-transport"
+import { withCache } from "@/lib/data-cache"
+import { parseMapData } from "./map-data-parser"
+
+// Job locations arrive resolved, so the transport only fetches them. Downloads go through the worker's own
+// data cache, which keeps bodies in the same IndexedDB store as the page's and revalidates them the same way
+const transport = withCache(new HttpTransport(self.location.origin))
+
+self.onmessage = async (event: MessageEvent) => {
+  const { job, options } = event.data
+  try {
+    const result = await parseMapData(job, transport, {
+      ...options,
+      onProgress: (progress) => self.postMessage({ type: "progress", progress }),
+    })
+    self.postMessage({ type: "done", result })
+  } catch (error) {
+    self.postMessage({ type: "error", error: error instanceof Error ? error.message : String(error) })
+  }
+}
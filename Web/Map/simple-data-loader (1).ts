@@ -1,9 +1,18 @@
+import { getDefaultTransport, type DataTransport } from "@/lib/data-transport"
+import { withCache } from "@/lib/data-cache"
+import type { PayloadRow, RowSchema, ValidationReport } from "@/lib/schema"
+import { censusSummarySchema, fredCountySchema, redfinRowSchema } from "@/lib/payload-schemas"
 import { resolveDataPath, resolveGeoJsonPath } from "./file-path-resolver"
 import { getSimpleDataSource, getSimpleMetrics, getEssentialColumns } from "./simple-data-mapping"
+import { parseMapDataInWorker, type MapLoadOptions, type MapParseJob } from "./map-data-parser"
 
 interface SimpleDataResult {
   geoJson: any
-  csvData: any[]
+  csvData: PayloadRow[]
+  // Data row of each GeoJSON feature, by feature object; features without data are absent
+  featureRows: Map<object, PayloadRow>
+  // Schema check of the data file; null when it was not loaded
+  validation: ValidationReport | null
   dataSource: string
   availableMetrics: any[]
   level: string
@@ -17,9 +26,24 @@ interface SimpleDataResult {
   }
 }
 
-// Simple data loader - only essential columns
-export async function loadSimpleMapData(state: string, level: string): Promise<SimpleDataResult> {
+// Schema the rows of each data source are checked against
+const SOURCE_SCHEMAS: Record<string, RowSchema> = {
+  census: censusSummarySchema,
+  fred: fredCountySchema,
+  redfin: redfinRowSchema,
+}
+
+// Simple data loader - only essential columns. The files are downloaded and parsed in a worker, with
+// progress reported through options.onProgress
+export async function loadSimpleMapData(
+  state: string,
+  level: string,
+  transport: DataTransport = getDefaultTransport(),
+  options: MapLoadOptions = {},
+): Promise<SimpleDataResult> {
   const startTime = performance.now()
+  // Share downloads with the dashboard and other map loads; the worker's cache shares the persisted bodies
+  transport = withCache(transport)
 
   console.log(`🗺️ Loading simple map data: ${state} ${level}`)
 
@@ -29,6 +53,8 @@ export async function loadSimpleMapData(state: string, level: string): Promise<S
   const result: SimpleDataResult = {
     geoJson: null,
     csvData: [],
+    featureRows: new Map(),
+    validation: null,
     dataSource,
     availableMetrics,
     level,
@@ -42,42 +68,54 @@ export async function loadSimpleMapData(state: string, level: string): Promise<S
     },
   }
 
-  // Load GeoJSON
+  // GeoJSON
+  let geometry: MapParseJob["geometry"] = null
   try {
-    result.loadingStats.geoJsonStatus = "loading"
-    const geoJsonUrl = resolveGeoJsonPath(state, level)
+    const geoJsonUrl = resolveGeoJsonPath(state, level, transport)
     console.log(`🗺️ Fetching GeoJSON: ${geoJsonUrl}`)
-
-    const geoResponse = await fetch(geoJsonUrl)
-    if (geoResponse.ok) {
-      result.geoJson = await geoResponse.json()
-      result.loadingStats.geoJsonStatus = "success"
-      result.loadingStats.featuresCount = result.geoJson?.features?.length || 0
-      console.log(`✅ GeoJSON loaded: ${result.loadingStats.featuresCount} features`)
-    } else {
-      result.loadingStats.geoJsonStatus = "failed"
-      console.log(`❌ GeoJSON failed: ${geoResponse.status}`)
-    }
+    geometry = { location: geoJsonUrl }
+    result.loadingStats.geoJsonStatus = "loading"
   } catch (error) {
     result.loadingStats.geoJsonStatus = "failed"
     console.log(`❌ GeoJSON error:`, error)
   }
 
-  // Load data
+  // Data
+  let data: MapParseJob["data"] = null
+  const essentialColumns = getEssentialColumns(level, dataSource)
   try {
-    result.loadingStats.dataStatus = "loading"
-    const dataUrl = resolveDataPath(state, level, dataSource)
+    const dataUrl = resolveDataPath(state, level, dataSource, transport)
     console.log(`📊 Fetching data: ${dataUrl}`)
+    data = { location: dataUrl, schema: SOURCE_SCHEMAS[dataSource], essentialColumns }
+    result.loadingStats.dataStatus = "loading"
+  } catch (error) {
+    result.loadingStats.dataStatus = "failed"
+    console.log(`❌ Data error:`, error)
+  }
 
-    const dataResponse = await fetch(dataUrl)
-    if (dataResponse.ok) {
-      const jsonData = await dataResponse.json()
+  // Download and parse in a worker: drop rows that do not match the schema, keep essential columns only
+  // and match features to rows. A superseded load rejects with an AbortError rather than failing a file
+  const parsed = await parseMapDataInWorker({ geometry, data, match: { kind: "simple", level } }, transport, options)
 
-      // Convert to array and filter to essential columns only
-      const rawData = convertJsonToArray(jsonData)
-      const essentialColumns = getEssentialColumns(level, dataSource)
+  if (geometry) {
+    if (parsed.geoJson) {
+      result.geoJson = parsed.geoJson
+      result.loadingStats.geoJsonStatus = "success"
+      result.loadingStats.featuresCount = result.geoJson.features?.length || 0
+      console.log(`✅ GeoJSON loaded: ${result.loadingStats.featuresCount} features`)
+    } else {
+      result.loadingStats.geoJsonStatus = "failed"
+      console.log(`❌ GeoJSON error:`, parsed.geometryError)
+    }
+  }
 
-      result.csvData = rawData.map((row) => filterToEssentialColumns(row, essentialColumns))
+  if (data) {
+    if (parsed.dataError) {
+      result.loadingStats.dataStatus = "failed"
+      console.log(`❌ Data error:`, parsed.dataError)
+    } else {
+      result.csvData = parsed.rows
+      result.validation = parsed.validation
       result.loadingStats.dataStatus = "success"
       result.loadingStats.dataRowsCount = result.csvData.length
 
@@ -88,15 +126,14 @@ export async function loadSimpleMapData(state: string, level: string): Promise<S
       if (result.csvData.length > 0) {
         console.log(`🔍 Sample data:`, result.csvData[0])
       }
-    } else {
-      result.loadingStats.dataStatus = "failed"
-      console.log(`❌ Data failed: ${dataResponse.status}`)
     }
-  } catch (error) {
-    result.loadingStats.dataStatus = "failed"
-    console.log(`❌ Data error:`, error)
   }
 
+  result.geoJson?.features?.forEach((feature: object, index: number) => {
+    const row = result.csvData[parsed.featureRows[index]]
+    if (row) result.featureRows.set(feature, row)
+  })
+
   const endTime = performance.now()
   result.loadingStats.loadTime = endTime - startTime
 
@@ -104,30 +141,3 @@ export async function loadSimpleMapData(state: string, level: string): Promise<S
 
   return result
 }
-
-// Convert JSON to array (simplified)
-function convertJsonToArray(jsonData: any): any[] {
-  if (Array.isArray(jsonData)) {
-    return jsonData
-  } else if (jsonData.data && Array.isArray(jsonData.data)) {
-    return jsonData.data
-  } else if (jsonData.features && Array.isArray(jsonData.features)) {
-    return jsonData.features.map((feature: any) => feature.properties || feature)
-  } else {
-    return Object.keys(jsonData).map((key) => ({
-      id: key,
-      ...jsonData[key],
-    }))
-  }
-}
-
-// Filter to only essential columns
-function filterToEssentialColumns(row: any, essentialColumns: string[]): any {
-  const filtered: any = {}
-  essentialColumns.forEach((col) => {
-    if (row.hasOwnProperty(col)) {
-      filtered[col] = row[col]
-    }
-  })
-  return filtered
-}
@@ -1,5 +1,7 @@
 // Simple data mapping - only essential columns for fast loading
 
+import type { PayloadRow } from "@/lib/schema"
+
 interface SimpleColumnMapping {
   display: string
   category: string
@@ -139,7 +141,7 @@ export function extractSimpleFeatureId(feature: any, level: string): string | nu
 }
 
 // Match feature to data with simple logic
-export function matchSimpleFeatureToData(feature: any, dataRows: any[], level: string): any | null {
+export function matchSimpleFeatureToData(feature: any, dataRows: PayloadRow[], level: string): PayloadRow | null {
   if (!feature || !dataRows || dataRows.length === 0) return null
 
   const featureId = extractSimpleFeatureId(feature, level)
@@ -166,13 +168,45 @@ export function matchSimpleFeatureToData(feature: any, dataRows: any[], level: s
   return null
 }
 
+// Match every feature at once, with the same rules as matchSimpleFeatureToData but through an index of
+// the rows per ID column. Returns the index of each feature's row, -1 where there is none
+export function matchSimpleFeatures(features: any[], dataRows: PayloadRow[], level: string): number[] {
+  const dataFields = {
+    state: ["state_code", "STATE"],
+    county: ["county_fips", "GEOID", "fips"],
+    zip: ["zip", "ZIP", "zipcode"],
+  }
+
+  const indexes = (dataFields[level as keyof typeof dataFields] || []).map((dataField) => {
+    const index = new Map<string, number>()
+    dataRows.forEach((row, position) => {
+      const rowValue = row[dataField]
+      if (!rowValue) return
+      const key = rowValue.toString().trim()
+      if (!index.has(key)) index.set(key, position)
+    })
+    return index
+  })
+
+  return features.map((feature) => {
+    const featureId = extractSimpleFeatureId(feature, level)
+    if (!featureId) return -1
+
+    for (const index of indexes) {
+      const position = index.get(featureId)
+      if (position !== undefined) return position
+    }
+    return -1
+  })
+}
+
 // Get metric value with simple logic
-export function getSimpleMetricValue(dataRow: any, metricId: string): number | null {
+export function getSimpleMetricValue(dataRow: PayloadRow | null, metricId: string): number | null {
   if (!dataRow || !metricId) return null
 
   const value = dataRow[metricId]
   if (value !== undefined && value !== null && value !== "") {
-    const numValue = Number.parseFloat(value)
+    const numValue = typeof value === "number" ? value : Number.parseFloat(value)
     return isNaN(numValue) ? null : numValue
   }
 
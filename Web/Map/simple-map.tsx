@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useMemo, useCallback } from "react"
+import { useEffect, useState, useMemo, useCallback, useRef } from "react"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
@@ -12,8 +12,11 @@ import { extent } from "d3-array"
 import EnhancedFastLeafletMap from "@/components/enhanced-fast-leaflet-map"
 import { SimpleMetricsSelector } from "@/components/simple-metrics-selector"
 import { loadSimpleMapData } from "@/utils/simple-data-loader"
-import { matchSimpleFeatureToData, getSimpleMetricValue } from "@/utils/simple-data-mapping"
+import { isAbortError } from "@/lib/fetch-policy"
+import { getSimpleMetricValue } from "@/utils/simple-data-mapping"
 import { getMapSettings } from "@/utils/file-path-resolver"
+import { featureBounds } from "@/lib/geo-bounds"
+import type { PayloadRow } from "@/lib/schema"
 
 // Available states - only NV and MA for now
 const AVAILABLE_STATES = [
@@ -26,12 +29,15 @@ export default function SimpleMapPage() {
   const [selectedLevel, setSelectedLevel] = useState<string>("zip")
   const [selectedMetric, setSelectedMetric] = useState<string>("")
   const [loading, setLoading] = useState(false)
+  // Aborted when a newer load starts, so a slow response for an old selection never lands
+  const loadControllerRef = useRef<AbortController | null>(null)
   const [error, setError] = useState<string | null>(null)
 
   // Simple data state
   const [mapData, setMapData] = useState<{
     geoJson: any
-    csvData: any[]
+    csvData: PayloadRow[]
+    featureRows: Map<object, PayloadRow>
     dataSource: string
     availableMetrics: any[]
     loadingStats: any
@@ -40,8 +46,15 @@ export default function SimpleMapPage() {
   // Get map settings
   const { center, zoom } = getMapSettings(selectedState)
 
+  // Fit the map to the loaded features rather than the fixed state zoom
+  const bounds = useMemo(() => featureBounds(mapData?.geoJson?.features || []), [mapData])
+
   // Load simple data
   const loadData = useCallback(async () => {
+    loadControllerRef.current?.abort()
+    const controller = new AbortController()
+    loadControllerRef.current = controller
+
     setLoading(true)
     setError(null)
     setMapData(null)
@@ -50,7 +63,8 @@ export default function SimpleMapPage() {
     try {
       console.log(`🚀 Loading simple map data: ${selectedState} ${selectedLevel}`)
 
-      const result = await loadSimpleMapData(selectedState, selectedLevel)
+      const result = await loadSimpleMapData(selectedState, selectedLevel, undefined, { signal: controller.signal })
+      if (controller.signal.aborted) return
 
       if (!result.geoJson && result.csvData.length === 0) {
         throw new Error(`No data found for ${selectedState} ${selectedLevel}`)
@@ -67,10 +81,11 @@ export default function SimpleMapPage() {
 
       console.log(`✅ Simple map loaded successfully`)
     } catch (error) {
+      if (isAbortError(error)) return
       console.error("❌ Error loading simple map:", error)
       setError(`Error: ${error instanceof Error ? error.message : String(error)}`)
     } finally {
-      setLoading(false)
+      if (loadControllerRef.current === controller) setLoading(false)
     }
   }, [selectedState, selectedLevel])
 
@@ -79,18 +94,21 @@ export default function SimpleMapPage() {
     loadData()
   }, [loadData])
 
-  // Get feature value
+  // Cancel the load in progress when the page goes away
+  useEffect(() => () => loadControllerRef.current?.abort(), [])
+
+  // Get feature value from the row the loader matched to the feature
   const getFeatureValue = useCallback(
     (feature: any, metricId: string): number => {
-      if (!mapData?.csvData || !metricId) return 0
+      if (!mapData?.featureRows || !metricId) return 0
 
-      const matchedRow = matchSimpleFeatureToData(feature, mapData.csvData, selectedLevel)
+      const matchedRow = mapData.featureRows.get(feature)
       if (!matchedRow) return 0
 
       const value = getSimpleMetricValue(matchedRow, metricId)
       return value !== null ? value : 0
     },
-    [mapData, selectedLevel],
+    [mapData],
   )
 
   // Color scale
@@ -279,6 +297,7 @@ export default function SimpleMapPage() {
                 colorScale={colorScale}
                 center={center}
                 zoom={zoom}
+                bounds={bounds}
                 metricFormat={currentMetric?.format}
               />
             </div>
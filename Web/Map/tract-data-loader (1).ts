@@ -1,8 +1,17 @@
+import { getDefaultTransport, type DataTransport } from "@/lib/data-transport"
+import { withCache } from "@/lib/data-cache"
+import type { PayloadRow, ValidationReport } from "@/lib/schema"
+import { tractLeanSchema } from "@/lib/payload-schemas"
 import { getTractEssentialColumns } from "./tract-data-mapping"
+import { parseMapDataInWorker, type MapLoadOptions, type MapParseJob } from "./map-data-parser"
 
 interface TractDataResult {
   geoJson: any
-  tractData: any[]
+  tractData: PayloadRow[]
+  // Tract row of each GeoJSON feature, by feature object; features without data are absent
+  featureRows: Map<object, PayloadRow>
+  // Schema check of the tract lean file; null when it was not loaded
+  validation: ValidationReport | null
   viewMode: "county" | "zip"
   state: string
   year: string
@@ -43,14 +52,17 @@ const TRACT_STATES = {
 }
 
 // Resolve path to tract GeoJSON file - using your existing pattern
-function resolveTractGeoJsonPath(state: string): string {
-  const BASE_URL = "https://raw.githubusercontent.com/CommercialBotAl/re_data/main"
-  return `${BASE_URL}/Index/geojson/${state}_tract_geometry.geojson`
+function resolveTractGeoJsonPath(state: string, transport: DataTransport): string {
+  return transport.resolve(`Index/geojson/${state}_tract_geometry.geojson`)
 }
 
 // Resolve path to tract data file - using your actual file naming
-function resolveTractDataPath(state: string, viewMode: "county" | "zip", year: string): string {
-  const BASE_URL = "https://raw.githubusercontent.com/CommercialBotAl/re_data/main"
+function resolveTractDataPath(
+  state: string,
+  viewMode: "county" | "zip",
+  year: string,
+  transport: DataTransport,
+): string {
   const stateInfo = TRACT_STATES[state as keyof typeof TRACT_STATES]
 
   if (!stateInfo) {
@@ -59,22 +71,30 @@ function resolveTractDataPath(state: string, viewMode: "county" | "zip", year: s
 
   // Format: Cen_{StateName}_tract_{level}_{year}_lean.json
   const fileName = `Cen_${stateInfo.name}_tract_${viewMode}_${year}_lean.json`
-  return `${BASE_URL}/${state}/${fileName}`
+  return transport.resolve(`${state}/${fileName}`)
 }
 
-// Load tract map data
+// Load tract map data. Files are downloaded, parsed, filtered and matched to features in a worker, with
+// progress reported through options.onProgress
 export async function loadTractMapData(
   state: string,
   viewMode: "county" | "zip",
   year = "2023",
+  transport: DataTransport = getDefaultTransport(),
+  options: MapLoadOptions = {},
 ): Promise<TractDataResult> {
   const startTime = performance.now()
+  // Tract files are large; keep them across map loads and reloads. The worker's cache shares the persisted
+  // bodies with this one
+  transport = withCache(transport)
 
   console.log(`🗺️ Loading tract map data: ${state} ${viewMode} ${year}`)
 
   const result: TractDataResult = {
     geoJson: null,
     tractData: [],
+    featureRows: new Map(),
+    validation: null,
     viewMode,
     state,
     year,
@@ -88,19 +108,40 @@ export async function loadTractMapData(
     },
   }
 
-  // Load GeoJSON
+  // Tract GeoJSON
+  let geometry: MapParseJob["geometry"] = null
   try {
-    result.loadingStats.geoJsonStatus = "loading"
-    const geoJsonUrl = resolveTractGeoJsonPath(state)
+    const geoJsonUrl = resolveTractGeoJsonPath(state, transport)
     console.log(`🗺️ Fetching Tract GeoJSON: ${geoJsonUrl}`)
+    geometry = { location: geoJsonUrl }
+    result.loadingStats.geoJsonStatus = "loading"
+  } catch (error) {
+    result.loadingStats.geoJsonStatus = "failed"
+    console.log(`❌ Tract GeoJSON error:`, error)
+  }
+
+  // Tract data
+  let data: MapParseJob["data"] = null
+  const essentialColumns = getTractEssentialColumns(viewMode)
+  try {
+    const dataUrl = resolveTractDataPath(state, viewMode, year, transport)
+    console.log(`📊 Fetching tract data: ${dataUrl}`)
+    data = { location: dataUrl, schema: tractLeanSchema, essentialColumns }
+    result.loadingStats.dataStatus = "loading"
+  } catch (error) {
+    result.loadingStats.dataStatus = "failed"
+    console.log(`❌ Tract data error:`, error)
+  }
 
-    const geoResponse = await fetch(geoJsonUrl)
-    console.log(`🗺️ GeoJSON Response: ${geoResponse.status} ${geoResponse.statusText}`)
+  // Download and parse, drop rows that do not match the schema, keep essential columns and match features
+  // to rows. A superseded load rejects with an AbortError rather than failing a file
+  const parsed = await parseMapDataInWorker({ geometry, data, match: { kind: "tract" } }, transport, options)
 
-    if (geoResponse.ok) {
-      result.geoJson = await geoResponse.json()
+  if (geometry) {
+    if (parsed.geoJson) {
+      result.geoJson = parsed.geoJson
       result.loadingStats.geoJsonStatus = "success"
-      result.loadingStats.featuresCount = result.geoJson?.features?.length || 0
+      result.loadingStats.featuresCount = result.geoJson.features?.length || 0
       console.log(`✅ Tract GeoJSON loaded: ${result.loadingStats.featuresCount} features`)
 
       // Log sample feature for debugging
@@ -110,49 +151,21 @@ export async function loadTractMapData(
       }
     } else {
       result.loadingStats.geoJsonStatus = "failed"
-      console.log(`❌ Tract GeoJSON failed: ${geoResponse.status}`)
+      console.log(`❌ Tract GeoJSON error:`, parsed.geometryError)
     }
-  } catch (error) {
-    result.loadingStats.geoJsonStatus = "failed"
-    console.log(`❌ Tract GeoJSON error:`, error)
   }
 
-  // Load tract data
-  try {
-    result.loadingStats.dataStatus = "loading"
-    const dataUrl = resolveTractDataPath(state, viewMode, year)
-    console.log(`📊 Fetching tract data: ${dataUrl}`)
-
-    const dataResponse = await fetch(dataUrl)
-    console.log(`📊 Tract Data Response: ${dataResponse.status} ${dataResponse.statusText}`)
-
-    if (dataResponse.ok) {
-      // Get file size from headers if available
-      const contentLength = dataResponse.headers.get("content-length")
-      if (contentLength) {
-        result.loadingStats.fileSize = Number.parseInt(contentLength, 10)
-      }
-
-      const jsonData = await dataResponse.json()
-      console.log(`📊 Raw tract JSON structure:`, Object.keys(jsonData))
-
-      // Convert to array if needed
-      const rawData = convertTractJsonToArray(jsonData)
-      console.log(`📊 Converted to array: ${rawData.length} rows`)
-
-      // Filter to essential columns only
-      const essentialColumns = getTractEssentialColumns(viewMode)
-      result.tractData = rawData.map((row) => filterToEssentialColumns(row, essentialColumns))
-
+  if (data) {
+    if (parsed.dataError) {
+      result.loadingStats.dataStatus = "failed"
+      console.log(`❌ Tract data error:`, parsed.dataError)
+    } else {
+      result.tractData = parsed.rows
+      result.validation = parsed.validation
+      result.loadingStats.fileSize = parsed.dataBytes
       result.loadingStats.dataStatus = "success"
       result.loadingStats.dataRowsCount = result.tractData.length
 
-      // If file size wasn't in headers, estimate from JSON
-      if (!result.loadingStats.fileSize) {
-        const jsonString = JSON.stringify(jsonData)
-        result.loadingStats.fileSize = new Blob([jsonString]).size
-      }
-
       console.log(`✅ Tract data loaded: ${result.loadingStats.dataRowsCount} rows`)
       console.log(`📦 File size: ${(result.loadingStats.fileSize / 1024).toFixed(1)} KB`)
       console.log(`📋 Essential columns: ${essentialColumns.join(", ")}`)
@@ -162,15 +175,15 @@ export async function loadTractMapData(
         console.log(`🔍 Sample tract data:`, result.tractData[0])
         console.log(`🔍 Tract data columns:`, Object.keys(result.tractData[0]))
       }
-    } else {
-      result.loadingStats.dataStatus = "failed"
-      console.log(`❌ Tract data failed: ${dataResponse.status}`)
     }
-  } catch (error) {
-    result.loadingStats.dataStatus = "failed"
-    console.log(`❌ Tract data error:`, error)
   }
 
+  result.geoJson?.features?.forEach((feature: object, index: number) => {
+    const row = result.tractData[parsed.featureRows[index]]
+    if (row) result.featureRows.set(feature, row)
+  })
+  console.log(`🔗 Matched ${result.featureRows.size} of ${result.loadingStats.featuresCount} tract features to data`)
+
   const endTime = performance.now()
   result.loadingStats.loadTime = endTime - startTime
 
@@ -179,39 +192,6 @@ export async function loadTractMapData(
   return result
 }
 
-// Convert JSON to array (handles different possible formats)
-function convertTractJsonToArray(jsonData: any): any[] {
-  console.log(`🔄 Converting tract JSON data to array format`)
-
-  if (Array.isArray(jsonData)) {
-    console.log(`📊 Data is already an array`)
-    return jsonData
-  } else if (jsonData.data && Array.isArray(jsonData.data)) {
-    console.log(`📊 Using jsonData.data array`)
-    return jsonData.data
-  } else if (jsonData.features && Array.isArray(jsonData.features)) {
-    console.log(`📊 Extracting from GeoJSON-like features`)
-    return jsonData.features.map((feature: any) => feature.properties || feature)
-  } else {
-    console.log(`📊 Converting object keys to array`)
-    return Object.keys(jsonData).map((key) => ({
-      id: key,
-      ...jsonData[key],
-    }))
-  }
-}
-
-// Filter to only essential columns
-function filterToEssentialColumns(row: any, essentialColumns: string[]): any {
-  const filtered: any = {}
-  essentialColumns.forEach((col) => {
-    if (row.hasOwnProperty(col)) {
-      filtered[col] = row[col]
-    }
-  })
-  return filtered
-}
-
 // Get map settings for tract visualization
 export function getTractMapSettings(state: string): { center: [number, number]; zoom: number } {
   const stateInfo = TRACT_STATES[state as keyof typeof TRACT_STATES]
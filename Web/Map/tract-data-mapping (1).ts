@@ -1,5 +1,7 @@
 // Tract data mapping - specialized for census tract data visualization
 
+import type { FieldValue, PayloadRow } from "@/lib/schema"
+
 interface TractColumnMapping {
   display: string
   category: string
@@ -215,7 +217,7 @@ export function extractTractFeatureId(feature: any): string | null {
 }
 
 // Match feature to tract data
-export function matchTractFeatureToData(feature: any, dataRows: any[]): any | null {
+export function matchTractFeatureToData(feature: any, dataRows: PayloadRow[]): PayloadRow | null {
   if (!feature || !dataRows || dataRows.length === 0) return null
 
   const featureId = extractTractFeatureId(feature)
@@ -229,7 +231,7 @@ export function matchTractFeatureToData(feature: any, dataRows: any[]): any | nu
   if (matchingRow) return matchingRow
 
   // If no match on GEOID, try other combinations
-  return dataRows.find((row) => {
+  const combinedMatch = dataRows.find((row) => {
     // Try to match on state+county+tract
     if (
       row.state &&
@@ -247,10 +249,37 @@ export function matchTractFeatureToData(feature: any, dataRows: any[]): any | nu
     }
     return false
   })
+  return combinedMatch ?? null
+}
+
+// Match every feature at once, with the same rules as matchTractFeatureToData but through an index of
+// the rows instead of a scan per feature. Returns the index of each feature's row, -1 where there is none
+export function matchTractFeatures(features: any[], dataRows: PayloadRow[]): number[] {
+  const byGeoid = new Map<string, number>()
+  const byParts = new Map<string, number>()
+  dataRows.forEach((row, index) => {
+    if (typeof row.GEOID === "string" && !byGeoid.has(row.GEOID)) byGeoid.set(row.GEOID, index)
+    if (row.state && row.county && row.tract) {
+      const key = `${row.state}|${row.county}|${row.tract}`
+      if (!byParts.has(key)) byParts.set(key, index)
+    }
+  })
+
+  return features.map((feature) => {
+    const featureId = extractTractFeatureId(feature)
+    if (!featureId) return -1
+
+    const geoidMatch = byGeoid.get(featureId)
+    if (geoidMatch !== undefined) return geoidMatch
+
+    const { state, county, tract } = feature.properties
+    if (!state || !county || !tract) return -1
+    return byParts.get(`${state}|${county}|${tract}`) ?? -1
+  })
 }
 
 // Get metric value from tract data
-export function getTractMetricValue(dataRow: any, metricId: string): any {
+export function getTractMetricValue(dataRow: PayloadRow | null, metricId: string): FieldValue {
   if (!dataRow || !metricId) return null
 
   const value = dataRow[metricId]
@@ -260,7 +289,7 @@ export function getTractMetricValue(dataRow: any, metricId: string): any {
 
   // For numeric types, convert to number
   if (metricInfo && (metricInfo.type === "numeric" || metricInfo.type === "currency")) {
-    const numValue = Number.parseFloat(value)
+    const numValue = typeof value === "number" ? value : Number.parseFloat(value)
     return isNaN(numValue) ? null : numValue
   }
 
@@ -269,29 +298,30 @@ export function getTractMetricValue(dataRow: any, metricId: string): any {
 }
 
 // Format tract value for display
-export function formatTractValue(value: any, metricId: string): string {
+export function formatTractValue(value: FieldValue | undefined, metricId: string): string {
   if (value === null || value === undefined) return "N/A"
 
   const metricInfo = TRACT_MAPPING.metrics[metricId]
   if (!metricInfo) return String(value)
 
+  const amount = Number(value)
   switch (metricInfo.type) {
     case "percentage":
-      return `${Number(value).toFixed(1)}%`
+      return `${amount.toFixed(1)}%`
 
     case "currency":
-      return value >= 1000000
-        ? `$${(value / 1000000).toFixed(1)}M`
-        : value >= 1000
-          ? `$${(value / 1000).toFixed(0)}K`
-          : `$${Number(value).toLocaleString()}`
+      return amount >= 1000000
+        ? `$${(amount / 1000000).toFixed(1)}M`
+        : amount >= 1000
+          ? `$${(amount / 1000).toFixed(0)}K`
+          : `$${amount.toLocaleString()}`
 
     case "numeric":
-      return value >= 1000000
-        ? `${(value / 1000000).toFixed(1)}M`
-        : value >= 1000
-          ? `${(value / 1000).toFixed(0)}K`
-          : Number(value).toLocaleString()
+      return amount >= 1000000
+        ? `${(amount / 1000000).toFixed(1)}M`
+        : amount >= 1000
+          ? `${(amount / 1000).toFixed(0)}K`
+          : amount.toLocaleString()
 
     case "categorical":
     default:
@@ -15,12 +15,27 @@ import { TractMetricsSelector } from "@/components/tract-metrics-selector"
 import { loadTractMapData, getTractMapSettings, getPopularAreas, getAvailableStates } from "@/utils/tract-data-loader"
 import {
   getTractMetrics,
-  matchTractFeatureToData,
   getTractMetricValue,
   formatTractValue,
   getCategoricalColorScale,
   getTractViewModes,
+  extractTractFeatureId,
 } from "@/utils/tract-data-mapping"
+import { featureBounds } from "@/lib/geo-bounds"
+import { isAbortError } from "@/lib/fetch-policy"
+import { query } from "@/lib/query"
+import type { PayloadRow } from "@/lib/schema"
+import type { MapLoadProgress } from "@/utils/map-data-parser"
+
+// e.g. "Downloading Cen_California_tract_zip_2023_lean.json: 45% (3,210 rows)"
+function describeProgress(progress: MapLoadProgress): string {
+  const fileName = progress.file?.split("/").pop() || ""
+  const percent = progress.fraction !== null ? `: ${Math.round(progress.fraction * 100)}%` : "..."
+  const rows = progress.rows > 0 ? ` (${progress.rows.toLocaleString()} rows)` : ""
+  if (progress.stage === "download") return `Downloading ${fileName}${percent}${rows}`
+  if (progress.stage === "match") return `Matching ${progress.rows.toLocaleString()} tracts to data${percent}`
+  return `Parsing ${fileName}${percent}${rows}`
+}
 
 export default function TractMapPage() {
   const [selectedState, setSelectedState] = useState<string>("NV")
@@ -28,6 +43,8 @@ export default function TractMapPage() {
   const [selectedYear] = useState<string>("2023") // Fixed to 2023
   const [selectedMetric, setSelectedMetric] = useState<string>("")
   const [loading, setLoading] = useState(false)
+  // Download and parse progress of the load in flight
+  const [progress, setProgress] = useState<MapLoadProgress | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState<string>("")
   const [filteredAreas, setFilteredAreas] = useState<string[]>([])
@@ -36,7 +53,8 @@ export default function TractMapPage() {
   // Tract data state
   const [mapData, setMapData] = useState<{
     geoJson: any
-    tractData: any[]
+    tractData: PayloadRow[]
+    featureRows: Map<object, PayloadRow>
     viewMode: "county" | "zip"
     loadingStats: any
   } | null>(null)
@@ -53,6 +71,8 @@ export default function TractMapPage() {
 
   // Search input ref for focus management
   const searchInputRef = useRef<HTMLInputElement>(null)
+  // Aborted when a newer load starts, so a slow response for an old selection never lands
+  const loadControllerRef = useRef<AbortController | null>(null)
 
   // Filter areas based on search query
   useEffect(() => {
@@ -107,7 +127,12 @@ export default function TractMapPage() {
 
   // Load tract data
   const loadData = useCallback(async () => {
+    loadControllerRef.current?.abort()
+    const controller = new AbortController()
+    loadControllerRef.current = controller
+
     setLoading(true)
+    setProgress(null)
     setError(null)
     setMapData(null)
     setSelectedMetric("")
@@ -116,7 +141,13 @@ export default function TractMapPage() {
     try {
       console.log(`🚀 Loading tract map data: ${selectedState} ${selectedViewMode} ${selectedYear}`)
 
-      const result = await loadTractMapData(selectedState, selectedViewMode, selectedYear)
+      const result = await loadTractMapData(selectedState, selectedViewMode, selectedYear, undefined, {
+        signal: controller.signal,
+        onProgress: (update) => {
+          if (!controller.signal.aborted) setProgress(update)
+        },
+      })
+      if (controller.signal.aborted) return
 
       if (!result.geoJson && result.tractData.length === 0) {
         throw new Error(`No tract data found for ${selectedState} ${selectedViewMode}`)
@@ -133,10 +164,14 @@ export default function TractMapPage() {
 
       console.log(`✅ Tract map loaded successfully`)
     } catch (error) {
+      if (isAbortError(error)) return
       console.error("❌ Error loading tract map:", error)
       setError(`Error: ${error instanceof Error ? error.message : String(error)}`)
     } finally {
-      setLoading(false)
+      if (loadControllerRef.current === controller) {
+        setLoading(false)
+        setProgress(null)
+      }
     }
   }, [selectedState, selectedViewMode, selectedYear, availableMetrics])
 
@@ -145,12 +180,15 @@ export default function TractMapPage() {
     loadData()
   }, [loadData])
 
-  // Get feature value
+  // Cancel the load in progress when the page goes away
+  useEffect(() => () => loadControllerRef.current?.abort(), [])
+
+  // Get feature value from the row the loader matched to the feature
   const getFeatureValue = useCallback(
     (feature: any, metricId: string): any => {
-      if (!mapData?.tractData || !metricId) return null
+      if (!mapData?.featureRows || !metricId) return null
 
-      const matchedRow = matchTractFeatureToData(feature, mapData.tractData)
+      const matchedRow = mapData.featureRows.get(feature)
       if (!matchedRow) return null
 
       return getTractMetricValue(matchedRow, metricId)
@@ -192,6 +230,18 @@ export default function TractMapPage() {
   // Get map center and zoom based on state
   const mapSettings = useMemo(() => getTractMapSettings(selectedState), [selectedState])
 
+  // Fit the map to the tracts of the selected county or ZIP, else to every loaded tract
+  const mapBounds = useMemo(() => {
+    const features: any[] = mapData?.geoJson?.features || []
+    if (!selectedArea || !mapData) return featureBounds(features)
+
+    const areaField = mapData.viewMode === "county" ? "county_name" : "zip"
+    const areaRows = query(mapData.tractData).where(areaField, "=", selectedArea).select("GEOID").rows()
+    const areaGeoids = new Set(areaRows.map((row) => String(row.GEOID)))
+    const areaFeatures = features.filter((feature) => areaGeoids.has(String(extractTractFeatureId(feature))))
+    return featureBounds(areaFeatures.length > 0 ? areaFeatures : features)
+  }, [mapData, selectedArea])
+
   // Format tooltip value
   const formatTooltipValue = useCallback(
     (value: any) => {
@@ -206,7 +256,6 @@ export default function TractMapPage() {
     setSelectedArea(area)
     setSearchQuery(area)
     setFilteredAreas([])
-    // In a real implementation, you would zoom to the selected area on the map
     console.log(`Selected area: ${area}`)
   }
 
@@ -450,6 +499,7 @@ export default function TractMapPage() {
                 colorScale={colorScale}
                 center={mapSettings.center}
                 zoom={mapSettings.zoom}
+                bounds={mapBounds}
                 metricFormat={currentMetric?.format}
                 formatTooltipValue={formatTooltipValue}
                 isCategorical={currentMetric?.type === "categorical"}
@@ -464,6 +514,7 @@ export default function TractMapPage() {
                 <p className="text-xs text-gray-500 mt-1">
                   {selectedState} • {selectedViewMode} • {selectedYear}
                 </p>
+                {progress && <p className="text-xs text-gray-500 mt-1">{describeProgress(progress)}</p>}
               </div>
             </div>
           ) : (
@@ -1,7 +1,18 @@
 import { getEssentialColumns, getDatabaseMatchingFields, normalizeCountyId } from '@/lib/data_column_selections_tract_opt'
 import { loadStateIndexes, getRedfinId, checkStateCoverage } from '@/lib/improved_index_manager_nor_opt'
-
-const BASE_URL = "https://pub-349a836622034df3a45c179d98e8328a.r2.dev"
+import { r2Transport, type DataTransport } from '@/lib/data-transport'
+import { withCache } from '@/lib/data-cache'
+import { fetchWithRetry, isAbortError, type LoadOptions } from '@/lib/fetch-policy'
+import { ESSENTIAL_PROPERTY_TYPE_CODES, filterRowsByPropertyType } from '@/lib/property-types'
+import {
+  ALL_STATE_SOURCES,
+  mapWithConcurrency,
+  mergeFeatureCollections,
+  normalizeStateList,
+  tagRows,
+  type MultiStateOptions,
+  type StateDataSource,
+} from '@/lib/multi-state'
 
 // ============================================================================
 // OPTIMIZED STATE INFO - All 50 states
@@ -86,6 +97,15 @@ interface OptimizedLoadResult {
   }
 }
 
+// Optional settings for loadDataWithCloudflare, plus a signal and retries for its downloads
+interface CloudflareLoadOptions extends LoadOptions {
+  selectedViewMode?: string
+  transport?: DataTransport
+  propertyTypeIds?: string[]
+  // Files to load; the others stay "not-attempted"
+  sources?: StateDataSource[]
+}
+
 // ============================================================================
 // FILTER DATA TO ESSENTIAL COLUMNS ONLY - ENHANCED FOR TRACT
 // ============================================================================
@@ -112,56 +132,108 @@ function filterToEssentialColumns(data: any[], level: string): any[] {
 // ============================================================================
 // BUILD OPTIMIZED URLS - ENHANCED WITH TRACT SUPPORT
 // ============================================================================
-function buildOptimizedUrls(stateAbbrev: string, level: string, selectedViewMode?: string) {
+function buildOptimizedUrls(
+  stateAbbrev: string,
+  level: string,
+  selectedViewMode?: string,
+  transport: DataTransport = r2Transport
+) {
   const state = STATES[stateAbbrev as keyof typeof STATES]
   if (!state) throw new Error(`Unsupported state: ${stateAbbrev}`)
 
-  console.log(`🔗 Building URLs for: ${stateAbbrev} (${state.name}) at ${level} level`)
+  console.log(`🔗 Building URLs for: ${stateAbbrev} (${state.name}) at ${level} level via ${transport.name}`)
+
+  const paths = transport.layout === 'r2'
+    ? buildR2Paths(stateAbbrev, state, level, selectedViewMode)
+    : buildRepositoryPaths(stateAbbrev, state, level, selectedViewMode)
+
+  const urls = {
+    geoJson: transport.resolve(paths.geoJson),
+    census: transport.resolve(paths.census),
+    fred: transport.resolve(paths.fred),
+    redfin: transport.resolve(paths.redfin)
+  }
+  if (level === "tract") console.log(`🏗️ TRACT URLs:`, urls)
+  return urls
+}
+
+type StateEntry = (typeof STATES)[keyof typeof STATES]
 
+// R2 bucket layout: one folder per source, then per state
+function buildR2Paths(stateAbbrev: string, state: StateEntry, level: string, selectedViewMode?: string) {
   // TRACT LEVEL - Special handling
   if (level === "tract") {
     if (!selectedViewMode) {
       throw new Error("selectedViewMode required for tract level")
     }
     
-    const urls = {
-      geoJson: `${BASE_URL}/geojson/${stateAbbrev}/tract.geojson`,
-      census: `${BASE_URL}/census/${stateAbbrev}/tract/Cen_${state.name}_tract_${selectedViewMode}_2023_lean.json`,
-      fred: `${BASE_URL}/fred/${stateAbbrev}/fred_counties_${state.fredCode}.json`,
+    return {
+      geoJson: `geojson/${stateAbbrev}/tract.geojson`,
+      census: `census/${stateAbbrev}/tract/Cen_${state.name}_tract_${selectedViewMode}_2023_lean.json`,
+      fred: `fred/${stateAbbrev}/fred_counties_${state.fredCode}.json`,
       redfin: selectedViewMode === "county" 
-        ? `${BASE_URL}/redfin/${stateAbbrev}/redfin_${stateAbbrev}_county.json`
-        : `${BASE_URL}/redfin/${stateAbbrev}/redfin_${stateAbbrev}_zip.json`
+        ? `redfin/${stateAbbrev}/redfin_${stateAbbrev}_county.json`
+        : `redfin/${stateAbbrev}/redfin_${stateAbbrev}_zip.json`
     }
-    console.log(`🏗️ TRACT URLs:`, urls)
-    return urls
   }
 
   // STATE LEVEL
   if (level === "state") {
-    const urls = {
-      geoJson: `${BASE_URL}/geojson/${stateAbbrev}/state.geojson`,
-      census: `${BASE_URL}/census/${stateAbbrev}/Cen_${state.name}_state_2023_summary.json`,
-      fred: `${BASE_URL}/fred/${stateAbbrev}/fred_counties_${state.fredCode}.json`,
-      redfin: `${BASE_URL}/redfin/${stateAbbrev}/redfin_${stateAbbrev}_county.json`
+    return {
+      geoJson: `geojson/${stateAbbrev}/state.geojson`,
+      census: `census/${stateAbbrev}/Cen_${state.name}_state_2023_summary.json`,
+      fred: `fred/${stateAbbrev}/fred_counties_${state.fredCode}.json`,
+      redfin: `redfin/${stateAbbrev}/redfin_${stateAbbrev}_county.json`
     }
-    return urls
   }
 
   // REGULAR LEVELS (county, zip)
-  const urls = {
-    geoJson: `${BASE_URL}/geojson/${stateAbbrev}/${level}.geojson`,
-    census: `${BASE_URL}/census/${stateAbbrev}/Cen_${state.name}_${level}_2023_summary.json`,
-    fred: `${BASE_URL}/fred/${stateAbbrev}/fred_counties_${state.fredCode}.json`,
-    redfin: `${BASE_URL}/redfin/${stateAbbrev}/redfin_${stateAbbrev}_${level}.json`
+  return {
+    geoJson: `geojson/${stateAbbrev}/${level}.geojson`,
+    census: `census/${stateAbbrev}/Cen_${state.name}_${level}_2023_summary.json`,
+    fred: `fred/${stateAbbrev}/fred_counties_${state.fredCode}.json`,
+    redfin: `redfin/${stateAbbrev}/redfin_${stateAbbrev}_${level}.json`
   }
+}
 
-  return urls
+// Repository layout: per-state data folders, geometry under Index/geojson
+function buildRepositoryPaths(stateAbbrev: string, state: StateEntry, level: string, selectedViewMode?: string) {
+  const fred = `${stateAbbrev}/fred_counties_${state.fredCode}.json`
+
+  if (level === "tract") {
+    if (!selectedViewMode) {
+      throw new Error("selectedViewMode required for tract level")
+    }
+
+    return {
+      geoJson: `Index/geojson/${stateAbbrev}_tract_geometry.geojson`,
+      census: `${stateAbbrev}/Cen_${state.name}_tract_${selectedViewMode}_2023_lean.json`,
+      fred,
+      redfin: `${stateAbbrev}/redfin_${stateAbbrev}_${selectedViewMode === "county" ? "county" : "zip"}.json`
+    }
+  }
+
+  if (level === "state") {
+    return {
+      geoJson: `Index/geojson/${stateAbbrev}.geojson`,
+      census: `${stateAbbrev}/Cen_${state.name}_state_2023_summary.json`,
+      fred,
+      redfin: `${stateAbbrev}/redfin_${stateAbbrev}_county.json`
+    }
+  }
+
+  return {
+    geoJson: `Index/geojson/${stateAbbrev}_${level}_geometry.geojson`,
+    census: `${stateAbbrev}/Cen_${state.name}_${level}_2023_summary.json`,
+    fred,
+    redfin: `${stateAbbrev}/redfin_${stateAbbrev}_${level}.json`
+  }
 }
 
 // ============================================================================
 // PERFORMANCE OPTIMIZATION FUNCTIONS
 // ============================================================================
-function filterRedfinByPropertyType(rawRedfinData: any[]): any[] {
+function filterRedfinByPropertyType(rawRedfinData: any[], propertyTypeIds: string[]): any[] {
   if (!Array.isArray(rawRedfinData)) return rawRedfinData
   
   console.log(`🏠 BEFORE property filtering: ${rawRedfinData.length} records`)
@@ -170,12 +242,7 @@ function filterRedfinByPropertyType(rawRedfinData: any[]): any[] {
   const actualTypes = [...new Set(rawRedfinData.map(r => r.property_type))].slice(0, 10)
   console.log(`🔍 ACTUAL property_type values found:`, actualTypes)
   
-  const essentialTypeIds = ["-1", "6", "13"]  // ← Changed: use IDs
-  
-  const filtered = rawRedfinData.filter(record => {
-    const propTypeId = record.property_type_id?.toString()  // ← Changed: use property_type_id
-    return essentialTypeIds.includes(propTypeId)
-  })
+  const filtered = filterRowsByPropertyType(rawRedfinData, propertyTypeIds)
   
   const reduction = ((1 - filtered.length / rawRedfinData.length) * 100).toFixed(1)
   console.log(`🏠 AFTER property filtering: ${filtered.length} records (${reduction}% reduction)`)
@@ -188,6 +255,7 @@ function filterRedfinToEssentials(redfinData: any[]): any[] {
   
   const essentialColumns = [
     'table_id',           // For matching
+    'property_type_id',   // Rows of several property types can be loaded together
     'region',             // For display  
     'median_sale_price',  // Current
     'median_list_price',  // Add this
@@ -214,11 +282,17 @@ function filterRedfinToEssentials(redfinData: any[]): any[] {
 // ============================================================================
 // INDEX-DRIVEN REDFIN FILTERING - FIXED NO REPEAT CALLS!
 // ============================================================================
-async function getRelevantRedfinIds(stateAbbrev: string, level: string, geoJsonFeatures: any[]): Promise<number[]> {
+async function getRelevantRedfinIds(
+  stateAbbrev: string,
+  level: string,
+  geoJsonFeatures: any[],
+  transport: DataTransport = r2Transport,
+  options: LoadOptions = {}
+): Promise<number[]> {
   console.log(`🎯 INDEX-DRIVEN FILTERING: Getting relevant Redfin IDs for ${level} level`)
   
   // LOAD STATE INDEXES ONCE - no repeated calls in loop!
-  await loadStateIndexes(stateAbbrev)
+  await loadStateIndexes(stateAbbrev, undefined, { ...options, transport })
   
   const relevantIds = new Set<number>()
   
@@ -374,10 +448,19 @@ export async function loadDataWithCloudflare(
   stateAbbrev: string, 
   level: string, 
   viewMode: string = "county",
-  selectedViewMode?: string
+  options: CloudflareLoadOptions = {}
 ): Promise<OptimizedLoadResult> {
+  const {
+    selectedViewMode,
+    transport = r2Transport,
+    propertyTypeIds = ESSENTIAL_PROPERTY_TYPE_CODES,
+    sources = ALL_STATE_SOURCES,
+    ...loadOptions
+  } = options
   const startTime = performance.now()
   console.log(`🚀 TRACT-OPTIMIZED loader: ${stateAbbrev} ${level}`)
+  // Share downloads with the other loaders and keep them across reloads
+  const cachedTransport = withCache(transport)
 
   const result: OptimizedLoadResult = {
     geoJson: null,
@@ -396,7 +479,7 @@ export async function loadDataWithCloudflare(
       unmatchedFeatures: 0,
       matchRate: 0
     },
-    dataSource: "Cloudflare R2 (Tract-Optimized)",
+    dataSource: transport === r2Transport ? "Cloudflare R2 (Tract-Optimized)" : `${transport.name} (Tract-Optimized)`,
     essentialColumnsUsed: getEssentialColumns(level as 'state' | 'county' | 'zip' | 'tract'),
     indexStats: {
       indexLoadTime: 0,
@@ -407,103 +490,115 @@ export async function loadDataWithCloudflare(
 
   try {
     // Build URLs
-    const urls = buildOptimizedUrls(stateAbbrev, level, selectedViewMode)
+    const urls = buildOptimizedUrls(stateAbbrev, level, selectedViewMode, transport)
 
     // Load GeoJSON first (needed for index-driven filtering)
     const indexStartTime = performance.now()
-    try {
-      result.loadingStatus.geoJson = "loading"
-      const geoResponse = await fetch(urls.geoJson)
-      if (geoResponse.ok) {
-        result.geoJson = await geoResponse.json()
-        result.loadingStatus.geoJson = "success"
-        result.matchingStats.totalFeatures = result.geoJson?.features?.length || 0
-        console.log(`✅ GeoJSON: ${result.matchingStats.totalFeatures} features`)
-      } else {
+    if (sources.includes('geojson')) {
+      try {
+        result.loadingStatus.geoJson = "loading"
+        const geoResponse = await fetchWithRetry(cachedTransport, urls.geoJson, loadOptions)
+        if (geoResponse.ok) {
+          result.geoJson = await geoResponse.json()
+          result.loadingStatus.geoJson = "success"
+          result.matchingStats.totalFeatures = result.geoJson?.features?.length || 0
+          console.log(`✅ GeoJSON: ${result.matchingStats.totalFeatures} features`)
+        } else {
+          result.loadingStatus.geoJson = "failed"
+          console.log(`❌ GeoJSON failed: ${geoResponse.status}`)
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error
         result.loadingStatus.geoJson = "failed"
-        console.log(`❌ GeoJSON failed: ${geoResponse.status}`)
+        console.error('❌ GeoJSON error:', error)
       }
-    } catch (error) {
-      result.loadingStatus.geoJson = "failed"
-      console.error('❌ GeoJSON error:', error)
     }
 
     // Load Census Data
-    try {
-      result.loadingStatus.censusData = "loading"
-      const censusResponse = await fetch(urls.census)
-      if (censusResponse.ok) {
-        const rawCensusData = await censusResponse.json()
-        const censusArray = Array.isArray(rawCensusData) ? rawCensusData : [rawCensusData]
-        result.censusData = filterToEssentialColumns(censusArray, level)
-        result.loadingStatus.censusData = "success"
-        console.log(`✅ Census data (${result.censusData.length} rows)`)
-      } else {
+    if (sources.includes('census')) {
+      try {
+        result.loadingStatus.censusData = "loading"
+        const censusResponse = await fetchWithRetry(cachedTransport, urls.census, loadOptions)
+        if (censusResponse.ok) {
+          const rawCensusData = await censusResponse.json()
+          const censusArray = Array.isArray(rawCensusData) ? rawCensusData : [rawCensusData]
+          result.censusData = filterToEssentialColumns(censusArray, level)
+          result.loadingStatus.censusData = "success"
+          console.log(`✅ Census data (${result.censusData.length} rows)`)
+        } else {
+          result.loadingStatus.censusData = "failed"
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error
         result.loadingStatus.censusData = "failed"
+        console.error('❌ Census error:', error)
       }
-    } catch (error) {
-      result.loadingStatus.censusData = "failed"
-      console.error('❌ Census error:', error)
     }
 
     // Load FRED Data
-    try {
-      result.loadingStatus.fredData = "loading"
-      const fredResponse = await fetch(urls.fred)
-      if (fredResponse.ok) {
-        const rawFredData = await fredResponse.json()
-        const fredArray = Array.isArray(rawFredData) ? rawFredData : [rawFredData]
-        result.fredData = fredArray
-        result.loadingStatus.fredData = "success"
-        console.log(`✅ FRED data (${result.fredData.length} rows)`)
-      } else {
+    if (sources.includes('fred')) {
+      try {
+        result.loadingStatus.fredData = "loading"
+        const fredResponse = await fetchWithRetry(cachedTransport, urls.fred, loadOptions)
+        if (fredResponse.ok) {
+          const rawFredData = await fredResponse.json()
+          const fredArray = Array.isArray(rawFredData) ? rawFredData : [rawFredData]
+          result.fredData = fredArray
+          result.loadingStatus.fredData = "success"
+          console.log(`✅ FRED data (${result.fredData.length} rows)`)
+        } else {
+          result.loadingStatus.fredData = "failed"
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error
         result.loadingStatus.fredData = "failed"
+        console.error('❌ FRED error:', error)
       }
-    } catch (error) {
-      result.loadingStatus.fredData = "failed"
-      console.error('❌ FRED error:', error)
     }
 
     // Load Redfin Data with NO-REPEAT INDEX OPTIMIZATION
-    try {
-      result.loadingStatus.redfinData = "loading"
-      const redfinResponse = await fetch(urls.redfin)
-      if (redfinResponse.ok) {
-        const rawRedfinData = await redfinResponse.json()
-        const redfinArray = Array.isArray(rawRedfinData) ? rawRedfinData : [rawRedfinData]
+    if (sources.includes('redfin')) {
+      try {
+        result.loadingStatus.redfinData = "loading"
+        const redfinResponse = await fetchWithRetry(cachedTransport, urls.redfin, loadOptions)
+        if (redfinResponse.ok) {
+          const rawRedfinData = await redfinResponse.json()
+          const redfinArray = Array.isArray(rawRedfinData) ? rawRedfinData : [rawRedfinData]
         
-        // 🚀 NO-REPEAT INDEX OPTIMIZATION PIPELINE
-        let optimizedRedfin = redfinArray
-        const originalCount = optimizedRedfin.length
+          // 🚀 NO-REPEAT INDEX OPTIMIZATION PIPELINE
+          let optimizedRedfin = redfinArray
+          const originalCount = optimizedRedfin.length
         
-        // Step 1: Get relevant Redfin IDs using index (FIXED - no repeated calls!)
-        if (result.geoJson?.features && (level === 'county' || level === 'zip')) {
-          const relevantIds = await getRelevantRedfinIds(stateAbbrev, level, result.geoJson.features)
-          result.indexStats!.redfinIdsFound = relevantIds.length
+          // Step 1: Get relevant Redfin IDs using index (FIXED - no repeated calls!)
+          if (result.geoJson?.features && (level === 'county' || level === 'zip')) {
+            const relevantIds = await getRelevantRedfinIds(stateAbbrev, level, result.geoJson.features, transport, loadOptions)
+            result.indexStats!.redfinIdsFound = relevantIds.length
           
-          // Step 2: Filter to only relevant records (MASSIVE performance gain)
-          optimizedRedfin = filterRedfinByRelevantIds(optimizedRedfin, relevantIds)
-        }
+            // Step 2: Filter to only relevant records (MASSIVE performance gain)
+            optimizedRedfin = filterRedfinByRelevantIds(optimizedRedfin, relevantIds)
+          }
         
-        // Step 3: Apply existing performance optimizations
-        const propertyFiltered = filterRedfinByPropertyType(optimizedRedfin)
-        const essentialFiltered = filterRedfinToEssentials(propertyFiltered)
+          // Step 3: Apply existing performance optimizations
+          const propertyFiltered = filterRedfinByPropertyType(optimizedRedfin, propertyTypeIds)
+          const essentialFiltered = filterRedfinToEssentials(propertyFiltered)
         
-        result.redfinData = essentialFiltered
-        result.loadingStatus.redfinData = "success"
+          result.redfinData = essentialFiltered
+          result.loadingStatus.redfinData = "success"
         
-        // Calculate total data reduction
-        const finalCount = result.redfinData.length
-        const totalReduction = originalCount > 0 ? ((1 - finalCount / originalCount) * 100).toFixed(1) : "0"
-        result.indexStats!.dataReduction = `${totalReduction}%`
+          // Calculate total data reduction
+          const finalCount = result.redfinData.length
+          const totalReduction = originalCount > 0 ? ((1 - finalCount / originalCount) * 100).toFixed(1) : "0"
+          result.indexStats!.dataReduction = `${totalReduction}%`
         
-        console.log(`✅ TRACT-OPTIMIZED Redfin: ${originalCount} → ${finalCount} records (${totalReduction}% total reduction)`)
-      } else {
+          console.log(`✅ TRACT-OPTIMIZED Redfin: ${originalCount} → ${finalCount} records (${totalReduction}% total reduction)`)
+        } else {
+          result.loadingStatus.redfinData = "failed"
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error
         result.loadingStatus.redfinData = "failed"
+        console.error('❌ Redfin error:', error)
       }
-    } catch (error) {
-      result.loadingStatus.redfinData = "failed"
-      console.error('❌ Redfin error:', error)
     }
 
     result.indexStats!.indexLoadTime = performance.now() - indexStartTime
@@ -525,6 +620,8 @@ export async function loadDataWithCloudflare(
     }
 
   } catch (error) {
+    // Superseded loads are abandoned by the page, so don't hand back partial results
+    if (isAbortError(error)) throw error
     console.error('❌ Tract-optimized loader error:', error)
   }
 
@@ -537,6 +634,83 @@ export async function loadDataWithCloudflare(
   return result
 }
 
+// ============================================================================
+// MULTI-STATE LOADER - METROS ACROSS STATE LINES (e.g. Reno/Tahoe: NV + CA)
+// ============================================================================
+type LoadStatus = OptimizedLoadResult["loadingStatus"]["geoJson"]
+
+interface MultiStateLoadResult extends OptimizedLoadResult {
+  states: string[]
+  // Each state's own result, before merging
+  byState: Record<string, OptimizedLoadResult>
+}
+
+// Success if any state loaded the file, failed if any tried and none did
+function mergeLoadStatus(statuses: LoadStatus[]): LoadStatus {
+  if (statuses.includes("success")) return "success"
+  if (statuses.includes("failed")) return "failed"
+  return "not-attempted"
+}
+
+// Merged rows with source_state on each; null when no state loaded the file
+function mergeStateRows(results: Array<[string, OptimizedLoadResult]>, key: 'censusData' | 'fredData' | 'redfinData') {
+  const loaded = results.filter(([, result]) => Array.isArray(result[key]))
+  if (loaded.length === 0) return null
+  return loaded.flatMap(([stateAbbrev, result]) => tagRows(result[key] as object[], stateAbbrev))
+}
+
+export async function loadStatesWithCloudflare(
+  stateAbbrevs: string[],
+  level: string,
+  sources: StateDataSource[] = ALL_STATE_SOURCES,
+  options: MultiStateOptions & Omit<CloudflareLoadOptions, 'sources'> & { viewMode?: string } = {}
+): Promise<MultiStateLoadResult> {
+  const startTime = performance.now()
+  const states = normalizeStateList(stateAbbrevs)
+  const { viewMode = "county", transport = r2Transport, ...stateOptions } = options
+  console.log(`🗺️ Multi-state loader: ${states.join(' + ')} ${level}`)
+
+  // Each state's loader reports its own failures, so only aborts reject here
+  const loaded = await mapWithConcurrency(
+    states,
+    (stateAbbrev) => loadDataWithCloudflare(stateAbbrev, level, viewMode, { ...stateOptions, transport, sources }),
+    options
+  )
+  const results = states.map((stateAbbrev, i): [string, OptimizedLoadResult] => [stateAbbrev, loaded[i]])
+
+  const statusOf = (key: keyof OptimizedLoadResult["loadingStatus"]) =>
+    mergeLoadStatus(results.map(([, result]) => result.loadingStatus[key]))
+  const totalFeatures = loaded.reduce((sum, result) => sum + result.matchingStats.totalFeatures, 0)
+  const matchedFeatures = loaded.reduce((sum, result) => sum + result.matchingStats.matchedFeatures, 0)
+
+  const result: MultiStateLoadResult = {
+    states,
+    byState: Object.fromEntries(results),
+    geoJson: mergeFeatureCollections(results.map(([stateCode, result]) => ({ stateCode, geoJson: result.geoJson }))),
+    censusData: mergeStateRows(results, 'censusData'),
+    fredData: mergeStateRows(results, 'fredData'),
+    redfinData: mergeStateRows(results, 'redfinData'),
+    loadingStatus: {
+      geoJson: statusOf('geoJson'),
+      censusData: statusOf('censusData'),
+      fredData: statusOf('fredData'),
+      redfinData: statusOf('redfinData')
+    },
+    matchingStats: {
+      totalFeatures,
+      matchedFeatures,
+      unmatchedFeatures: totalFeatures - matchedFeatures,
+      matchRate: totalFeatures > 0 ? (matchedFeatures / totalFeatures) * 100 : 0
+    },
+    dataSource: loaded[0]?.dataSource ?? transport.name,
+    essentialColumnsUsed: getEssentialColumns(level as 'state' | 'county' | 'zip' | 'tract'),
+    loadTime: performance.now() - startTime
+  }
+
+  console.log(`🎯 Multi-state loading completed in ${result.loadTime!.toFixed(0)}ms (${states.length} states)`)
+  return result
+}
+
 // ============================================================================
 // CONVENIENCE FUNCTIONS FOR FRONTEND
 // ============================================================================
@@ -550,13 +724,15 @@ export async function checkDataCoverage(stateAbbrev: string, level: 'county' | '
 export async function loadDataWithCoverageCheck(
   stateAbbrev: string, 
   level: string, 
-  viewMode: string = "county"
+  viewMode: string = "county",
+  transport: DataTransport = r2Transport,
+  options: LoadOptions = {}
 ): Promise<OptimizedLoadResult & { coverageInfo?: any }> {
   // Check coverage first
   const coverage = await checkDataCoverage(stateAbbrev, level as 'county' | 'zip' | 'tract')
   
   // Load data
-  const result = await loadDataWithCloudflare(stateAbbrev, level, viewMode)
+  const result = await loadDataWithCloudflare(stateAbbrev, level, viewMode, { ...options, transport })
   
   // Add coverage info
   return {
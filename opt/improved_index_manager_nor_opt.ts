@@ -4,7 +4,8 @@
 // Purpose: Handle all geographic lookups and relationships
 // Usage: Import this in any component that needs geographic data
 
-const BASE_URL = "https://pub-349a836622034df3a45c179d98e8328a.r2.dev"
+import { r2Transport, type DataTransport } from '@/lib/data-transport'
+import { fetchWithRetry, isAbortError, type LoadOptions } from '@/lib/fetch-policy'
 
 // ============================================================================
 // CACHED STATE DATA - Load once per state, reuse forever
@@ -19,7 +20,12 @@ const stateIndexCache = new Map<string, {
 // ============================================================================
 // CORE FUNCTION: Load State Index Files - ALWAYS LOAD ALL (NO REPEAT CALLS)
 // ============================================================================
-export async function loadStateIndexes(stateAbbrev: string, level?: 'county' | 'zip' | 'tract'): Promise<boolean> {
+export async function loadStateIndexes(
+  stateAbbrev: string,
+  level?: 'county' | 'zip' | 'tract',
+  options: LoadOptions & { transport?: DataTransport } = {}
+): Promise<boolean> {
+  const { transport = r2Transport, ...loadOptions } = options
   // Return cached data if already loaded
   if (stateIndexCache.has(stateAbbrev)) {
     console.log(`📋 Using cached indexes for ${stateAbbrev}`)
@@ -32,9 +38,9 @@ export async function loadStateIndexes(stateAbbrev: string, level?: 'county' | '
   try {
     // ALWAYS load all 3 files to prevent repeated API calls
     const [counties, zips, tracts] = await Promise.all([
-      loadStateCSV(stateAbbrev, 'county'),
-      loadStateCSV(stateAbbrev, 'zip'), 
-      loadStateCSV(stateAbbrev, 'tract')
+      loadStateCSV(stateAbbrev, 'county', transport, loadOptions),
+      loadStateCSV(stateAbbrev, 'zip', transport, loadOptions),
+      loadStateCSV(stateAbbrev, 'tract', transport, loadOptions)
     ])
 
     // Cache the loaded data
@@ -54,6 +60,8 @@ export async function loadStateIndexes(stateAbbrev: string, level?: 'county' | '
     return true
 
   } catch (error) {
+    // Nothing was cached, so a cancelled load is simply retried next time
+    if (isAbortError(error)) throw error
     console.error(`❌ Failed to load ${stateAbbrev} indexes:`, error)
     return false
   }
@@ -62,10 +70,19 @@ export async function loadStateIndexes(stateAbbrev: string, level?: 'county' | '
 // ============================================================================
 // HELPER: Load Individual State CSV File
 // ============================================================================
-async function loadStateCSV(stateAbbrev: string, level: string): Promise<any[]> {
+async function loadStateCSV(
+  stateAbbrev: string,
+  level: string,
+  transport: DataTransport,
+  options: LoadOptions = {}
+): Promise<any[]> {
   try {
-    const url = `${BASE_URL}/index/csv/${stateAbbrev}/${level}.csv`
-    const response = await fetch(url)
+    // R2 keeps one folder per state; the repository keeps Index/csv/{ST}_{level}_data.csv
+    const path = transport.layout === 'r2'
+      ? `index/csv/${stateAbbrev}/${level}.csv`
+      : `Index/csv/${stateAbbrev}_${level}_data.csv`
+    const url = transport.resolve(path)
+    const response = await fetchWithRetry(transport, url, options)
     
     if (!response.ok) {
       console.log(`⚠️ No ${level} index for ${stateAbbrev} (${response.status})`)
@@ -93,6 +110,7 @@ async function loadStateCSV(stateAbbrev: string, level: string): Promise<any[]>
     })
 
   } catch (error) {
+    if (isAbortError(error)) throw error
     console.error(`❌ Error loading ${stateAbbrev} ${level}:`, error)
     return []
   }
@@ -121,6 +139,15 @@ function normalizeCountyCode(county: string | number | null | undefined): string
   return cleanCounty.padStart(3, '0')
 }
 
+// "Clark", "Clark County" and "Clark County, NV" all name the same county
+function normalizeCountyName(name: string | null | undefined): string {
+  if (!name) return ''
+  return name.toString().trim().toLowerCase()
+    .replace(/,\s*[a-z]{2}$/, '')
+    .replace(/\s+county$/, '')
+    .trim()
+}
+
 // ============================================================================
 // PRIMARY FUNCTION: Get Redfin ID - NO REPEATED LOADING (FIXED!)
 // ============================================================================
@@ -243,12 +270,41 @@ export async function getZipsInCounty(stateAbbrev: string, countyName: string):
   }
 
   const stateData = stateIndexCache.get(stateAbbrev)!
-  
-  // Find ZIPs that belong to this county
-  const zipsInCounty = stateData.zips.filter(row => 
-    row.redfin_county_name?.toLowerCase().includes(countyName.toLowerCase()) ||
-    row.county_name?.toLowerCase().includes(countyName.toLowerCase())
+  const target = normalizeCountyName(countyName)
+  const countyRecord = stateData.counties.find(row =>
+    normalizeCountyName(row.NAMELSAD) === target || normalizeCountyName(row.NAME) === target
   )
+  const countyCode = countyRecord ? normalizeCountyCode(countyRecord.COUNTYFP || countyRecord.GEOID) : ''
+
+  // Tract rows pair one tract with one ZIP, so a ZIP's share of its tracts in this county is
+  // its allocation weight - a ZIP crossing the county line is returned with a weight below 1
+  if (countyCode && stateData.tracts.length > 0) {
+    const tractCounts = new Map<string, { total: number, inCounty: number }>()
+    stateData.tracts.forEach(row => {
+      const zip = normalizeZipCode(row.zip_code_clean)
+      if (!zip) return
+      const counts = tractCounts.get(zip) || { total: 0, inCounty: 0 }
+      counts.total++
+      if (normalizeCountyCode(row.county_code_str) === countyCode) counts.inCounty++
+      tractCounts.set(zip, counts)
+    })
+
+    const zipsInCounty = stateData.zips
+      .filter(row => (tractCounts.get(normalizeZipCode(row.ZIPCODE))?.inCounty || 0) > 0)
+      .map(row => {
+        const counts = tractCounts.get(normalizeZipCode(row.ZIPCODE))!
+        return { ...row, allocation_weight: counts.inCounty / counts.total }
+      })
+
+    const splitCount = zipsInCounty.filter(row => row.allocation_weight < 1).length
+    console.log(`🎯 Found ${zipsInCounty.length} ZIPs in county ${countyName} (${splitCount} shared with other counties)`)
+    return zipsInCounty
+  }
+
+  // Without tracts each ZIP belongs whole to the one county the ZIP index names
+  const zipsInCounty = stateData.zips
+    .filter(row => normalizeCountyName(row.redfin_county_name) === target)
+    .map(row => ({ ...row, allocation_weight: 1 }))
 
   console.log(`🎯 Found ${zipsInCounty.length} ZIPs in county ${countyName}`)
   return zipsInCounty
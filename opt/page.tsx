@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useRef, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge"
 import { Loader2, MapPin, BarChart3, Database, TrendingUp } from "lucide-react"
 import { loadDataWithCloudflare, checkDataCoverage } from "@/lib/cloud_patterns_tract_opt.ts"
 import { loadStateIndexes, getCacheStats } from "@/lib/improved_index_manager_nor_opt"
+import { isAbortError } from "@/lib/fetch-policy"
 
 
 // US States for dropdown
@@ -73,10 +74,16 @@ export default function Dashboard() {
   const [loadTime, setLoadTime] = useState<number>(0)
   const [coverage, setCoverage] = useState<any>(null)
   const [cacheStats, setCacheStats] = useState<any>(null)
+  // Load in progress; aborted when another one starts
+  const loadControllerRef = useRef<AbortController | null>(null)
 
   const handleLoadData = async () => {
     if (!selectedState || !selectedLevel) return
 
+    loadControllerRef.current?.abort()
+    const controller = new AbortController()
+    loadControllerRef.current = controller
+
     setIsLoading(true)
     setLoadingStatus({
       geoJson: "not-attempted",
@@ -87,14 +94,16 @@ export default function Dashboard() {
 
     try {
       // Load state indexes first
-      await loadStateIndexes(selectedState)
+      await loadStateIndexes(selectedState, undefined, { signal: controller.signal })
 
       // Check coverage
       const coverageInfo = await checkDataCoverage(selectedState, selectedLevel as "county" | "zip" | "tract")
+      if (controller.signal.aborted) return
       setCoverage(coverageInfo)
 
       // Load data with real-time status updates
-      const result = await loadDataWithCloudflare(selectedState, selectedLevel, "county")
+      const result = await loadDataWithCloudflare(selectedState, selectedLevel, "county", { signal: controller.signal })
+      if (controller.signal.aborted) return
 
       setLoadingStatus(result.loadingStatus)
       setMatchingStats(result.matchingStats)
@@ -104,9 +113,10 @@ export default function Dashboard() {
       const stats = getCacheStats()
       setCacheStats(stats)
     } catch (error) {
+      if (isAbortError(error)) return
       console.error("Error loading data:", error)
     } finally {
-      setIsLoading(false)
+      if (loadControllerRef.current === controller) setIsLoading(false)
     }
   }
 